@@ -0,0 +1,94 @@
+// src/agent/agentSettings.ts
+import type { AgentOutputType } from '@openai/agents';
+import { Agent } from '@openai/agents';
+import type { AgentSettings } from '../utils/config.js';
+import { getConfig } from '../utils/config.js';
+
+// エージェントと設定ファイルの agents のキーの対応
+const agentSettingsNames = new WeakMap<object, string>();
+// 設定を反映済みのエージェント
+const configuredAgents = new WeakSet();
+
+/**
+ * 設定ファイルの agents からエージェントの設定を取得
+ * @param name - パイプラインのエージェント名（Triage, Architect, ...）
+ */
+export function getAgentSettings(name: string): AgentSettings {
+  return getConfig().agents[name] ?? { tools: {} };
+}
+
+/**
+ * エージェントを設定ファイルの agents のキーに関連付ける
+ * モジュールの読み込み時に設定を読むと、CLI がプロジェクトの設定を読み込む前に設定が確定してしまうため、
+ * 設定の反映は最初の実行時（configureAgent）まで遅らせる
+ */
+export function defineAgent<TContext, TOutput extends AgentOutputType>(
+  name: string,
+  agent: Agent<TContext, TOutput>
+): Agent<TContext, TOutput> {
+  agentSettingsNames.set(agent, name);
+  return agent;
+}
+
+/**
+ * エージェントの設定上の名前（defineAgent で関連付けていない場合は SDK のエージェント名）
+ */
+export function getAgentSettingsName(agent: { name: string }): string {
+  return agentSettingsNames.get(agent) ?? agent.name;
+}
+
+/**
+ * 構築したエージェントに設定のモデル・温度・ツールの有効/無効を反映
+ */
+export function applyAgentSettings<TContext, TOutput extends AgentOutputType>(
+  name: string,
+  agent: Agent<TContext, TOutput>
+): Agent<TContext, TOutput> {
+  const settings = getAgentSettings(name);
+  if (settings.model) {
+    agent.model = settings.model;
+  }
+  if (settings.temperature !== undefined) {
+    agent.modelSettings = { ...agent.modelSettings, temperature: settings.temperature };
+  }
+  const disabledTools = Object.entries(settings.tools).filter(([, enabled]) => !enabled).map(([toolName]) => toolName);
+  agent.tools = agent.tools.filter(tool => !disabledTools.includes(tool.name));
+  return agent;
+}
+
+/**
+ * 実行前に defineAgent で関連付けた設定を反映する（エージェントごとに1回のみ）
+ * ハンドオフ先のエージェントも同じ Runner の中で実行されるため、あわせて反映する
+ */
+export function configureAgent<TContext, TOutput extends AgentOutputType>(agent: Agent<TContext, TOutput>): Agent<TContext, TOutput> {
+  if (!(agent instanceof Agent) || configuredAgents.has(agent)) return agent;
+  configuredAgents.add(agent);
+
+  const name = agentSettingsNames.get(agent);
+  if (name) {
+    applyAgentSettings(name, agent);
+  }
+  for (const target of agent.handoffs) {
+    configureAgent(target instanceof Agent ? target : target.agent);
+  }
+  return agent;
+}
+
+/**
+ * モデルだけを差し替えたエージェントの複製を作成
+ * 複製も元のエージェントと同じ設定名で関連付け、Runner（プロバイダ）の選択や温度・ツール設定を引き継ぐ
+ * @param model - 設定ファイルのモデルより優先するモデル
+ */
+export function cloneAgentWithModel<TContext, TOutput extends AgentOutputType>(
+  agent: Agent<TContext, TOutput>,
+  model: string
+): Agent<TContext, TOutput> {
+  const clone = agent.clone({ model });
+  const name = agentSettingsNames.get(agent);
+  if (name) {
+    agentSettingsNames.set(clone, name);
+  }
+  configureAgent(clone);
+  clone.model = model;
+  return clone;
+}
@@ -2,9 +2,10 @@
 import { Agent } from '@openai/agents';
 import { RECOMMENDED_PROMPT_PREFIX } from '@openai/agents-core/extensions';
 import { DevOpsPlan } from './schemas.js';
+import { defineAgent } from './agentSettings.js';
 
-export const devopsAgent = new Agent({
+export const devopsAgent = defineAgent('DevOps', new Agent({
   name: 'DevOps/Release',
   instructions: `${RECOMMENDED_PROMPT_PREFIX}\nあなたはリリース担当です。Docker/CI/プレビューURL/ロールバック手順を提案してください。` ,
   outputType: DevOpsPlan,
-});
\ No newline at end of file
+}));
\ No newline at end of file
@@ -2,9 +2,10 @@
 import { Agent } from '@openai/agents';
 import { RECOMMENDED_PROMPT_PREFIX } from '@openai/agents-core/extensions';
 import { DocsUpdate } from './schemas.js';
+import { defineAgent } from './agentSettings.js';
 
-export const docsAgent = new Agent({
+export const docsAgent = defineAgent('Docs', new Agent({
   name: 'Docs/Comms',
   instructions: `${RECOMMENDED_PROMPT_PREFIX}\nあなたはドキュメント担当です。README/CHANGELOG/セットアップ手順の差分をまとめてください。` ,
   outputType: DocsUpdate,
-});
\ No newline at end of file
+}));
\ No newline at end of file
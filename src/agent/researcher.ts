@@ -2,8 +2,9 @@
 import { Agent, webSearchTool } from '@openai/agents';
 import { RECOMMENDED_PROMPT_PREFIX } from '@openai/agents-core/extensions';
 import { ResearchResult } from './schemas.js';
+import { defineAgent } from './agentSettings.js';
 
-export const researcherAgent = new Agent({
+export const researcherAgent = defineAgent('Researcher', new Agent({
   name: 'Researcher',
   instructions: [
     RECOMMENDED_PROMPT_PREFIX,
@@ -20,4 +21,4 @@ export const researcherAgent = new Agent({
   ].join('\n'),
   tools: [webSearchTool()],
   outputType: ResearchResult
-});
+}));
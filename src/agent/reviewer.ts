@@ -2,6 +2,7 @@
 import { Agent } from '@openai/agents';
 import { RECOMMENDED_PROMPT_PREFIX } from '@openai/agents-core/extensions';
 import { ReviewReport } from './schemas.js';
+import { defineAgent } from './agentSettings.js';
 import { TestRunner, type ESLintResult, type TypeCheckResult } from '../utils/testRunner.js';
 import { Logger } from '../utils/logger.js';
 
@@ -13,11 +14,11 @@ interface ReviewIssue {
   severity: 'info' | 'warn' | 'error';
 }
 
-export const reviewerAgent = new Agent({
+export const reviewerAgent = defineAgent('Reviewer', new Agent({
   name: 'Reviewer/Static-Analysis',
   instructions: `${RECOMMENDED_PROMPT_PREFIX}\nあなたはコードレビュー担当です。設計逸脱、危険API、型不整合、循環依存などを指摘し、ESLintや型チェックツールと連携して実際の静的解析結果も統合し、100点満点で採点します。`,
   outputType: ReviewReport,
-});
+}));
 
 /**
  * レビューエージェントの拡張クラス
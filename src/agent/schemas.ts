@@ -11,6 +11,14 @@ export const HandoffNote = z.object({
 });
 export type HandoffNote = z.infer<typeof HandoffNote>;
 
+// ===== Triage 出力 =====
+// Triage は outputType を持たないため、文字列の出力は memo として扱う
+export const TriageResult = z.preprocess(
+  value => typeof value === 'string' ? { memo: value } : value,
+  z.object({ memo: z.string().optional() }).passthrough()
+);
+export type TriageResult = z.infer<typeof TriageResult>;
+
 // ===== Architect 出力 =====
 export const ArchitecturePlan = z.object({
   projectName: z.string(),
@@ -2,14 +2,15 @@
 import { Agent } from '@openai/agents';
 import { RECOMMENDED_PROMPT_PREFIX } from '@openai/agents-core/extensions';
 import { TestReport } from './schemas.js';
+import { defineAgent } from './agentSettings.js';
 import { TestRunner, TestExecutionResult as _TestExecutionResult } from '../utils/testRunner.js';
 import { Logger } from '../utils/logger.js';
 
-export const testAgent = new Agent({
+export const testAgent = defineAgent('Tester', new Agent({
   name: 'Test',
   instructions: `${RECOMMENDED_PROMPT_PREFIX}\nあなたはテスト担当です。ユニット/統合テストの候補を提示し、実際にテストを実行して結果をまとめます。テストケースを生成し、Jest を使用して実行し、実際の passed/failed 件数とカバレッジ情報を報告してください。`,
   outputType: TestReport,
-});
+}));
 
 /**
  * テストエージェントの拡張クラス
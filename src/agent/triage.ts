@@ -9,13 +9,14 @@ import { testAgent } from './tester.js';
 import { devopsAgent } from './devops.js';
 import { docsAgent } from './docs.js';
 import { noSecretsGuardrail, compactJsonGuardrail } from './guardrails.js';
+import { defineAgent } from './agentSettings.js';
 import { readFile } from './tools/readFile.js';
 import { writeFileSafe } from './tools/writeFile.js';
 
 const TriageNoteSchema = z.object({ memo: z.string().optional() });
 export type TriageNote = z.infer<typeof TriageNoteSchema>;
 
-export const triageAgent = Agent.create({
+export const triageAgent = defineAgent('Triage', Agent.create({
   name: 'Triage',
   instructions: [
     RECOMMENDED_PROMPT_PREFIX,
@@ -38,4 +39,4 @@ export const triageAgent = Agent.create({
     handoff(devopsAgent, { inputFilter: removeAllTools, inputType: TriageNoteSchema }),
     handoff(docsAgent, { inputFilter: removeAllTools, inputType: TriageNoteSchema }),
   ],
-});
+}));
@@ -0,0 +1,75 @@
+// src/agent/workflow/ApprovalQueue.ts
+import type { ApprovalData, ApprovalDecision, ApprovalHandler } from './WorkflowOrchestrator.js';
+
+// 人の判断を待っている承認リクエスト
+export interface PendingApproval {
+  projectId: string;
+  stepId: string;
+  message: string;
+  data: ApprovalData;
+  requestedAt: Date;
+}
+
+export class ApprovalNotFoundError extends Error {
+  constructor(readonly stepId: string) {
+    super(`No pending approval for step: ${stepId}`);
+    this.name = 'ApprovalNotFoundError';
+  }
+}
+
+/**
+ * プロセス内の承認待ちキュー
+ * handler をワークフローの ApprovalHandler として渡すと、decide() が呼ばれるまでワークフローがブロックされる
+ * サーバーの /approvals エンドポイントなど、ワークフローの外から判断を受け付ける場合に使用する
+ */
+export class ApprovalQueue {
+  private pending = new Map<string, { approval: PendingApproval; resolve: (decision: ApprovalDecision) => void }>();
+
+  readonly handler: ApprovalHandler = (stepId, message, data, context, signal) =>
+    new Promise<ApprovalDecision>(resolve => {
+      // キャンセルされたワークフローの承認待ちは一覧から取り除く
+      const onAbort = () => {
+        if (this.pending.get(stepId) === entry) this.pending.delete(stepId);
+        resolve({ approved: false, comment: 'Workflow cancelled' });
+      };
+      const entry = {
+        approval: { projectId: context.id, stepId, message, data, requestedAt: new Date() },
+        // 判断が返されたらリスナーを外す（長いワークフローで同じ signal にリスナーが溜まらないようにする）
+        resolve: (decision: ApprovalDecision) => {
+          signal?.removeEventListener('abort', onAbort);
+          resolve(decision);
+        }
+      };
+      this.pending.set(stepId, entry);
+      signal?.addEventListener('abort', onAbort, { once: true });
+    });
+
+  list(): PendingApproval[] {
+    return [...this.pending.values()].map(entry => entry.approval);
+  }
+
+  get(stepId: string): PendingApproval | undefined {
+    return this.pending.get(stepId)?.approval;
+  }
+
+  /**
+   * 承認待ちのステップに判断を返し、ワークフローを再開させる
+   */
+  decide(stepId: string, decision: ApprovalDecision): void {
+    const entry = this.pending.get(stepId);
+    if (!entry) {
+      throw new ApprovalNotFoundError(stepId);
+    }
+    this.pending.delete(stepId);
+    entry.resolve(decision);
+  }
+
+  /**
+   * すべての承認待ちを却下する（シャットダウン時など）
+   */
+  rejectAll(comment = 'Approval queue closed'): void {
+    for (const stepId of [...this.pending.keys()]) {
+      this.decide(stepId, { approved: false, comment });
+    }
+  }
+}
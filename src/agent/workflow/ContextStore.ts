@@ -0,0 +1,109 @@
+// src/agent/workflow/ContextStore.ts
+import fs from 'fs/promises';
+import path from 'node:path';
+import type { ProjectContext } from './ProjectContext.js';
+import { ProjectContextSchema } from './ProjectContext.js';
+
+/**
+ * ProjectContext の永続化バックエンド
+ * ProjectContext.id をキーとして保存・復元する
+ */
+export interface ContextStore {
+  save(context: ProjectContext): Promise<void>;
+  load(projectId: string): Promise<ProjectContext | null>;
+  list(): Promise<string[]>;
+  delete(projectId: string): Promise<void>;
+}
+
+/**
+ * 保存されたデータを ProjectContextSchema で検証し、Date フィールドを復元する
+ */
+export function reviveProjectContext(raw: unknown): ProjectContext {
+  return ProjectContextSchema.parse(raw);
+}
+
+/**
+ * プロセス内メモリに保存するストア（テスト・短命な実行向け）
+ */
+export class InMemoryContextStore implements ContextStore {
+  private contexts = new Map<string, string>();
+
+  async save(context: ProjectContext): Promise<void> {
+    this.contexts.set(context.id, JSON.stringify(context));
+    await Promise.resolve();
+  }
+
+  async load(projectId: string): Promise<ProjectContext | null> {
+    const raw = this.contexts.get(projectId);
+    return await Promise.resolve(raw ? reviveProjectContext(JSON.parse(raw)) : null);
+  }
+
+  async list(): Promise<string[]> {
+    return await Promise.resolve([...this.contexts.keys()]);
+  }
+
+  async delete(projectId: string): Promise<void> {
+    this.contexts.delete(projectId);
+    await Promise.resolve();
+  }
+}
+
+/**
+ * JSONファイルに保存するストア
+ * `<baseDir>/<projectId>.json` に1プロジェクト1ファイルで保存する
+ */
+export class JsonFileContextStore implements ContextStore {
+  private baseDir: string;
+
+  constructor(baseDir = path.join(process.cwd(), 'data', 'workflows')) {
+    this.baseDir = baseDir;
+  }
+
+  async save(context: ProjectContext): Promise<void> {
+    const filePath = this.filePathFor(context.id);
+    const tempPath = `${filePath}.${process.pid.toString()}.tmp`;
+
+    await fs.mkdir(this.baseDir, { recursive: true });
+    // 途中で中断されても壊れたファイルが残らないよう、一時ファイル経由で置き換える
+    await fs.writeFile(tempPath, JSON.stringify(context, null, 2), 'utf8');
+    await fs.rename(tempPath, filePath);
+  }
+
+  async load(projectId: string): Promise<ProjectContext | null> {
+    try {
+      const raw = await fs.readFile(this.filePathFor(projectId), 'utf8');
+      return reviveProjectContext(JSON.parse(raw));
+    } catch (error) {
+      if (isNotFoundError(error)) return null;
+      throw error;
+    }
+  }
+
+  async list(): Promise<string[]> {
+    try {
+      const entries = await fs.readdir(this.baseDir);
+      return entries
+        .filter(entry => entry.endsWith('.json'))
+        .map(entry => entry.slice(0, -'.json'.length));
+    } catch (error) {
+      if (isNotFoundError(error)) return [];
+      throw error;
+    }
+  }
+
+  async delete(projectId: string): Promise<void> {
+    await fs.rm(this.filePathFor(projectId), { force: true });
+  }
+
+  private filePathFor(projectId: string): string {
+    // パストラバーサル防止: IDにはファイル名として安全な文字のみ許可
+    if (!/^[A-Za-z0-9_-]+$/.test(projectId)) {
+      throw new Error(`Invalid project id: ${projectId}`);
+    }
+    return path.join(this.baseDir, `${projectId}.json`);
+  }
+}
+
+function isNotFoundError(error: unknown): boolean {
+  return error instanceof Error && (error as NodeJS.ErrnoException).code === 'ENOENT';
+}
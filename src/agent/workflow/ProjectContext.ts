@@ -1,6 +1,10 @@
 // src/agent/workflow/ProjectContext.ts
 import { z } from 'zod';
-import { ArchitecturePlan, ImplementationResult, ReviewReport, TestReport, DevOpsPlan, DocsUpdate } from '../schemas.js';
+import { ArchitecturePlan, ImplementationResult, ReviewReport, TestReport, DevOpsPlan, DocsUpdate, ResearchResult, TriageResult } from '../schemas.js';
+import type { ContextStore } from './ContextStore.js';
+import { logger } from '../../utils/logger.js';
+import type { AgentErrorCategory } from '../../utils/agentErrors.js';
+import { AGENT_ERROR_CATEGORIES } from '../../utils/agentErrors.js';
 
 export enum WorkflowStage {
   INITIAL = 'initial',
@@ -21,24 +25,101 @@ export enum WorkflowStatus {
   IN_PROGRESS = 'in_progress',
   COMPLETED = 'completed',
   FAILED = 'failed',
-  REQUIRES_APPROVAL = 'requires_approval'
+  REQUIRES_APPROVAL = 'requires_approval',
+  PAUSED = 'paused',
+  CANCELLED = 'cancelled',
+  SKIPPED = 'skipped'
 }
 
+// トークン使用量と推定コストの集計
+export const UsageSummarySchema = z.object({
+  inputTokens: z.number().default(0),
+  outputTokens: z.number().default(0),
+  totalTokens: z.number().default(0),
+  requests: z.number().default(0),
+  costUsd: z.number().default(0)
+});
+
+export type UsageSummary = z.infer<typeof UsageSummarySchema>;
+
+export function emptyUsage(): UsageSummary {
+  return { inputTokens: 0, outputTokens: 0, totalTokens: 0, requests: 0, costUsd: 0 };
+}
+
+function addUsage(a: UsageSummary, b: UsageSummary): UsageSummary {
+  return {
+    inputTokens: a.inputTokens + b.inputTokens,
+    outputTokens: a.outputTokens + b.outputTokens,
+    totalTokens: a.totalTokens + b.totalTokens,
+    requests: a.requests + b.requests,
+    costUsd: a.costUsd + b.costUsd
+  };
+}
+
+// ステップの1回分の実行記録（追記のみで上書きしない）
+export const StepAttemptSchema = z.object({
+  attempt: z.number(),
+  // 実行時の ProjectContext.iterationCount（0 は最初の実行）
+  iteration: z.number(),
+  status: z.nativeEnum(WorkflowStatus),
+  input: z.string().optional(),
+  output: z.any().optional(),
+  error: z.string().optional(),
+  startedAt: z.coerce.date(),
+  completedAt: z.coerce.date(),
+  durationMs: z.number()
+});
+
+export type StepAttempt = z.infer<typeof StepAttemptSchema>;
+
+// 承認の判断の監査記録
+export const ApprovalRecordSchema = z.object({
+  approved: z.boolean(),
+  decidedAt: z.coerce.date(),
+  comment: z.string().optional(),
+  // 編集して承認された場合、編集前のエージェントの結果を保持する
+  edited: z.boolean().default(false),
+  originalResult: z.any().optional()
+});
+
+export type ApprovalRecord = z.infer<typeof ApprovalRecordSchema>;
+
 export const WorkflowStep = z.object({
   id: z.string(),
   stage: z.nativeEnum(WorkflowStage),
   status: z.nativeEnum(WorkflowStatus),
   agentName: z.string(),
-  startedAt: z.date().optional(),
-  completedAt: z.date().optional(),
+  inputTemplate: z.string().optional(),
+  // 再実行時に指定された入力（次の1回の実行のみ使用する）
+  inputOverride: z.string().optional(),
+  dependsOn: z.array(z.string()).optional(),
+  startedAt: z.coerce.date().optional(),
+  completedAt: z.coerce.date().optional(),
+  durationMs: z.number().optional(),
+  usage: UsageSummarySchema.optional(),
+  attempts: z.array(StepAttemptSchema).optional(),
   result: z.any().optional(),
   error: z.string().optional(),
   requiresApproval: z.boolean().default(false),
-  approved: z.boolean().optional()
+  approved: z.boolean().optional(),
+  approval: ApprovalRecordSchema.optional()
 });
 
 export type WorkflowStep = z.infer<typeof WorkflowStep>;
 
+// PDCA反復の履歴（反復を開始した時点の失敗内容と前回の実装）
+export const IterationRecordSchema = z.object({
+  iteration: z.number(),
+  startedAt: z.coerce.date(),
+  failingTests: TestReport.optional(),
+  reviewIssues: z.array(ReviewReport.shape.issues.element).default([]),
+  previousImplementation: ImplementationResult.optional(),
+  // 収束判定に使用する失敗内容の要約
+  failureSignature: z.string()
+});
+
+export type IterationRecord = z.infer<typeof IterationRecordSchema>;
+
 export const ProjectContextSchema = z.object({
   id: z.string(),
   originalRequest: z.string(),
@@ -50,8 +131,8 @@ export const ProjectContextSchema = z.object({
   currentStepIndex: z.number().default(0),
   
   // 各段階の結果
-  triageResult: z.any().optional(),
-  researchResult: z.any().optional(),
+  triageResult: TriageResult.optional(),
+  researchResult: ResearchResult.optional(),
   architecturePlan: ArchitecturePlan.optional(),
   implementationResult: ImplementationResult.optional(),
   testReport: TestReport.optional(),
@@ -60,19 +141,25 @@ export const ProjectContextSchema = z.object({
   docsUpdate: DocsUpdate.optional(),
   
   // メタデータ
-  createdAt: z.date(),
-  updatedAt: z.date(),
+  createdAt: z.coerce.date(),
+  updatedAt: z.coerce.date(),
   
   // エラートラッキング
   errors: z.array(z.object({
     stage: z.nativeEnum(WorkflowStage),
     error: z.string(),
-    timestamp: z.date()
+    // エラーの分類（AgentErrorCategory）
+    category: z.enum(AGENT_ERROR_CATEGORIES).optional(),
+    timestamp: z.coerce.date()
   })).default([]),
   
   // PDCA サイクル管理
   iterationCount: z.number().default(0),
   maxIterations: z.number().default(3),
+  iterations: z.array(IterationRecordSchema).default([]),
+
+  // トークン使用量（全ステップの合計）
+  usage: UsageSummarySchema.default({}),
   
   // 共有アーティファクト
   artifacts: z.object({
@@ -92,13 +179,22 @@ export const ProjectContextSchema = z.object({
 
 export type ProjectContext = z.infer<typeof ProjectContextSchema>;
 
+// 同じミリ秒に作成されたプロジェクトのIDが重ならないよう、直前のIDより大きい値を使う
+let lastProjectTimestamp = 0;
+// ステップIDも同様（承認キューなどはワークフローをまたいでステップIDで識別する）
+let lastStepTimestamp = 0;
+
 export class ProjectContextManager {
-  constructor(private context: ProjectContext) {}
+  // 永続化の書き込み順序を保証するためのキュー
+  private persistQueue: Promise<void> = Promise.resolve();
+
+  constructor(private context: ProjectContext, private store?: ContextStore) {}
 
   static create(originalRequest: string): ProjectContext {
     const now = new Date();
+    lastProjectTimestamp = Math.max(now.getTime(), lastProjectTimestamp + 1);
     return {
-      id: `project_${Date.now().toString()}`,
+      id: `project_${lastProjectTimestamp.toString()}`,
       originalRequest,
       currentStage: WorkflowStage.INITIAL,
       status: WorkflowStatus.PENDING,
@@ -109,6 +205,8 @@ export class ProjectContextManager {
       errors: [],
       iterationCount: 0,
       maxIterations: 3,
+      iterations: [],
+      usage: emptyUsage(),
       artifacts: {
         generatedFiles: [],
         modifiedFiles: [],
@@ -124,7 +222,8 @@ export class ProjectContextManager {
   }
 
   addWorkflowStep(step: Omit<WorkflowStep, 'id'>): string {
-    const stepId = `step_${this.context.workflow.length.toString()}_${Date.now().toString()}`;
+    lastStepTimestamp = Math.max(Date.now(), lastStepTimestamp + 1);
+    const stepId = `step_${this.context.workflow.length.toString()}_${lastStepTimestamp.toString()}`;
     this.context.workflow.push({
       ...step,
       id: stepId
@@ -143,6 +242,7 @@ export class ProjectContextManager {
         step.completedAt = new Date();
       }
       this.context.updatedAt = new Date();
+      this.checkpoint();
     }
   }
 
@@ -150,30 +250,72 @@ export class ProjectContextManager {
     if (this.context.currentStepIndex < this.context.workflow.length - 1) {
       this.context.currentStepIndex++;
       this.context.updatedAt = new Date();
+      this.checkpoint();
       return true;
     }
     return false;
   }
 
-  addError(stage: WorkflowStage, error: string) {
+  addError(stage: WorkflowStage, error: string, category?: AgentErrorCategory) {
     this.context.errors.push({
       stage,
       error,
+      category,
       timestamp: new Date()
     });
     this.context.updatedAt = new Date();
   }
 
+  /**
+   * ステップの使用量を記録し、ワークフロー全体の合計に加算する
+   * PDCAで再実行されたステップの使用量は累積される
+   */
+  recordUsage(stepId: string, usage: UsageSummary) {
+    const step = this.context.workflow.find(s => s.id === stepId);
+    if (step) {
+      step.usage = addUsage(step.usage ?? emptyUsage(), usage);
+    }
+    this.context.usage = addUsage(this.context.usage, usage);
+    this.context.updatedAt = new Date();
+  }
+
   incrementIteration() {
     this.context.iterationCount++;
     this.context.updatedAt = new Date();
   }
 
+  /**
+   * ステップの実行記録を追記する
+   * attempt は1から始まる通し番号、iteration は実行時の反復回数
+   */
+  recordAttempt(stepId: string, attempt: Omit<StepAttempt, 'attempt' | 'iteration'>) {
+    const step = this.context.workflow.find(s => s.id === stepId);
+    if (!step) return;
+
+    step.attempts ??= [];
+    step.attempts.push({
+      ...attempt,
+      attempt: step.attempts.length + 1,
+      iteration: this.context.iterationCount
+    });
+    this.context.updatedAt = new Date();
+    this.checkpoint();
+  }
+
+  recordIteration(record: IterationRecord) {
+    this.context.iterations.push(record);
+    this.context.updatedAt = new Date();
+  }
+
   shouldContinueIterations(): boolean {
     return this.context.iterationCount < this.context.maxIterations;
   }
 
   addApprovalRequest(stepId: string, message: string, data: unknown) {
+    // 同じステップへの再要求（編集内容が不正だった場合など）は置き換える
+    this.context.pendingApprovals = this.context.pendingApprovals.filter(
+      approval => approval.stepId !== stepId
+    );
     this.context.pendingApprovals.push({
       stepId,
       message,
@@ -183,7 +325,10 @@ export class ProjectContextManager {
     this.context.updatedAt = new Date();
   }
 
-  approveStep(stepId: string) {
+  /**
+   * @param note.originalResult - 結果を編集して承認した場合の編集前の結果
+   */
+  approveStep(stepId: string, note: { comment?: string; originalResult?: unknown } = {}) {
     this.context.pendingApprovals = this.context.pendingApprovals.filter(
       approval => approval.stepId !== stepId
     );
@@ -191,6 +336,17 @@ export class ProjectContextManager {
     const step = this.context.workflow.find(s => s.id === stepId);
     if (step) {
       step.approved = true;
+      step.approval = {
+        approved: true,
+        decidedAt: new Date(),
+        comment: note.comment,
+        edited: note.originalResult !== undefined,
+        originalResult: note.originalResult
+      };
+      // 承認待ちだったステップは完了状態に戻す
+      if (step.status === WorkflowStatus.REQUIRES_APPROVAL) {
+        step.status = WorkflowStatus.COMPLETED;
+      }
     }
     
     if (this.context.pendingApprovals.length === 0) {
@@ -198,6 +354,26 @@ export class ProjectContextManager {
     }
     
     this.context.updatedAt = new Date();
+    this.checkpoint();
+  }
+
+  rejectStep(stepId: string, comment?: string) {
+    this.context.pendingApprovals = this.context.pendingApprovals.filter(
+      approval => approval.stepId !== stepId
+    );
+
+    const step = this.context.workflow.find(s => s.id === stepId);
+    if (step) {
+      step.approved = false;
+      step.approval = { approved: false, decidedAt: new Date(), comment, edited: false };
+    }
+
+    if (this.context.pendingApprovals.length === 0) {
+      this.context.status = WorkflowStatus.IN_PROGRESS;
+    }
+
+    this.context.updatedAt = new Date();
+    this.checkpoint();
   }
 
   getContext(): ProjectContext {
@@ -208,4 +384,27 @@ export class ProjectContextManager {
     Object.assign(this.context, updates);
     this.context.updatedAt = new Date();
   }
+
+  /**
+   * 現在のコンテキストのスナップショットをストアへ書き込む
+   * 書き込みはキューで直列化され、失敗してもワークフローは継続する
+   */
+  checkpoint(): void {
+    const store = this.store;
+    if (!store) return;
+
+    const snapshot = structuredClone(this.context);
+    this.persistQueue = this.persistQueue
+      .then(() => store.save(snapshot))
+      .catch((error: unknown) => {
+        logger.error(`Failed to persist project context ${snapshot.id}`, error instanceof Error ? error : new Error(String(error)));
+      });
+  }
+
+  /**
+   * 保留中の書き込みがすべて完了するまで待機
+   */
+  async flush(): Promise<void> {
+    await this.persistQueue;
+  }
 }
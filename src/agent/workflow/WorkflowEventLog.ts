@@ -0,0 +1,83 @@
+// src/agent/workflow/WorkflowEventLog.ts
+import type { WorkflowStep } from './ProjectContext.js';
+import type { WorkflowEventBus, WorkflowEventMap, WorkflowEventName } from './WorkflowEvents.js';
+
+// 配信用に記録したイベント（id は1から始まる連番。data には ProjectContext 全体を含めない）
+export interface LoggedWorkflowEvent {
+  id: number;
+  event: WorkflowEventName;
+  data: Record<string, unknown>;
+}
+
+export type LoggedWorkflowEventListener = (event: LoggedWorkflowEvent) => void;
+
+function stepSummary(step: WorkflowStep) {
+  return { stepId: step.id, stage: step.stage, agent: step.agentName };
+}
+
+// 記録するイベントと、配信用の要約
+const SUMMARIZERS: { [E in WorkflowEventName]: (payload: WorkflowEventMap[E]) => Record<string, unknown> } = {
+  'workflow:start': ({ context, resumed }) => ({ projectId: context.id, resumed }),
+  'step:start': ({ step }) => stepSummary(step),
+  'step:complete': ({ step }) => ({ ...stepSummary(step), durationMs: step.durationMs }),
+  'step:failed': ({ step, error }) => ({ ...stepSummary(step), error }),
+  'agent:stream': ({ step, event }) => ({ stepId: step.id, stage: step.stage, ...event }),
+  'approval:requested': ({ stepId, message }) => ({ stepId, message }),
+  'iteration:start': ({ iteration }) => ({ iteration }),
+  'budget:exceeded': ({ reason, action, usage }) => ({ reason, action, usage }),
+  'workflow:complete': ({ context }) => ({ status: context.status, currentStage: context.currentStage }),
+};
+
+/**
+ * ワークフローのイベントを連番付きで記録し、購読者に配信する
+ * SSE の Last-Event-ID による再接続のため、直近 maxEvents 件を保持する
+ * 購読すると agent:stream も記録されるため、エージェントはストリーミングで実行される
+ */
+export class WorkflowEventLog {
+  private events: LoggedWorkflowEvent[] = [];
+  private nextId = 1;
+  private listeners = new Set<LoggedWorkflowEventListener>();
+  private finished = false;
+  private readonly maxEvents: number;
+
+  constructor(bus: WorkflowEventBus, options: { maxEvents?: number } = {}) {
+    this.maxEvents = options.maxEvents ?? 1000;
+    for (const name of Object.keys(SUMMARIZERS) as WorkflowEventName[]) {
+      bus.on(name, payload => {
+        this.record(name, (SUMMARIZERS[name] as (payload: unknown) => Record<string, unknown>)(payload));
+      });
+    }
+  }
+
+  /**
+   * lastEventId より後のイベント（保持期間を過ぎたものは含まれない）
+   */
+  since(lastEventId = 0): LoggedWorkflowEvent[] {
+    return this.events.filter(event => event.id > lastEventId);
+  }
+
+  /**
+   * 以降に記録されるイベントを購読し、登録解除用の関数を返す
+   */
+  subscribe(listener: LoggedWorkflowEventListener): () => void {
+    this.listeners.add(listener);
+    return () => { this.listeners.delete(listener); };
+  }
+
+  // workflow:complete を記録済みの場合 true（以降のイベントはない）
+  isFinished(): boolean {
+    return this.finished;
+  }
+
+  private record(event: WorkflowEventName, data: Record<string, unknown>): void {
+    const logged = { id: this.nextId++, event, data };
+    this.events.push(logged);
+    if (this.events.length > this.maxEvents) this.events.shift();
+    // workflow:complete 後は再開（再実行）されるまで終了扱い
+    this.finished = event === 'workflow:complete';
+
+    for (const listener of [...this.listeners]) {
+      listener(logged);
+    }
+  }
+}
@@ -0,0 +1,80 @@
+// src/agent/workflow/WorkflowEvents.ts
+import type { ProjectContext, UsageSummary, WorkflowStep } from './ProjectContext.js';
+import type { ApprovalData } from './WorkflowOrchestrator.js';
+import type { AgentStreamEvent } from '../../utils/agentRunner.js';
+import { logger } from '../../utils/logger.js';
+
+// イベント名とペイロードの対応
+export interface WorkflowEventMap {
+  'workflow:start': { context: ProjectContext; resumed: boolean };
+  'step:start': { step: WorkflowStep; context: ProjectContext };
+  'step:complete': { step: WorkflowStep; result: unknown; context: ProjectContext };
+  'step:failed': { step: WorkflowStep; error: string; context: ProjectContext };
+  // 購読されている場合のみ、エージェントはストリーミングで実行される
+  'agent:stream': { step: WorkflowStep; event: AgentStreamEvent };
+  'approval:requested': { stepId: string; message: string; data: ApprovalData; context: ProjectContext };
+  'iteration:start': { iteration: number; context: ProjectContext };
+  'budget:exceeded': { reason: string; action: 'stop' | 'downgrade'; usage: UsageSummary; context: ProjectContext };
+  'workflow:complete': { context: ProjectContext };
+}
+
+export type WorkflowEventName = keyof WorkflowEventMap;
+
+export type WorkflowEventListener<E extends WorkflowEventName> = (
+  payload: WorkflowEventMap[E]
+) => void | Promise<void>;
+
+/**
+ * ワークフローのライフサイクルイベントを配信する型付きイベントバス
+ * リスナーは登録順に実行され、emit は全リスナーの完了を待つ
+ * リスナーの例外はログに記録され、ワークフローの実行には影響しない
+ */
+export class WorkflowEventBus {
+  private listeners = new Map<WorkflowEventName, Set<WorkflowEventListener<WorkflowEventName>>>();
+
+  /**
+   * リスナーを登録し、登録解除用の関数を返す
+   */
+  on<E extends WorkflowEventName>(event: E, listener: WorkflowEventListener<E>): () => void {
+    let set = this.listeners.get(event);
+    if (!set) {
+      set = new Set();
+      this.listeners.set(event, set);
+    }
+    set.add(listener as WorkflowEventListener<WorkflowEventName>);
+    return () => { this.off(event, listener); };
+  }
+
+  once<E extends WorkflowEventName>(event: E, listener: WorkflowEventListener<E>): () => void {
+    const unsubscribe = this.on(event, async payload => {
+      unsubscribe();
+      await listener(payload);
+    });
+    return unsubscribe;
+  }
+
+  off<E extends WorkflowEventName>(event: E, listener: WorkflowEventListener<E>): void {
+    this.listeners.get(event)?.delete(listener as WorkflowEventListener<WorkflowEventName>);
+  }
+
+  listenerCount(event: WorkflowEventName): number {
+    return this.listeners.get(event)?.size ?? 0;
+  }
+
+  async emit<E extends WorkflowEventName>(event: E, payload: WorkflowEventMap[E]): Promise<void> {
+    const set = this.listeners.get(event);
+    if (!set) return;
+
+    for (const listener of [...set]) {
+      try {
+        await listener(payload);
+      } catch (error) {
+        logger.error(`Workflow event listener for ${event} failed`, error instanceof Error ? error : new Error(String(error)));
+      }
+    }
+  }
+
+  removeAllListeners(): void {
+    this.listeners.clear();
+  }
+}
@@ -0,0 +1,233 @@
+// src/agent/workflow/WorkflowJobQueue.ts
+import type { ApprovalHandler, WorkflowConfig } from './WorkflowOrchestrator.js';
+import { WorkflowOrchestrator } from './WorkflowOrchestrator.js';
+import type { ProjectContext, UsageSummary } from './ProjectContext.js';
+import { ProjectContextManager, WorkflowStatus } from './ProjectContext.js';
+import { WorkflowEventLog } from './WorkflowEventLog.js';
+import { logger } from '../../utils/logger.js';
+
+export const WORKFLOW_JOB_STATUSES = ['queued', 'running', 'completed', 'failed', 'cancelled'] as const;
+
+export type WorkflowJobStatus = typeof WORKFLOW_JOB_STATUSES[number];
+
+// バックグラウンドで実行するワークフロー1件（id は ProjectContext.id と同じ）
+export interface WorkflowJob {
+  id: string;
+  request: string;
+  status: WorkflowJobStatus;
+  // 登録したAPIキー（認証が無効な場合はなし）
+  principalId?: string;
+  createdAt: Date;
+  startedAt?: Date;
+  finishedAt?: Date;
+  error?: string;
+  // 終了時点のトークン使用量とコスト
+  usage?: UsageSummary;
+}
+
+export interface WorkflowJobQueueOptions {
+  // 同時に実行するワークフロー数の上限
+  concurrency?: number;
+  // 終了したジョブを保持する件数（超えた分は古いものから一覧から外す）
+  maxFinishedJobs?: number;
+  // すべてのジョブに共通のワークフロー設定（submit 時の設定で上書きされる）
+  config?: WorkflowConfig;
+  // ジョブごとに保持するイベント数（GET /workflows/:id/events の再接続用）
+  maxEventsPerJob?: number;
+  approvalHandler?: ApprovalHandler;
+}
+
+export class WorkflowJobNotFoundError extends Error {
+  constructor(readonly jobId: string) {
+    super(`Workflow job not found: ${jobId}`);
+    this.name = 'WorkflowJobNotFoundError';
+  }
+}
+
+export class WorkflowJobStateError extends Error {
+  constructor(readonly jobId: string, readonly status: WorkflowJobStatus) {
+    super(`Workflow job ${jobId} is already ${status}`);
+    this.name = 'WorkflowJobStateError';
+  }
+}
+
+interface JobEntry {
+  job: WorkflowJob;
+  orchestrator: WorkflowOrchestrator;
+  events: WorkflowEventLog;
+  // ジョブの終了時に解決される
+  done: Promise<void>;
+  finish: () => void;
+}
+
+/**
+ * プロセス内のワークフロー実行キュー
+ * submit() はジョブを登録してすぐに返し、concurrency 件までのワークフローを登録順に実行する
+ * サーバーの /workflows エンドポイントなど、実行の完了を待たずに受け付ける場合に使用する
+ */
+export class WorkflowJobQueue {
+  private jobs = new Map<string, JobEntry>();
+  private waiting: JobEntry[] = [];
+  private runningCount = 0;
+  private readonly concurrency: number;
+  private readonly maxFinishedJobs: number;
+  private readonly maxEventsPerJob?: number;
+  private readonly config: WorkflowConfig;
+  private readonly approvalHandler?: ApprovalHandler;
+
+  constructor(options: WorkflowJobQueueOptions = {}) {
+    this.concurrency = Math.max(1, options.concurrency ?? 2);
+    this.maxFinishedJobs = options.maxFinishedJobs ?? 100;
+    this.maxEventsPerJob = options.maxEventsPerJob;
+    this.config = options.config ?? {};
+    this.approvalHandler = options.approvalHandler;
+  }
+
+  /**
+   * ワークフローをキューに登録（空きがあればすぐに実行を開始する）
+   * @param principalId - 登録したAPIキーの id（サーバーはこのキー以外にジョブを公開しない）
+   */
+  submit(request: string, config: WorkflowConfig = {}, principalId?: string): WorkflowJob {
+    const context = ProjectContextManager.create(request);
+    const orchestrator = new WorkflowOrchestrator(context, { ...this.config, ...config }, this.approvalHandler);
+    let finish: () => void = () => undefined;
+    const done = new Promise<void>(resolve => { finish = resolve; });
+    const entry: JobEntry = {
+      job: { id: context.id, request, status: 'queued', principalId, createdAt: new Date() },
+      orchestrator,
+      events: new WorkflowEventLog(orchestrator.events, { maxEvents: this.maxEventsPerJob }),
+      done,
+      finish
+    };
+
+    this.jobs.set(context.id, entry);
+    this.waiting.push(entry);
+    logger.info(`Queued workflow job ${context.id}`, { waiting: this.waiting.length, running: this.runningCount });
+    this.drain();
+    return { ...entry.job };
+  }
+
+  get(jobId: string): WorkflowJob | undefined {
+    const entry = this.jobs.get(jobId);
+    return entry ? { ...entry.job } : undefined;
+  }
+
+  /**
+   * 実行中（または実行待ち）のワークフローの現在のコンテキスト
+   */
+  getContext(jobId: string): ProjectContext | undefined {
+    return this.jobs.get(jobId)?.orchestrator.getContext();
+  }
+
+  /**
+   * ジョブのイベントログ（実行開始前から記録される）
+   */
+  getEventLog(jobId: string): WorkflowEventLog | undefined {
+    return this.jobs.get(jobId)?.events;
+  }
+
+  /**
+   * 登録順のジョブ一覧（status を指定した場合はそのいずれかの状態のジョブのみ）
+   */
+  list(filter: { status?: readonly WorkflowJobStatus[] } = {}): WorkflowJob[] {
+    return [...this.jobs.values()]
+      .map(entry => ({ ...entry.job }))
+      .filter(job => !filter.status || filter.status.includes(job.status));
+  }
+
+  /**
+   * ジョブをキャンセル
+   * 実行待ちのジョブは実行せずにキャンセル済みとして保存し、実行中のジョブはエージェントを中断する
+   */
+  cancel(jobId: string, reason = 'Workflow cancelled'): WorkflowJob {
+    const entry = this.jobs.get(jobId);
+    if (!entry) {
+      throw new WorkflowJobNotFoundError(jobId);
+    }
+    if (entry.job.status !== 'queued' && entry.job.status !== 'running') {
+      throw new WorkflowJobStateError(jobId, entry.job.status);
+    }
+
+    const index = this.waiting.indexOf(entry);
+    if (index >= 0) {
+      this.waiting.splice(index, 1);
+      this.finishQueued(entry, reason);
+    } else {
+      entry.orchestrator.cancel(reason);
+    }
+    return { ...entry.job };
+  }
+
+  /**
+   * ジョブの終了を待つ（テスト・シャットダウン用）
+   */
+  async wait(jobId: string): Promise<WorkflowJob> {
+    const entry = this.jobs.get(jobId);
+    if (!entry) {
+      throw new WorkflowJobNotFoundError(jobId);
+    }
+    await entry.done;
+    return { ...entry.job };
+  }
+
+  private drain(): void {
+    while (this.runningCount < this.concurrency && this.waiting.length > 0) {
+      const entry = this.waiting.shift();
+      if (entry) this.start(entry);
+    }
+  }
+
+  private start(entry: JobEntry): void {
+    const { job, orchestrator } = entry;
+    job.status = 'running';
+    job.startedAt = new Date();
+    this.runningCount++;
+
+    void orchestrator.executeWorkflow()
+      .then(context => {
+        job.status = context.status === WorkflowStatus.COMPLETED
+          ? 'completed'
+          : context.status === WorkflowStatus.CANCELLED ? 'cancelled' : 'failed';
+      })
+      .catch((error: unknown) => {
+        job.status = orchestrator.isCancelled() ? 'cancelled' : 'failed';
+        job.error = error instanceof Error ? error.message : String(error);
+      })
+      .finally(() => {
+        job.finishedAt = new Date();
+        job.usage = { ...orchestrator.getContext().usage };
+        this.runningCount--;
+        logger.info(`Workflow job ${job.id} ${job.status}`);
+        this.pruneFinished();
+        entry.finish();
+        this.drain();
+      });
+  }
+
+  /**
+   * 実行待ちのジョブを実行せずにキャンセル済みとして終了する（実行枠は使用しない）
+   */
+  private finishQueued(entry: JobEntry, reason: string): void {
+    const { job, orchestrator } = entry;
+    job.status = 'cancelled';
+    job.finishedAt = new Date();
+
+    void orchestrator.cancelBeforeStart(reason)
+      .catch((error: unknown) => {
+        job.error = error instanceof Error ? error.message : String(error);
+      })
+      .finally(() => {
+        job.usage = { ...orchestrator.getContext().usage };
+        logger.info(`Workflow job ${job.id} ${job.status}`);
+        this.pruneFinished();
+        entry.finish();
+      });
+  }
+
+  private pruneFinished(): void {
+    const finished = [...this.jobs.values()].filter(entry => entry.job.finishedAt !== undefined);
+    for (const entry of finished.slice(0, Math.max(0, finished.length - this.maxFinishedJobs))) {
+      this.jobs.delete(entry.job.id);
+    }
+  }
+}
@@ -1,17 +1,28 @@
 // src/agent/workflow/WorkflowOrchestrator.ts
-import type { ProjectContext} from './ProjectContext.js';
-import { ProjectContextManager, WorkflowStage, WorkflowStatus } from './ProjectContext.js';
-import type { ArchitecturePlan, ImplementationResult, TestReport, ReviewReport, DevOpsPlan, DocsUpdate } from '../schemas.js';
-import { triageAgent } from '../triage.js';
-import { researcherAgent } from '../researcher.js';
-import { architectAgent } from '../architect.js';
-import { implementerAgent } from '../implementer.js';
-import { testAgent } from '../tester.js';
-import { reviewerAgent } from '../reviewer.js';
-import { devopsAgent } from '../devops.js';
-import { docsAgent } from '../docs.js';
+import type { z } from 'zod';
+import type { Agent } from '@openai/agents';
+import type { IterationRecord, ProjectContext, WorkflowStep } from './ProjectContext.js';
+import { ProjectContextManager, ProjectContextSchema, WorkflowStage, WorkflowStatus } from './ProjectContext.js';
+import type { ContextStore } from './ContextStore.js';
+import { JsonFileContextStore } from './ContextStore.js';
+import type { PipelineDefinition } from './pipeline.js';
+import { DEFAULT_PIPELINE, DEFAULT_STAGE_INPUTS, STAGE_RESULT_KEYS, renderInputTemplate } from './pipeline.js';
+import { isWorkflowAgent, resolveWorkflowAgent } from './agentRegistry.js';
+import type { StageInputLimits } from './stageInputs.js';
+import { DEFAULT_STAGE_INPUT_LIMITS, buildStageInput, truncateStageInput } from './stageInputs.js';
+import { WorkflowEventBus } from './WorkflowEvents.js';
+import { findStep } from './history.js';
+import type { ModelPricing, WorkflowBudget } from './budget.js';
+import { DEFAULT_MODEL_PRICING, calculateCost, getBudgetViolation } from './budget.js';
+import type { RunPolicies } from './runPolicy.js';
+import { DEFAULT_RUN_POLICY, resolveRunPolicy } from './runPolicy.js';
+import { cloneAgentWithModel } from '../agentSettings.js';
 import { logger } from '../../utils/logger.js';
 import type { AgentRunResult } from '../../utils/agentRunner.js';
+import type { AgentCassette } from '../../utils/agentCassette.js';
+import type { AgentResponseCache } from '../../utils/agentCache.js';
+import type { ErrorPolicies } from '../../utils/agentErrors.js';
+import { ValidationError, classifyAgentError, createAgentError, resolveErrorAction } from '../../utils/agentErrors.js';
 import { runAgent as _runAgent, runAgentWithRetry } from '../../utils/agentRunner.js';
 
 // OpenAI Agents SDKのAgent型（簡素化版）
@@ -25,6 +36,29 @@ export interface WorkflowConfig {
   requireApproval?: boolean;
   maxIterations?: number;
   autoApprove?: boolean;
+  contextStore?: ContextStore;
+  pipeline?: PipelineDefinition;
+  maxConcurrency?: number;
+  events?: WorkflowEventBus;
+  budget?: WorkflowBudget;
+  // DEFAULT_MODEL_PRICING に追加・上書きする料金表
+  pricing?: Record<string, ModelPricing>;
+  inputLimits?: Partial<StageInputLimits>;
+  // エージェントの入出力を記録・再生するカセット
+  cassette?: AgentCassette;
+  // エラー分類ごとの対処方針（DEFAULT_ERROR_POLICIES に上書きする）
+  errorPolicies?: ErrorPolicies;
+  // 段階・エージェントごとのタイムアウト・リトライ設定（maxTurns より優先）
+  runPolicies?: RunPolicies;
+  // エージェントの実行結果のキャッシュ（runPolicies の cache: false の段階・エージェントでは使用しない）
+  cache?: AgentResponseCache;
+}
+
+// ステップ実行後にスケジューラへ返す結果
+interface StepOutcome {
+  stepId: string;
+  stop: boolean;
+  iterate: boolean;
 }
 
 // 承認ハンドラーに渡されるデータの型
@@ -33,34 +67,74 @@ export interface ApprovalData {
   stepId: string;
   input: string;
   result?: unknown;
+  // 編集された結果が段階のスキーマに適合しなかった場合の理由（result は編集後の値）
+  validationError?: string;
+}
+
+// 承認ハンドラーの判断（boolean は { approved } の省略形）
+export interface ApprovalDecision {
+  approved: boolean;
+  // 編集して承認する場合、段階の結果を置き換える値
+  result?: unknown;
+  comment?: string;
 }
 
 export type ApprovalHandler = (
   stepId: string, 
   message: string, 
   data: ApprovalData, 
-  context: ProjectContext
-) => Promise<boolean>;
+  context: ProjectContext,
+  // ワークフローがキャンセルされると中断される
+  signal?: AbortSignal
+) => Promise<boolean | ApprovalDecision>;
+
+// zod の検証エラーを「パス: メッセージ」の一覧にまとめる
+function formatIssues(error: z.ZodError): string {
+  return error.issues
+    .map(issue => `${issue.path.length > 0 ? issue.path.join('.') : '(root)'}: ${issue.message}`)
+    .join('; ');
+}
+
+// 完了済みワークフローのステップ操作で発生するエラー
+export class WorkflowControlError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'WorkflowControlError';
+  }
+}
+
+export interface RerunStepOptions {
+  // 上流の結果から組み立てる代わりに使用する入力（今回の実行のみ）
+  input?: string;
+}
 
 export class WorkflowOrchestrator {
   private contextManager: ProjectContextManager;
   private config: WorkflowConfig;
   private approvalHandler?: ApprovalHandler;
+  readonly events: WorkflowEventBus;
+  private abortController = new AbortController();
+  // 一時停止中は resume() で解決される Promise を保持する
+  private pauseGate: { promise: Promise<void>; release: () => void } | null = null;
+  private budgetExceeded = false;
+  private executing = false;
 
   constructor(
     context: ProjectContext, 
     config: WorkflowConfig = {}, 
     approvalHandler?: ApprovalHandler
   ) {
-    this.contextManager = new ProjectContextManager(context);
+    this.contextManager = new ProjectContextManager(context, config.contextStore);
     this.config = {
       maxTurns: 10,
       requireApproval: false,
       maxIterations: 3,
       autoApprove: false,
+      maxConcurrency: 2,
       ...config
     };
     this.approvalHandler = approvalHandler;
+    this.events = config.events ?? new WorkflowEventBus();
   }
 
   static async createWorkflow(
@@ -72,17 +146,60 @@ export class WorkflowOrchestrator {
     return await Promise.resolve(new WorkflowOrchestrator(context, config, approvalHandler));
   }
 
-  private async executeAgent(agent: unknown, input: string, stepId: string): Promise<AgentRunResult> {
+  /**
+   * 永続化されたコンテキストからオーケストレーターを復元
+   * contextStore 未指定時は JSON ファイルストアを使用する
+   */
+  static async load(
+    projectId: string,
+    config: WorkflowConfig = {},
+    approvalHandler?: ApprovalHandler
+  ): Promise<WorkflowOrchestrator> {
+    const contextStore = config.contextStore ?? new JsonFileContextStore();
+    const context = await contextStore.load(projectId);
+    if (!context) {
+      throw new Error(`Project context not found: ${projectId}`);
+    }
+    return new WorkflowOrchestrator(context, { ...config, contextStore }, approvalHandler);
+  }
+
+  /**
+   * 中断されたワークフローを currentStepIndex から再開
+   */
+  static async resume(
+    projectId: string,
+    config: WorkflowConfig = {},
+    approvalHandler?: ApprovalHandler
+  ): Promise<ProjectContext> {
+    const orchestrator = await WorkflowOrchestrator.load(projectId, config, approvalHandler);
+    return await orchestrator.executeWorkflow();
+  }
+
+  private async executeAgent(baseAgent: unknown, input: string, step: WorkflowStep): Promise<AgentRunResult> {
+    const stepId = step.id;
+    const agent = this.applyBudgetDowngrade(baseAgent);
     // OpenAI Agents SDKの複雑な型システムにより、ここでは unknown を使用
     const agentWithName = agent as { name: string };
     logger.info(`Executing ${agentWithName.name} for step ${stepId}`);
+    const policy = resolveRunPolicy(this.config.runPolicies, step.stage, step.agentName, {
+      ...DEFAULT_RUN_POLICY,
+      maxTurns: this.config.maxTurns ?? DEFAULT_RUN_POLICY.maxTurns
+    });
     
     try {
       // Phase 1: 新しいrunAgentWithRetryを使用してエージェントを実行
       // eslint-disable-next-line @typescript-eslint/no-explicit-any, @typescript-eslint/no-unsafe-argument
-      const result = await runAgentWithRetry(agent as any, input, 2, {
-        maxTurns: this.config.maxTurns,
-        timeout: 120000 // 2分タイムアウト
+      const result = await runAgentWithRetry(agent as any, input, policy.retries, {
+        maxTurns: policy.maxTurns,
+        timeout: policy.timeoutMs,
+        backoff: policy.backoff,
+        signal: this.abortController.signal,
+        cassette: this.config.cassette,
+        errorPolicies: this.config.errorPolicies,
+        cache: policy.cache ? this.config.cache : undefined,
+        onStreamEvent: this.events.listenerCount('agent:stream') > 0
+          ? event => { void this.events.emit('agent:stream', { step, event }); }
+          : undefined
       });
 
       if (result.success) {
@@ -96,99 +213,230 @@ export class WorkflowOrchestrator {
       return result;
       
     } catch (error) {
-      const errorMessage = error instanceof Error ? error.message : String(error);
-      logger.error(`🚨 Unexpected error in ${agentWithName.name}:`, new Error(errorMessage));
+      const agentError = classifyAgentError(error);
+      logger.error(`🚨 Unexpected error in ${agentWithName.name}:`, agentError);
       
       return {
         success: false,
-        error: errorMessage,
-        metadata: { errorType: 'UnexpectedError' },
+        error: agentError.message,
+        metadata: { errorType: 'UnexpectedError', errorCategory: agentError.category },
         recoverable: false
       };
     }
   }
 
-  private async requestApproval(stepId: string, message: string, data: ApprovalData): Promise<boolean> {
+  /**
+   * 承認ハンドラーの判断を待つ
+   * 待機中は ProjectContext.pendingApprovals に記録され、キャンセルされた場合は却下として扱う
+   */
+  private async requestApproval(stepId: string, message: string, data: ApprovalData): Promise<ApprovalDecision> {
+    await this.events.emit('approval:requested', {
+      stepId,
+      message,
+      data,
+      context: this.contextManager.getContext()
+    });
+
     if (this.config.autoApprove) {
       logger.info(`Auto-approving step: ${stepId}`);
-      return true;
+      return { approved: true };
     }
 
     if (!this.approvalHandler) {
       logger.warn(`No approval handler configured, auto-approving step: ${stepId}`);
-      return true;
+      return { approved: true };
+    }
+
+    this.contextManager.addApprovalRequest(stepId, message, data);
+    this.contextManager.updateStepStatus(stepId, WorkflowStatus.REQUIRES_APPROVAL);
+
+    const signal = this.abortController.signal;
+    let onAbort: () => void = () => undefined;
+    const cancelled = new Promise<ApprovalDecision>(resolve => {
+      onAbort = () => { resolve({ approved: false, comment: 'Workflow cancelled' }); };
+      if (signal.aborted) onAbort();
+      else signal.addEventListener('abort', onAbort, { once: true });
+    });
+    try {
+      const decision = await Promise.race([
+        this.approvalHandler(stepId, message, data, this.contextManager.getContext(), signal),
+        cancelled
+      ]);
+      return typeof decision === 'boolean' ? { approved: decision } : decision;
+    } finally {
+      // ワークフロー全体で共有する signal に、判断済みの承認のリスナーを残さない
+      signal.removeEventListener('abort', onAbort);
+    }
+  }
+
+  /**
+   * 実行中のワークフローをキャンセル
+   * 実行中のエージェントは中断され、未実行のステップは実行されない
+   */
+  cancel(reason = 'Workflow cancelled'): void {
+    if (this.abortController.signal.aborted) return;
+
+    logger.warn(`Cancelling workflow ${this.contextManager.getContext().id}: ${reason}`);
+    this.abortController.abort(new Error(reason));
+    this.pauseGate?.release();
+  }
+
+  /**
+   * 実行を開始していないワークフローをキャンセル済みとして保存
+   * ステップは作成・実行せず、イベントの購読者には workflow:complete を通知する
+   */
+  async cancelBeforeStart(reason = 'Workflow cancelled'): Promise<ProjectContext> {
+    if (this.executing) {
+      throw new WorkflowControlError('Workflow is already running');
+    }
+    this.cancel(reason);
+    this.contextManager.updateContext({ status: WorkflowStatus.CANCELLED });
+    this.contextManager.checkpoint();
+    await this.contextManager.flush();
+    await this.events.emit('workflow:complete', { context: this.contextManager.getContext() });
+    return this.contextManager.getContext();
+  }
+
+  /**
+   * 新しいステップの開始を停止（実行中のステップは完了まで実行される）
+   */
+  pause(): void {
+    if (this.pauseGate || this.abortController.signal.aborted) return;
+
+    let release: () => void = () => undefined;
+    const promise = new Promise<void>(resolve => { release = resolve; });
+    this.pauseGate = { promise, release };
+
+    logger.info(`Pausing workflow ${this.contextManager.getContext().id}`);
+    this.contextManager.updateContext({ status: WorkflowStatus.PAUSED });
+    this.contextManager.checkpoint();
+  }
+
+  /**
+   * 一時停止したワークフローを再開
+   * 中断されたワークフローを永続化されたコンテキストから再開する場合は静的メソッドの WorkflowOrchestrator.resume(projectId) を使用する
+   */
+  resume(): void {
+    const gate = this.pauseGate;
+    if (!gate) return;
+
+    this.pauseGate = null;
+    logger.info(`Resuming workflow ${this.contextManager.getContext().id}`);
+    this.contextManager.updateContext({ status: WorkflowStatus.IN_PROGRESS });
+    this.contextManager.checkpoint();
+    gate.release();
+  }
+
+  isPaused(): boolean {
+    return this.pauseGate !== null;
+  }
+
+  isCancelled(): boolean {
+    return this.abortController.signal.aborted;
+  }
+
+  /**
+   * 1つのステップを未実行に戻して再実行する
+   * 完了済みの下流ステップはそのまま残し、未実行の下流ステップは続けて実行する
+   */
+  async rerunStep(stepIdOrStage: string, options: RerunStepOptions = {}): Promise<ProjectContext> {
+    const step = this.findControllableStep(stepIdOrStage);
+    logger.info(`Rerunning step ${step.id} (${step.stage})`);
+    this.resetStep(step);
+    step.inputOverride = options.input;
+    return await this.executeWorkflow();
+  }
+
+  /**
+   * 指定したステップとその下流のステップをすべて再実行する
+   */
+  async rerunFrom(stepIdOrStage: string, options: RerunStepOptions = {}): Promise<ProjectContext> {
+    const step = this.findControllableStep(stepIdOrStage);
+    const workflow = this.contextManager.getContext().workflow;
+    const resetIds = this.collectDownstream(step.id);
+    logger.info(`Rerunning ${resetIds.size.toString()} steps from ${step.id} (${step.stage})`);
+
+    workflow.filter(s => resetIds.has(s.id)).forEach(s => { this.resetStep(s); });
+    step.inputOverride = options.input;
+    this.contextManager.updateContext({ currentStepIndex: workflow.indexOf(step) });
+    return await this.executeWorkflow();
+  }
+
+  /**
+   * 失敗したステップをスキップして残りのステップを実行する
+   * スキップしたステップの結果は下流の入力に必須としない
+   */
+  async skipStep(stepIdOrStage: string, reason = 'Skipped by user'): Promise<ProjectContext> {
+    const step = this.findControllableStep(stepIdOrStage);
+    if (step.status === WorkflowStatus.COMPLETED) {
+      throw new WorkflowControlError(`Cannot skip completed step: ${step.id}`);
+    }
+
+    logger.info(`Skipping step ${step.id} (${step.stage}): ${reason}`);
+    const now = new Date();
+    step.inputOverride = undefined;
+    this.contextManager.updateStepStatus(step.id, WorkflowStatus.SKIPPED, undefined, reason);
+    this.contextManager.recordAttempt(step.id, {
+      status: WorkflowStatus.SKIPPED,
+      error: reason,
+      startedAt: now,
+      completedAt: now,
+      durationMs: 0
+    });
+    return await this.executeWorkflow();
+  }
+
+  private findControllableStep(stepIdOrStage: string): WorkflowStep {
+    if (this.executing) {
+      throw new WorkflowControlError('Workflow is running');
     }
+    if (this.contextManager.getContext().workflow.length === 0) {
+      throw new WorkflowControlError('Workflow has not been started');
+    }
+    return findStep(this.contextManager.getContext(), stepIdOrStage);
+  }
 
-    return await this.approvalHandler(stepId, message, data, this.contextManager.getContext());
+  private resetStep(step: WorkflowStep): void {
+    step.error = undefined;
+    step.approved = undefined;
+    step.inputOverride = undefined;
+    this.contextManager.updateStepStatus(step.id, WorkflowStatus.PENDING);
   }
 
   async executeWorkflow(): Promise<ProjectContext> {
+    if (this.executing) {
+      throw new WorkflowControlError('Workflow is already running');
+    }
+    this.executing = true;
     try {
-      await this.initializeWorkflow();
-      
-      while (this.hasMoreSteps() && this.contextManager.shouldContinueIterations()) {
-        const currentStep = this.contextManager.getCurrentStep();
-        if (!currentStep) break;
-
-        logger.info(`Executing workflow step: ${currentStep.stage} (${currentStep.id})`);
-
-        try {
-          await this.executeCurrentStep();
-          
-          // 承認が必要な場合はチェック
-          if (currentStep.requiresApproval && !currentStep.approved) {
-            const approvalData: ApprovalData = {
-              agentName: currentStep.agentName,
-              stepId: currentStep.id,
-              input: `${currentStep.stage} stage processing`,
-              result: currentStep.result
-            };
-            const approved = await this.requestApproval(
-              currentStep.id,
-              `Please approve ${currentStep.stage} stage`,
-              approvalData
-            );
-            
-            if (!approved) {
-              this.contextManager.updateStepStatus(
-                currentStep.id, 
-                WorkflowStatus.FAILED, 
-                undefined, 
-                'User approval declined'
-              );
-              break;
-            }
-            
-            this.contextManager.approveStep(currentStep.id);
-          }
+      return await this.runWorkflow();
+    } finally {
+      this.executing = false;
+    }
+  }
 
-          // テストやレビューで問題が見つかった場合のPDCAループ
-          if (await this.shouldIterateBasedOnResults()) {
-            await this.handleIterationLoop();
-            continue;
-          }
+  private async runWorkflow(): Promise<ProjectContext> {
+    const startTime = Date.now();
 
-          this.contextManager.moveToNextStep();
-          
-        } catch (error) {
-          const errorMessage = error instanceof Error ? error.message : String(error);
-          this.contextManager.updateStepStatus(
-            currentStep.id, 
-            WorkflowStatus.FAILED, 
-            undefined, 
-            errorMessage
-          );
-          this.contextManager.addError(currentStep.stage, errorMessage);
-          
-          // 重大なエラーの場合は停止、軽微なエラーの場合は継続
-          if (this.isCriticalError(error)) {
-            break;
-          }
-        }
+    try {
+      const resumed = this.contextManager.getContext().workflow.length > 0;
+      if (resumed) {
+        this.prepareForResume();
+      } else {
+        await this.initializeWorkflow();
       }
+      this.contextManager.checkpoint();
+      await this.events.emit('workflow:start', { context: this.contextManager.getContext(), resumed });
+
+      await this.runScheduler();
+      logger.info(`Workflow steps finished in ${(Date.now() - startTime).toString()}ms`);
 
       // ワークフロー完了処理
       await this.finalizeWorkflow();
+      this.contextManager.checkpoint();
+      await this.contextManager.flush();
+      await this.config.cassette?.flush();
+      await this.events.emit('workflow:complete', { context: this.contextManager.getContext() });
       
       return this.contextManager.getContext();
       
@@ -198,267 +446,556 @@ export class WorkflowOrchestrator {
         status: WorkflowStatus.FAILED,
         currentStage: WorkflowStage.FAILED
       });
+      this.contextManager.checkpoint();
+      await this.contextManager.flush();
+      await this.config.cassette?.flush();
+      await this.events.emit('workflow:complete', { context: this.contextManager.getContext() });
       throw error;
     }
   }
 
-  private async initializeWorkflow(): Promise<void> {
-    // ワークフロー定義
-    const workflowSteps = [
-      { stage: WorkflowStage.TRIAGE, agentName: 'Triage', requiresApproval: false },
-      { stage: WorkflowStage.RESEARCH, agentName: 'Researcher', requiresApproval: false },
-      { stage: WorkflowStage.ARCHITECTURE, agentName: 'Architect', requiresApproval: this.config.requireApproval },
-      { stage: WorkflowStage.IMPLEMENTATION, agentName: 'Implementer', requiresApproval: false },
-      { stage: WorkflowStage.TESTING, agentName: 'Tester', requiresApproval: false },
-      { stage: WorkflowStage.REVIEW, agentName: 'Reviewer', requiresApproval: false },
-      { stage: WorkflowStage.DEVOPS, agentName: 'DevOps', requiresApproval: this.config.requireApproval },
-      { stage: WorkflowStage.DOCUMENTATION, agentName: 'Docs', requiresApproval: false }
-    ];
-
-    workflowSteps.forEach(step => {
-      this.contextManager.addWorkflowStep({
-        stage: step.stage,
-        status: WorkflowStatus.PENDING,
-        agentName: step.agentName,
-        requiresApproval: step.requiresApproval ?? false
-      });
-    });
+  /**
+   * 依存関係が解決したステップを maxConcurrency 件まで並行実行する
+   * PDCAループによる巻き戻しは、実行中のステップがすべて完了してから行う
+   */
+  private async runScheduler(): Promise<void> {
+    const maxConcurrency = Math.max(1, this.config.maxConcurrency ?? 2);
+    const running = new Map<string, Promise<StepOutcome>>();
+    let stopRequested = false;
+    let iterationRequested = false;
+
+    for (;;) {
+      stopRequested ||= this.abortController.signal.aborted;
+      stopRequested ||= await this.enforceBudget();
+
+      // 一時停止中は実行中のステップが終わった後、再開まで待機する
+      if (this.pauseGate && running.size === 0 && !stopRequested) {
+        await this.pauseGate.promise;
+        continue;
+      }
 
-    this.contextManager.updateContext({
-      currentStage: WorkflowStage.TRIAGE,
-      status: WorkflowStatus.IN_PROGRESS
-    });
-    await Promise.resolve();
+      if (!stopRequested && !iterationRequested && !this.pauseGate) {
+        for (const step of this.getReadySteps()) {
+          if (running.size >= maxConcurrency) break;
+          running.set(step.id, this.runStep(step));
+        }
+      }
+
+      if (running.size === 0) {
+        if (iterationRequested && !stopRequested) {
+          iterationRequested = false;
+          if (this.handleIterationLoop()) {
+            const context = this.contextManager.getContext();
+            await this.events.emit('iteration:start', { iteration: context.iterationCount, context });
+            continue;
+          }
+        }
+        break;
+      }
+
+      const outcome = await Promise.race(running.values());
+      running.delete(outcome.stepId);
+      stopRequested ||= outcome.stop;
+      iterationRequested ||= outcome.iterate;
+    }
   }
 
-  private async executeCurrentStep(): Promise<void> {
-    const currentStep = this.contextManager.getCurrentStep();
-    if (!currentStep) return;
+  /**
+   * 実行可能なステップ（未実行かつ依存ステップがすべて終了済み）を取得
+   */
+  private getReadySteps(): WorkflowStep[] {
+    const workflow = this.contextManager.getContext().workflow;
+    return workflow.filter(step =>
+      step.status === WorkflowStatus.PENDING &&
+      this.getDependencies(step).every(dependencyId => {
+        const dependency = workflow.find(s => s.id === dependencyId);
+        return dependency?.status === WorkflowStatus.COMPLETED
+          || dependency?.status === WorkflowStatus.FAILED
+          || dependency?.status === WorkflowStatus.SKIPPED;
+      })
+    );
+  }
 
-    currentStep.status = WorkflowStatus.IN_PROGRESS;
-    currentStep.startedAt = new Date();
+  /**
+   * ステップの依存先ID
+   * dependsOn を持たないステップ（旧形式のコンテキスト）は直前のステップに依存する
+   */
+  private getDependencies(step: WorkflowStep): string[] {
+    if (step.dependsOn) return step.dependsOn;
+    const workflow = this.contextManager.getContext().workflow;
+    const index = workflow.findIndex(s => s.id === step.id);
+    return index > 0 ? [workflow[index - 1].id] : [];
+  }
 
+  /**
+   * 1ステップを実行し、承認・PDCA判定・エラー処理の結果をスケジューラへ返す
+   */
+  private async runStep(step: WorkflowStep): Promise<StepOutcome> {
+    const outcome: StepOutcome = { stepId: step.id, stop: false, iterate: false };
     const context = this.contextManager.getContext();
-    const input = this.buildInputForStage(currentStep.stage, context);
-    let agentResult: AgentRunResult = { success: false, error: 'Unknown error' }; // 初期化
-
-    switch (currentStep.stage) {
-      case WorkflowStage.TRIAGE:
-        agentResult = await this.executeAgent(triageAgent, input, currentStep.id);
-        if (agentResult.success) {
-          this.contextManager.updateContext({ triageResult: agentResult.data });
-        }
-        break;
-        
-      case WorkflowStage.RESEARCH:
-        agentResult = await this.executeAgent(researcherAgent, input, currentStep.id);
-        if (agentResult.success) {
-          this.contextManager.updateContext({ researchResult: agentResult.data });
-        }
-        break;
-        
-      case WorkflowStage.ARCHITECTURE:
-        agentResult = await this.executeAgent(architectAgent, input, currentStep.id);
-        if (agentResult.success) {
-          this.contextManager.updateContext({ architecturePlan: agentResult.data as ArchitecturePlan });
-        }
-        break;
-        
-      case WorkflowStage.IMPLEMENTATION:
-        agentResult = await this.executeAgent(implementerAgent, input, currentStep.id);
-        if (agentResult.success) {
-          this.contextManager.updateContext({ implementationResult: agentResult.data as ImplementationResult });
-        }
-        break;
-        
-      case WorkflowStage.TESTING:
-        agentResult = await this.executeAgent(testAgent, input, currentStep.id);
-        if (agentResult.success) {
-          this.contextManager.updateContext({ testReport: agentResult.data as TestReport });
-        }
-        break;
-        
-      case WorkflowStage.REVIEW:
-        agentResult = await this.executeAgent(reviewerAgent, input, currentStep.id);
-        if (agentResult.success) {
-          this.contextManager.updateContext({ reviewReport: agentResult.data as ReviewReport });
-        }
-        break;
-        
-      case WorkflowStage.DEVOPS:
-        agentResult = await this.executeAgent(devopsAgent, input, currentStep.id);
-        if (agentResult.success) {
-          this.contextManager.updateContext({ devopsPlan: agentResult.data as DevOpsPlan });
-        }
-        break;
-        
-      case WorkflowStage.DOCUMENTATION:
-        agentResult = await this.executeAgent(docsAgent, input, currentStep.id);
-        if (agentResult.success) {
-          this.contextManager.updateContext({ docsUpdate: agentResult.data as DocsUpdate });
-        }
-        break;
-    }
 
-    // ステップ状態の更新（失敗の場合も考慮）
-    if (agentResult.success) {
-      this.contextManager.updateStepStatus(
-        currentStep.id, 
-        WorkflowStatus.COMPLETED, 
-        agentResult.data
-      );
-    } else {
+    // スケジューラが同じステップを二重に起動しないよう、最初の await より前に状態を更新する
+    step.startedAt = new Date();
+    step.durationMs = undefined;
+    this.contextManager.updateContext({
+      currentStage: step.stage,
+      currentStepIndex: context.workflow.indexOf(step)
+    });
+    this.contextManager.updateStepStatus(step.id, WorkflowStatus.IN_PROGRESS);
+
+    logger.info(`Executing workflow step: ${step.stage} (${step.id})`);
+    await this.events.emit('step:start', { step, context });
+
+    let input: string | undefined;
+    let output: unknown;
+    try {
+      input = step.inputOverride ?? this.buildInputForStage(step, context);
+      const agentResult = await this.executeStep(step, input);
+      if (agentResult.success) output = step.result;
+
+      // 承認が必要な場合はチェック
+      if (step.status === WorkflowStatus.COMPLETED && step.requiresApproval && !step.approved) {
+        const approvalData: ApprovalData = {
+          agentName: step.agentName,
+          stepId: step.id,
+          input: `${step.stage} stage processing`,
+          result: step.result
+        };
+        outcome.stop = !(await this.awaitApproval(step, approvalData));
+      }
+
+      // テストやレビューで問題が見つかった場合のPDCAループ
+      outcome.iterate = this.shouldIterateBasedOnResults(step);
+
+    } catch (error) {
+      const agentError = classifyAgentError(error);
+      const action = resolveErrorAction(agentError.category, this.config.errorPolicies);
+      this.recordDuration(step);
+      // skip の方針のステップはスキップとして記録し、履歴や状態で実際の失敗と区別できるようにする
       this.contextManager.updateStepStatus(
-        currentStep.id, 
-        WorkflowStatus.FAILED, 
+        step.id,
+        action === 'skip' ? WorkflowStatus.SKIPPED : WorkflowStatus.FAILED,
         undefined,
-        agentResult.error
+        action === 'skip' ? `Skipped by ${agentError.category} error policy: ${agentError.message}` : agentError.message
       );
+      this.contextManager.addError(step.stage, agentError.message, agentError.category);
       
-      // 回復可能なエラーの場合は警告、そうでなければ致命的エラーとして扱う
-      if (!agentResult.recoverable) {
-        throw new Error(`Critical error in ${currentStep.stage}: ${agentResult.error ?? 'Unknown error'}`);
+      // 分類ごとの方針が abort の場合は停止し、それ以外は残りの段階を継続する
+      if (action === 'abort') {
+        logger.warn(`Stopping workflow after ${agentError.category} error in ${step.stage}: ${agentError.message}`);
       }
+      outcome.stop = action === 'abort';
+    }
+
+    // キャンセルにより中断されたステップは失敗ではなくキャンセルとして記録する
+    if (this.abortController.signal.aborted && step.status !== WorkflowStatus.COMPLETED) {
+      this.contextManager.updateStepStatus(step.id, WorkflowStatus.CANCELLED, undefined, 'Workflow cancelled');
+      outcome.stop = true;
     }
+
+    const completedAt = new Date();
+    step.inputOverride = undefined;
+    this.contextManager.recordAttempt(step.id, {
+      status: step.status,
+      input,
+      output,
+      error: step.status === WorkflowStatus.COMPLETED ? undefined : step.error,
+      startedAt: step.startedAt,
+      completedAt,
+      durationMs: completedAt.getTime() - step.startedAt.getTime()
+    });
+
+    if (step.status === WorkflowStatus.COMPLETED) {
+      await this.events.emit('step:complete', { step, result: step.result, context });
+    } else {
+      await this.events.emit('step:failed', { step, error: step.error ?? 'Unknown error', context });
+    }
+
+    return outcome;
   }
 
-  private buildInputForStage(stage: WorkflowStage, context: ProjectContext): string {
-    const baseRequest = context.originalRequest;
-    
-    switch (stage) {
-      case WorkflowStage.TRIAGE:
-        return baseRequest;
-        
-      case WorkflowStage.RESEARCH:
-        return `
-元の要求: ${baseRequest}
+  /**
+   * ステップの承認を待ち、判断を記録する
+   * 編集された結果は段階のスキーマで検証し、不正な場合は理由を付けて再度承認を要求する
+   * @returns 承認された場合は true
+   */
+  private async awaitApproval(step: WorkflowStep, approvalData: ApprovalData): Promise<boolean> {
+    let data = approvalData;
+    for (;;) {
+      const decision = await this.requestApproval(
+        step.id,
+        data.validationError
+          ? `Edited ${step.stage} result is invalid, please approve or edit again`
+          : `Please approve ${step.stage} stage`,
+        data
+      );
 
-Triageの結果: ${JSON.stringify(context.triageResult, null, 2)}
+      if (!decision.approved) {
+        this.contextManager.rejectStep(step.id, decision.comment);
+        this.contextManager.updateStepStatus(
+          step.id, 
+          WorkflowStatus.FAILED, 
+          undefined, 
+          decision.comment ? `User approval declined: ${decision.comment}` : 'User approval declined'
+        );
+        return false;
+      }
 
-上記の要求について、技術的実現可能性、既存ソリューション、ベストプラクティス、潜在的リスクについて徹底的に調査してください。
-`;
-        
-      case WorkflowStage.ARCHITECTURE:
-        return `
-元の要求: ${baseRequest}
+      if (decision.result === undefined) {
+        this.contextManager.approveStep(step.id, { comment: decision.comment });
+        return true;
+      }
 
-Triageの結果: ${JSON.stringify(context.triageResult, null, 2)}
+      const resultKey = STAGE_RESULT_KEYS[step.stage];
+      const parsed = resultKey
+        ? ProjectContextSchema.shape[resultKey].safeParse(decision.result)
+        : { success: true as const, data: decision.result as unknown };
+      if (!parsed.success) {
+        const validationError = formatIssues(parsed.error);
+        logger.warn(`Edited result for step ${step.id} is invalid: ${validationError}`);
+        data = { ...approvalData, result: decision.result, validationError };
+        continue;
+      }
 
-リサーチ結果: ${JSON.stringify(context.researchResult, null, 2)}
+      const originalResult: unknown = step.result;
+      if (resultKey) {
+        this.contextManager.updateContext({ [resultKey]: parsed.data } as Partial<ProjectContext>);
+      }
+      step.result = parsed.data;
+      this.contextManager.approveStep(step.id, { comment: decision.comment, originalResult });
+      logger.info(`Step ${step.id} approved with an edited result`);
+      return true;
+    }
+  }
 
-上記の情報を基に、アプリケーションのアーキテクチャ設計を作成してください。
-`;
-        
-      case WorkflowStage.IMPLEMENTATION:
-        return `
-アーキテクチャプラン: ${JSON.stringify(context.architecturePlan, null, 2)}
+  private recordDuration(step: WorkflowStep): void {
+    if (step.startedAt) {
+      step.durationMs = Date.now() - step.startedAt.getTime();
+    }
+  }
 
-リサーチ結果: ${JSON.stringify(context.researchResult, null, 2)}
+  /**
+   * 再開時の状態調整
+   * 中断時に実行中だったステップは最初からやり直す
+   */
+  private prepareForResume(): void {
+    const context = this.contextManager.getContext();
 
-上記の設計に基づいて実装を行ってください。
-`;
-        
-      case WorkflowStage.TESTING:
-        return `
-実装結果: ${JSON.stringify(context.implementationResult, null, 2)}
+    const interruptedStatuses = [WorkflowStatus.IN_PROGRESS, WorkflowStatus.REQUIRES_APPROVAL, WorkflowStatus.CANCELLED];
+    context.workflow
+      .filter(step => interruptedStatuses.includes(step.status))
+      .forEach(step => {
+        step.status = WorkflowStatus.PENDING;
+        step.error = undefined;
+      });
+    // 承認待ちだったステップは再実行時に改めて承認を求める
+    context.pendingApprovals = [];
 
-上記の実装に対してテストを作成・実行してください。
-`;
-        
-      case WorkflowStage.REVIEW:
-        return `
-実装結果: ${JSON.stringify(context.implementationResult, null, 2)}
+    logger.info(`Resuming workflow ${context.id} from step ${context.currentStepIndex.toString()}`);
+    this.contextManager.updateContext({
+      status: WorkflowStatus.IN_PROGRESS
+    });
+  }
 
-テスト結果: ${JSON.stringify(context.testReport, null, 2)}
+  private async initializeWorkflow(): Promise<void> {
+    const pipeline = this.config.pipeline ?? DEFAULT_PIPELINE;
 
-上記の実装とテストをレビューしてください。
-`;
-        
-      case WorkflowStage.DEVOPS:
-        return `
-実装結果: ${JSON.stringify(context.implementationResult, null, 2)}
+    const unknownAgents = pipeline.stages
+      .map(stage => stage.agent)
+      .filter(agentName => !isWorkflowAgent(agentName));
+    if (unknownAgents.length > 0) {
+      throw new Error(`Pipeline "${pipeline.name}" references unknown agents: ${unknownAgents.join(', ')}`);
+    }
 
-レビュー結果: ${JSON.stringify(context.reviewReport, null, 2)}
+    logger.info(`Initializing workflow with pipeline: ${pipeline.name}`);
 
-デプロイメントプランを作成してください。
-`;
-        
-      case WorkflowStage.DOCUMENTATION:
-        return `
-プロジェクト全体の結果:
-- アーキテクチャ: ${JSON.stringify(context.architecturePlan, null, 2)}
-- 実装: ${JSON.stringify(context.implementationResult, null, 2)}
-- テスト: ${JSON.stringify(context.testReport, null, 2)}
-- デプロイ: ${JSON.stringify(context.devopsPlan, null, 2)}
-
-ドキュメントを更新してください。
+    const stepIdsByStage = new Map<WorkflowStage, string>();
+    let previousStepId: string | undefined;
+
+    pipeline.stages.forEach(step => {
+      // dependsOn 未指定の段階は直前の段階に依存する（逐次実行）
+      const dependsOn = step.dependsOn
+        ? step.dependsOn.map(stage => stepIdsByStage.get(stage)).filter((id): id is string => id !== undefined)
+        : previousStepId ? [previousStepId] : [];
+
+      const stepId = this.contextManager.addWorkflowStep({
+        stage: step.stage,
+        status: WorkflowStatus.PENDING,
+        agentName: step.agent,
+        inputTemplate: step.input,
+        dependsOn,
+        // requireApproval が無効な場合、パイプラインの承認フラグは無視する
+        requiresApproval: step.requiresApproval && (this.config.requireApproval ?? false)
+      });
+      stepIdsByStage.set(step.stage, stepId);
+      previousStepId = stepId;
+    });
+
+    this.contextManager.updateContext({
+      currentStage: pipeline.stages[0].stage,
+      status: WorkflowStatus.IN_PROGRESS,
+      maxIterations: this.config.maxIterations ?? 3
+    });
+    await Promise.resolve();
+  }
+
+  private async executeStep(currentStep: WorkflowStep, input: string): Promise<AgentRunResult> {
+    const agent = resolveWorkflowAgent(currentStep.agentName);
+    const agentResult = await this.executeAgent(agent, input, currentStep);
+    this.recordDuration(currentStep);
+    this.recordUsage(currentStep, agentResult);
+
+    // ステップ状態の更新（失敗の場合も考慮）
+    // 結果のマージは await を挟まずに行うため、並行実行中の他ステップと競合しない
+    if (agentResult.success) {
+      const resultKey = STAGE_RESULT_KEYS[currentStep.stage];
+      let value: unknown = agentResult.data;
+      if (resultKey) {
+        // スキーマに適合しない結果はコンテキストに保存せず、検証エラーとしてステップを失敗させる
+        // （保存すると再開時や取得時のコンテキストの読み込みに失敗するため）
+        const parsed = ProjectContextSchema.shape[resultKey].safeParse(agentResult.data);
+        if (!parsed.success) {
+          throw new ValidationError(`Invalid ${resultKey} from ${currentStep.agentName}: ${formatIssues(parsed.error)}`);
+        }
+        value = parsed.data;
+        this.contextManager.updateContext({ [resultKey]: value } as Partial<ProjectContext>);
+      }
+      this.contextManager.updateStepStatus(
+        currentStep.id, 
+        WorkflowStatus.COMPLETED, 
+        value
+      );
+    } else {
+      // 実行結果のエラー分類を復元し、runStep で方針に従って処理する
+      throw createAgentError(agentResult.metadata?.errorCategory ?? 'unknown', agentResult.error ?? 'Unknown error', {
+        retryable: false,
+        errorType: agentResult.metadata?.errorType
+      });
+    }
+    return agentResult;
+  }
+
+  /**
+   * エージェント実行のトークン使用量と推定コストを記録
+   */
+  private recordUsage(step: WorkflowStep, result: AgentRunResult): void {
+    const usage = result.metadata?.usage;
+    if (!usage) return;
+
+    const pricing = { ...DEFAULT_MODEL_PRICING, ...this.config.pricing };
+    this.contextManager.recordUsage(step.id, {
+      ...usage,
+      costUsd: calculateCost(usage, result.metadata?.model, pricing)
+    });
+  }
+
+  /**
+   * 予算超過を検知し、初回のみエラー記録とイベント通知を行う
+   * @returns 以降のステップを停止すべき場合は true
+   */
+  private async enforceBudget(): Promise<boolean> {
+    const budget = this.config.budget;
+    const context = this.contextManager.getContext();
+    const reason = getBudgetViolation(context.usage, budget);
+    if (!budget || !reason) return false;
+
+    if (!this.budgetExceeded) {
+      this.budgetExceeded = true;
+      logger.warn(`${reason} (action: ${budget.onExceeded})`);
+      this.contextManager.addError(context.currentStage, reason);
+      await this.events.emit('budget:exceeded', {
+        reason,
+        action: budget.onExceeded,
+        usage: context.usage,
+        context
+      });
+    }
+    return budget.onExceeded === 'stop';
+  }
+
+  /**
+   * downgrade モードで予算を超過している場合、安価なモデルに切り替えたエージェントを返す
+   */
+  private applyBudgetDowngrade(agent: unknown): unknown {
+    const budget = this.config.budget;
+    if (budget?.onExceeded !== 'downgrade') return agent;
+    if (!getBudgetViolation(this.contextManager.getContext().usage, budget)) return agent;
+
+    const cloneable = agent as { clone?: unknown };
+    if (typeof cloneable.clone !== 'function') return agent;
+    return cloneAgentWithModel(agent as Agent, budget.downgradeModel);
+  }
+
+  /**
+   * 上流の結果から段階の入力を組み立てる
+   * 入力はスキーマで検証した後、サイズ制限に合わせて切り詰めてからテンプレートに埋め込む
+   */
+  private buildInputForStage(step: WorkflowStep, context: ProjectContext): string {
+    const stageInput = truncateStageInput(
+      buildStageInput(step.stage, context, this.getRequiredInputKeys(step)),
+      { ...DEFAULT_STAGE_INPUT_LIMITS, ...this.config.inputLimits }
+    );
+    const template = step.inputTemplate ?? DEFAULT_STAGE_INPUTS[step.stage];
+    const input = template ? renderInputTemplate(template, { ...context, ...stageInput }) : context.originalRequest;
+
+    // テンプレートがフィードバックを参照していない場合は末尾に追加する
+    const feedback = stageInput.iterationFeedback;
+    if (feedback && !template?.includes('iterationFeedback')) {
+      return `${input}
+
+前回の反復で検出された問題（失敗したテスト・エラーレベルのレビュー指摘・前回の実装）:
+${JSON.stringify(feedback, null, 2)}
+
+同じ失敗を繰り返さないよう、上記の問題を修正してください。
 `;
-        
-      default:
-        return baseRequest;
     }
+    return input;
+  }
+
+  /**
+   * 完了済みの上流ステップ（推移的な依存先）が生成した結果のキー
+   * 失敗した上流ステップの結果は必須としない（軽微なエラーでは継続するため）
+   */
+  private getRequiredInputKeys(step: WorkflowStep): string[] {
+    const workflow = this.contextManager.getContext().workflow;
+    const visited = new Set<string>();
+    const pending = [...this.getDependencies(step)];
+
+    while (pending.length > 0) {
+      const id = pending.pop();
+      if (id === undefined || visited.has(id)) continue;
+      visited.add(id);
+      const dependency = workflow.find(s => s.id === id);
+      if (dependency) pending.push(...this.getDependencies(dependency));
+    }
+
+    return workflow
+      .filter(s => visited.has(s.id) && s.status === WorkflowStatus.COMPLETED)
+      .map(s => STAGE_RESULT_KEYS[s.stage])
+      .filter((key): key is keyof ProjectContext => key !== undefined);
   }
 
-  private async shouldIterateBasedOnResults(): Promise<boolean> {
+  private shouldIterateBasedOnResults(step: WorkflowStep): boolean {
+    if (step.status !== WorkflowStatus.COMPLETED) return false;
     const context = this.contextManager.getContext();
     
     // テストが失敗した場合
-    if (context.testReport && context.testReport.failed > 0) {
+    if (step.stage === WorkflowStage.TESTING && context.testReport && context.testReport.failed > 0) {
       return true;
     }
     
     // レビューでエラーが見つかった場合
-    if (context.reviewReport?.issues.some(issue => issue.severity === 'error')) {
+    if (step.stage === WorkflowStage.REVIEW && context.reviewReport?.issues.some(issue => issue.severity === 'error')) {
       return true;
     }
     
-    return await Promise.resolve(false);
+    return false;
   }
 
-  private async handleIterationLoop(): Promise<void> {
+  /**
+   * 実装段階とその下流のステップを未実行に戻す
+   * @returns 巻き戻しを行った場合は true
+   */
+  private handleIterationLoop(): boolean {
     if (!this.contextManager.shouldContinueIterations()) {
       logger.warn('Maximum iterations reached, stopping iteration loop');
-      return;
+      return false;
+    }
+
+    const workflow = this.contextManager.getContext().workflow;
+    const implementationStep = workflow.find(step => step.stage === WorkflowStage.IMPLEMENTATION);
+    if (!implementationStep) {
+      logger.warn('Pipeline has no implementation stage, skipping iteration loop');
+      return false;
+    }
+
+    const record = this.buildIterationRecord();
+    const previous = this.contextManager.getContext().iterations.at(-1);
+    if (previous && previous.failureSignature === record.failureSignature) {
+      logger.warn(`Iteration ${previous.iteration.toString()} produced the same failures, stopping iteration loop`);
+      return false;
     }
 
     this.contextManager.incrementIteration();
+    this.contextManager.recordIteration(record);
     logger.info(`Starting iteration ${this.contextManager.getContext().iterationCount.toString()}`);
     
     // 実装段階に戻る（問題修正のため）
-    const implementationStepIndex = this.contextManager.getContext().workflow
-      .findIndex(step => step.stage === WorkflowStage.IMPLEMENTATION);
-    
-    if (implementationStepIndex >= 0) {
-      this.contextManager.updateContext({ 
-        currentStepIndex: implementationStepIndex 
-      });
+    const resetIds = this.collectDownstream(implementationStep.id);
+
+    for (const step of workflow.filter(s => resetIds.has(s.id))) {
+      step.error = undefined;
+      this.contextManager.updateStepStatus(step.id, WorkflowStatus.PENDING);
     }
-    await Promise.resolve();
+    this.contextManager.updateContext({ 
+      currentStepIndex: workflow.indexOf(implementationStep) 
+    });
+    return true;
   }
 
-  private hasMoreSteps(): boolean {
-    const context = this.contextManager.getContext();
-    return context.currentStepIndex < context.workflow.length;
+  /**
+   * 指定したステップと、それに（推移的に）依存するステップのID
+   */
+  private collectDownstream(stepId: string): Set<string> {
+    const workflow = this.contextManager.getContext().workflow;
+    const ids = new Set([stepId]);
+    let added = true;
+    while (added) {
+      added = false;
+      for (const step of workflow) {
+        if (!ids.has(step.id) && this.getDependencies(step).some(id => ids.has(id))) {
+          ids.add(step.id);
+          added = true;
+        }
+      }
+    }
+    return ids;
   }
 
-  private isCriticalError(error: unknown): boolean {
-    // エラーの種類に基づいて継続可能かどうかを判定
-    const errorMessage = error instanceof Error ? error.message : String(error);
-    
-    const criticalPatterns = [
-      /authentication failed/i,
-      /permission denied/i,
-      /file system error/i,
-      /network connection failed/i
-    ];
-    
-    return criticalPatterns.some(pattern => pattern.test(errorMessage));
+  /**
+   * 反復のきっかけとなった失敗内容を記録用にまとめる
+   * 今回の反復で完了したステップの結果のみを使用する（巻き戻されたステップの結果は古いため）
+   */
+  private buildIterationRecord(): IterationRecord {
+    const context = this.contextManager.getContext();
+    const isFresh = (stage: WorkflowStage) =>
+      context.workflow.some(step => step.stage === stage && step.status === WorkflowStatus.COMPLETED);
+
+    const failingTests = isFresh(WorkflowStage.TESTING) && context.testReport && context.testReport.failed > 0
+      ? context.testReport
+      : undefined;
+    const reviewIssues = isFresh(WorkflowStage.REVIEW)
+      ? context.reviewReport?.issues.filter(issue => issue.severity === 'error') ?? []
+      : [];
+
+    return {
+      iteration: context.iterationCount + 1,
+      startedAt: new Date(),
+      failingTests,
+      reviewIssues,
+      previousImplementation: context.implementationResult,
+      failureSignature: JSON.stringify({
+        // 失敗数が同じでも内容が異なれば収束していないため、テスト結果全体を比較する
+        failingTests: failingTests
+          ? {
+            passed: failingTests.passed,
+            failed: failingTests.failed,
+            newTests: [...failingTests.newTests].sort(),
+            coverageNote: failingTests.coverageNote ?? ''
+          }
+          : null,
+        reviewIssues: reviewIssues.map(issue => `${issue.kind}|${issue.path ?? ''}|${issue.message}`).sort()
+      })
+    };
   }
 
   private async finalizeWorkflow(): Promise<void> {
     const context = this.contextManager.getContext();
     
-    if (context.workflow.every(step => step.status === WorkflowStatus.COMPLETED)) {
+    if (this.abortController.signal.aborted) {
+      this.contextManager.updateContext({ status: WorkflowStatus.CANCELLED });
+      logger.warn('Workflow cancelled');
+    } else if (context.workflow.every(step => step.status === WorkflowStatus.COMPLETED || step.status === WorkflowStatus.SKIPPED)) {
       this.contextManager.updateContext({
         status: WorkflowStatus.COMPLETED,
         currentStage: WorkflowStage.COMPLETED
@@ -0,0 +1,35 @@
+// src/agent/workflow/agentRegistry.ts
+import { triageAgent } from '../triage.js';
+import { researcherAgent } from '../researcher.js';
+import { architectAgent } from '../architect.js';
+import { implementerAgent } from '../implementer.js';
+import { testAgent } from '../tester.js';
+import { reviewerAgent } from '../reviewer.js';
+import { devopsAgent } from '../devops.js';
+import { docsAgent } from '../docs.js';
+
+/**
+ * パイプライン定義の `agent` から参照できるエージェント
+ * OpenAI Agents SDKの複雑な型システムにより、ここでは unknown を使用
+ */
+export const workflowAgents: Record<string, unknown> = {
+  Triage: triageAgent,
+  Researcher: researcherAgent,
+  Architect: architectAgent,
+  Implementer: implementerAgent,
+  Tester: testAgent,
+  Reviewer: reviewerAgent,
+  DevOps: devopsAgent,
+  Docs: docsAgent,
+};
+
+export function isWorkflowAgent(name: string): boolean {
+  return Object.prototype.hasOwnProperty.call(workflowAgents, name);
+}
+
+export function resolveWorkflowAgent(name: string): unknown {
+  if (!isWorkflowAgent(name)) {
+    throw new Error(`Unknown workflow agent: ${name}`);
+  }
+  return workflowAgents[name];
+}
@@ -0,0 +1,72 @@
+// src/agent/workflow/budget.ts
+import { z } from 'zod';
+import type { TokenUsage } from '../../utils/agentRunner.js';
+import type { UsageSummary } from './ProjectContext.js';
+import { logger } from '../../utils/logger.js';
+
+// モデルごとの料金（USD / 100万トークン）
+export const ModelPricingSchema = z.object({
+  inputPerMillion: z.number().nonnegative(),
+  outputPerMillion: z.number().nonnegative(),
+});
+
+export type ModelPricing = z.infer<typeof ModelPricingSchema>;
+
+// 設定ファイルで pricing を指定しない場合の料金表
+export const DEFAULT_MODEL_PRICING: Record<string, ModelPricing> = {
+  'gpt-4.1': { inputPerMillion: 2, outputPerMillion: 8 },
+  'gpt-4.1-mini': { inputPerMillion: 0.4, outputPerMillion: 1.6 },
+  'gpt-4.1-nano': { inputPerMillion: 0.1, outputPerMillion: 0.4 },
+  'gpt-4o': { inputPerMillion: 2.5, outputPerMillion: 10 },
+  'gpt-4o-mini': { inputPerMillion: 0.15, outputPerMillion: 0.6 },
+  'gpt-4': { inputPerMillion: 30, outputPerMillion: 60 },
+};
+
+// ワークフロー全体の予算
+export const WorkflowBudgetSchema = z.object({
+  maxTokens: z.number().int().positive().optional().describe('ワークフロー全体の合計トークン上限'),
+  maxCostUsd: z.number().positive().optional().describe('ワークフロー全体の推定コスト上限（USD）'),
+  onExceeded: z.enum(['stop', 'downgrade']).default('stop')
+    .describe('上限超過時の動作（stop: 以降のステップを実行しない / downgrade: 安価なモデルで続行）'),
+  downgradeModel: z.string().default('gpt-4.1-mini').describe('downgrade 時に使用するモデル'),
+});
+
+export type WorkflowBudget = z.infer<typeof WorkflowBudgetSchema>;
+
+// 料金表にないことを警告済みのモデル（モデルごとに1回のみ警告する）
+const warnedUnpricedModels = new Set<string>();
+
+/**
+ * トークン使用量から推定コスト（USD）を算出
+ * 料金表にないモデルは 0 として扱い、maxCostUsd で制限できないことを警告する
+ */
+export function calculateCost(
+  usage: TokenUsage,
+  model: string | undefined,
+  pricing: Record<string, ModelPricing> = DEFAULT_MODEL_PRICING
+): number {
+  const price = model ? pricing[model] : undefined;
+  if (!price) {
+    const name = model ?? '(unknown model)';
+    if (usage.totalTokens > 0 && !warnedUnpricedModels.has(name)) {
+      warnedUnpricedModels.add(name);
+      logger.warn(`No pricing for ${name}: its cost is counted as $0 and is not limited by maxCostUsd (add it to "pricing")`);
+    }
+    return 0;
+  }
+  return (usage.inputTokens * price.inputPerMillion + usage.outputTokens * price.outputPerMillion) / 1_000_000;
+}
+
+/**
+ * 使用量が予算を超過しているか判定し、超過理由を返す（超過していなければ null）
+ */
+export function getBudgetViolation(usage: UsageSummary, budget: WorkflowBudget | undefined): string | null {
+  if (!budget) return null;
+  if (budget.maxTokens !== undefined && usage.totalTokens >= budget.maxTokens) {
+    return `Token budget exceeded: ${usage.totalTokens.toString()}/${budget.maxTokens.toString()} tokens`;
+  }
+  if (budget.maxCostUsd !== undefined && usage.costUsd >= budget.maxCostUsd) {
+    return `Cost budget exceeded: $${usage.costUsd.toFixed(4)}/$${budget.maxCostUsd.toFixed(4)}`;
+  }
+  return null;
+}
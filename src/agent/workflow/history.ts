@@ -0,0 +1,147 @@
+// src/agent/workflow/history.ts
+import type { z } from 'zod';
+import { ImplementationResult, ReviewReport, TestReport } from '../schemas.js';
+import type { ProjectContext, StepAttempt, WorkflowStep } from './ProjectContext.js';
+import { WorkflowStage, WorkflowStatus } from './ProjectContext.js';
+
+// 差分を取得できる段階と、その結果のスキーマ
+export const DIFFABLE_RESULT_SCHEMAS: Partial<Record<WorkflowStage, z.ZodTypeAny>> = {
+  [WorkflowStage.IMPLEMENTATION]: ImplementationResult,
+  [WorkflowStage.TESTING]: TestReport,
+  [WorkflowStage.REVIEW]: ReviewReport,
+};
+
+// 比較する実行記録の指定（attempt が優先）
+export interface AttemptSelector {
+  attempt?: number;
+  // 指定した反復で最後に完了した実行記録を使用する
+  iteration?: number;
+}
+
+// 1フィールド分の変更内容
+export type FieldChange =
+  | { field: string; kind: 'number'; from: number; to: number; delta: number }
+  | { field: string; kind: 'list'; added: unknown[]; removed: unknown[] }
+  | { field: string; kind: 'value'; from: unknown; to: unknown };
+
+export interface AttemptDiff {
+  stepId: string;
+  stage: WorkflowStage;
+  from: { attempt: number; iteration: number };
+  to: { attempt: number; iteration: number };
+  changes: FieldChange[];
+}
+
+// 一覧表示用のステップ履歴
+export interface StepHistory {
+  stepId: string;
+  stage: WorkflowStage;
+  agentName: string;
+  status: WorkflowStatus;
+  attempts: StepAttempt[];
+}
+
+export class StepHistoryError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'StepHistoryError';
+  }
+}
+
+export function getWorkflowHistory(context: ProjectContext): StepHistory[] {
+  return context.workflow.map(step => ({
+    stepId: step.id,
+    stage: step.stage,
+    agentName: step.agentName,
+    status: step.status,
+    attempts: step.attempts ?? []
+  }));
+}
+
+/**
+ * ステップIDまたは段階名でステップを検索
+ */
+export function findStep(context: ProjectContext, stepIdOrStage: string): WorkflowStep {
+  const step = context.workflow.find(s => s.id === stepIdOrStage)
+    ?? context.workflow.find(s => (s.stage as string) === stepIdOrStage);
+  if (!step) {
+    throw new StepHistoryError(`Step not found: ${stepIdOrStage}`);
+  }
+  return step;
+}
+
+export function findStepAttempt(step: WorkflowStep, selector: AttemptSelector): StepAttempt {
+  const attempts = step.attempts ?? [];
+  let found: StepAttempt | undefined;
+
+  if (selector.attempt !== undefined) {
+    found = attempts.find(attempt => attempt.attempt === selector.attempt);
+  } else if (selector.iteration !== undefined) {
+    found = attempts
+      .filter(attempt => attempt.iteration === selector.iteration && attempt.status === WorkflowStatus.COMPLETED)
+      .at(-1);
+  }
+
+  if (!found) {
+    throw new StepHistoryError(`No attempt of ${step.stage} matches ${JSON.stringify(selector)}`);
+  }
+  return found;
+}
+
+/**
+ * ステップの2つの実行記録の結果を比較する
+ * 結果は段階のスキーマで正規化してから比較するため、デフォルト値の有無は差分にならない
+ */
+export function diffStepAttempts(step: WorkflowStep, from: AttemptSelector, to: AttemptSelector): AttemptDiff {
+  const schema = DIFFABLE_RESULT_SCHEMAS[step.stage];
+  if (!schema) {
+    throw new StepHistoryError(`Results of ${step.stage} stage cannot be diffed`);
+  }
+
+  const before = findStepAttempt(step, from);
+  const after = findStepAttempt(step, to);
+  const parse = (attempt: StepAttempt): Record<string, unknown> => {
+    const parsed = schema.safeParse(attempt.output);
+    if (!parsed.success) {
+      throw new StepHistoryError(`Attempt ${attempt.attempt.toString()} of ${step.stage} has no valid result`);
+    }
+    return parsed.data as Record<string, unknown>;
+  };
+
+  return {
+    stepId: step.id,
+    stage: step.stage,
+    from: { attempt: before.attempt, iteration: before.iteration },
+    to: { attempt: after.attempt, iteration: after.iteration },
+    changes: diffResults(parse(before), parse(after))
+  };
+}
+
+/**
+ * 2つの結果オブジェクトをフィールド単位で比較する
+ * 数値は増減、配列は追加・削除された要素、それ以外は変更前後の値を返す
+ */
+export function diffResults(before: Record<string, unknown>, after: Record<string, unknown>): FieldChange[] {
+  const fields = [...new Set([...Object.keys(before), ...Object.keys(after)])];
+  const changes: FieldChange[] = [];
+
+  for (const field of fields) {
+    const from = before[field];
+    const to = after[field];
+
+    if (typeof from === 'number' && typeof to === 'number') {
+      if (from !== to) changes.push({ field, kind: 'number', from, to, delta: to - from });
+    } else if (Array.isArray(from) || Array.isArray(to)) {
+      const fromItems = Array.isArray(from) ? from as unknown[] : [];
+      const toItems = Array.isArray(to) ? to as unknown[] : [];
+      const fromKeys = new Set(fromItems.map(item => JSON.stringify(item)));
+      const toKeys = new Set(toItems.map(item => JSON.stringify(item)));
+      const added = toItems.filter(item => !fromKeys.has(JSON.stringify(item)));
+      const removed = fromItems.filter(item => !toKeys.has(JSON.stringify(item)));
+      if (added.length > 0 || removed.length > 0) changes.push({ field, kind: 'list', added, removed });
+    } else if (JSON.stringify(from) !== JSON.stringify(to)) {
+      changes.push({ field, kind: 'value', from, to });
+    }
+  }
+  return changes;
+}
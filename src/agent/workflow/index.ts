@@ -1,3 +1,9 @@
 // src/agent/workflow/index.ts
-export { ProjectContext, ProjectContextManager, WorkflowStage, WorkflowStatus } from './ProjectContext.js';
-export { WorkflowOrchestrator, WorkflowConfig, ApprovalHandler } from './WorkflowOrchestrator.js';
+export { ProjectContext, ProjectContextManager, WorkflowStage, WorkflowStatus, UsageSummary, StepAttempt, ApprovalRecord } from './ProjectContext.js';
+export { WorkflowOrchestrator, WorkflowConfig, ApprovalHandler, ApprovalDecision, ApprovalData, RerunStepOptions, WorkflowControlError } from './WorkflowOrchestrator.js';
+export { ContextStore, InMemoryContextStore, JsonFileContextStore } from './ContextStore.js';
+export { WorkflowEventBus, WorkflowEventMap, WorkflowEventName, WorkflowEventListener } from './WorkflowEvents.js';
+export { WorkflowBudget, WorkflowBudgetSchema, ModelPricing, DEFAULT_MODEL_PRICING, calculateCost } from './budget.js';
+export { AttemptDiff, AttemptSelector, FieldChange, StepHistory, StepHistoryError, diffResults, diffStepAttempts, findStep, findStepAttempt, getWorkflowHistory } from './history.js';
+export { ApprovalQueue, ApprovalNotFoundError, PendingApproval } from './ApprovalQueue.js';
+export { RunPolicy, RunPolicies, RunPoliciesSchema, ResolvedRunPolicy, DEFAULT_RUN_POLICY, resolveRunPolicy } from './runPolicy.js';
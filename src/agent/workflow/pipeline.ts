@@ -0,0 +1,158 @@
+// src/agent/workflow/pipeline.ts
+import { z } from 'zod';
+import type { ProjectContext } from './ProjectContext.js';
+import { WorkflowStage } from './ProjectContext.js';
+
+// パイプラインに含めることができない管理用の段階
+const NON_EXECUTABLE_STAGES = new Set<WorkflowStage>([
+  WorkflowStage.INITIAL,
+  WorkflowStage.COMPLETED,
+  WorkflowStage.FAILED
+]);
+
+// パイプラインの1段階の定義
+export const PipelineStageSchema = z.object({
+  stage: z.nativeEnum(WorkflowStage).refine(
+    stage => !NON_EXECUTABLE_STAGES.has(stage),
+    { message: 'Stage is not executable' }
+  ),
+  agent: z.string().min(1).describe('agentRegistry に登録されたエージェント名'),
+  input: z.string().optional().describe('入力テンプレート（{{originalRequest}} などのプレースホルダーを使用）'),
+  requiresApproval: z.boolean().default(false),
+  dependsOn: z.array(z.nativeEnum(WorkflowStage)).optional()
+    .describe('依存する段階（未指定の場合は直前の段階）。空配列で依存なし'),
+});
+
+// パイプライン定義
+// 依存先は自身より前に定義された段階に限定することで循環を防ぐ
+export const PipelineDefinitionSchema = z.object({
+  name: z.string().min(1),
+  description: z.string().optional(),
+  stages: z.array(PipelineStageSchema).min(1),
+}).superRefine((pipeline, ctx) => {
+  const seen = new Set<WorkflowStage>();
+  pipeline.stages.forEach((stage, index) => {
+    if (seen.has(stage.stage)) {
+      ctx.addIssue({
+        code: z.ZodIssueCode.custom,
+        path: ['stages', index, 'stage'],
+        message: `Duplicate stage: ${stage.stage}`,
+      });
+    }
+    stage.dependsOn?.forEach((dependency, depIndex) => {
+      if (!seen.has(dependency)) {
+        ctx.addIssue({
+          code: z.ZodIssueCode.custom,
+          path: ['stages', index, 'dependsOn', depIndex],
+          message: `Stage ${stage.stage} depends on ${dependency}, which is not defined before it`,
+        });
+      }
+    });
+    seen.add(stage.stage);
+  });
+});
+
+export type PipelineStage = z.infer<typeof PipelineStageSchema>;
+export type PipelineDefinition = z.infer<typeof PipelineDefinitionSchema>;
+
+// 各段階の結果を格納する ProjectContext のフィールド
+export const STAGE_RESULT_KEYS: Partial<Record<WorkflowStage, keyof ProjectContext>> = {
+  [WorkflowStage.TRIAGE]: 'triageResult',
+  [WorkflowStage.RESEARCH]: 'researchResult',
+  [WorkflowStage.ARCHITECTURE]: 'architecturePlan',
+  [WorkflowStage.IMPLEMENTATION]: 'implementationResult',
+  [WorkflowStage.TESTING]: 'testReport',
+  [WorkflowStage.REVIEW]: 'reviewReport',
+  [WorkflowStage.DEVOPS]: 'devopsPlan',
+  [WorkflowStage.DOCUMENTATION]: 'docsUpdate',
+};
+
+// 入力テンプレート未指定時に使用する段階ごとのデフォルト
+export const DEFAULT_STAGE_INPUTS: Partial<Record<WorkflowStage, string>> = {
+  [WorkflowStage.TRIAGE]: '{{originalRequest}}',
+  [WorkflowStage.RESEARCH]: `
+元の要求: {{originalRequest}}
+
+Triageの結果: {{triageResult}}
+
+上記の要求について、技術的実現可能性、既存ソリューション、ベストプラクティス、潜在的リスクについて徹底的に調査してください。
+`,
+  [WorkflowStage.ARCHITECTURE]: `
+元の要求: {{originalRequest}}
+
+Triageの結果: {{triageResult}}
+
+リサーチ結果: {{researchResult}}
+
+上記の情報を基に、アプリケーションのアーキテクチャ設計を作成してください。
+`,
+  [WorkflowStage.IMPLEMENTATION]: `
+アーキテクチャプラン: {{architecturePlan}}
+
+リサーチ結果: {{researchResult}}
+
+上記の設計に基づいて実装を行ってください。
+`,
+  [WorkflowStage.TESTING]: `
+実装結果: {{implementationResult}}
+
+上記の実装に対してテストを作成・実行してください。
+`,
+  [WorkflowStage.REVIEW]: `
+実装結果: {{implementationResult}}
+
+テスト結果: {{testReport}}
+
+上記の実装とテストをレビューしてください。
+`,
+  [WorkflowStage.DEVOPS]: `
+実装結果: {{implementationResult}}
+
+レビュー結果: {{reviewReport}}
+
+デプロイメントプランを作成してください。
+`,
+  [WorkflowStage.DOCUMENTATION]: `
+プロジェクト全体の結果:
+- アーキテクチャ: {{architecturePlan}}
+- 実装: {{implementationResult}}
+- テスト: {{testReport}}
+- レビュー: {{reviewReport}}
+
+ドキュメントを更新してください。
+`,
+};
+
+// 従来の8段階ワークフロー
+// DevOps と Documentation はレビュー結果のみに依存するため並行実行される
+export const DEFAULT_PIPELINE: PipelineDefinition = {
+  name: 'default',
+  description: 'Triage から Documentation までの標準ワークフロー',
+  stages: [
+    { stage: WorkflowStage.TRIAGE, agent: 'Triage', requiresApproval: false },
+    { stage: WorkflowStage.RESEARCH, agent: 'Researcher', requiresApproval: false },
+    { stage: WorkflowStage.ARCHITECTURE, agent: 'Architect', requiresApproval: true },
+    { stage: WorkflowStage.IMPLEMENTATION, agent: 'Implementer', requiresApproval: false },
+    { stage: WorkflowStage.TESTING, agent: 'Tester', requiresApproval: false },
+    { stage: WorkflowStage.REVIEW, agent: 'Reviewer', requiresApproval: false },
+    { stage: WorkflowStage.DEVOPS, agent: 'DevOps', requiresApproval: true, dependsOn: [WorkflowStage.REVIEW] },
+    { stage: WorkflowStage.DOCUMENTATION, agent: 'Docs', requiresApproval: false, dependsOn: [WorkflowStage.REVIEW] },
+  ],
+};
+
+// 組み込みパイプライン（設定ファイルで同名のものを定義すると上書きされる）
+export const BUILTIN_PIPELINES: Record<string, PipelineDefinition> = {
+  [DEFAULT_PIPELINE.name]: DEFAULT_PIPELINE,
+};
+
+/**
+ * 入力テンプレートの {{key}} を ProjectContext（または段階の入力）の値で置き換える
+ * 文字列以外の値は整形済みJSONとして埋め込み、未設定の値は空文字にする
+ */
+export function renderInputTemplate(template: string, values: Record<string, unknown>): string {
+  return template.replace(/\{\{\s*(\w+)\s*\}\}/g, (_match, key: string) => {
+    const value = values[key];
+    if (value === undefined || value === null) return '';
+    return typeof value === 'string' ? value : JSON.stringify(value, null, 2);
+  });
+}
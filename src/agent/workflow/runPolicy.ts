@@ -0,0 +1,91 @@
+// src/agent/workflow/runPolicy.ts
+import { z } from 'zod';
+import type { BackoffOptions } from '../../utils/backoff.js';
+import { DEFAULT_BACKOFF } from '../../utils/backoff.js';
+import { WorkflowStage } from './ProjectContext.js';
+
+export const BackoffSchema = z.object({
+  strategy: z.enum(['exponential', 'fixed']).optional()
+    .describe('exponential: 試行ごとに待機時間を倍増 / fixed: 一定間隔'),
+  baseDelayMs: z.number().int().nonnegative().optional().describe('最初のリトライまでの待機時間（ms）'),
+  maxDelayMs: z.number().int().nonnegative().optional().describe('待機時間の上限（ms）'),
+  jitter: z.boolean().optional().describe('待機時間を計算値の50〜100%でランダムにずらす'),
+});
+
+// エージェント実行のタイムアウト・リトライ設定（未指定の項目は上位の設定を引き継ぐ）
+export const RunPolicySchema = z.object({
+  timeoutMs: z.number().int().positive().optional().describe('1回の実行のタイムアウト（ms）'),
+  retries: z.number().int().nonnegative().optional().describe('失敗時のリトライ回数'),
+  backoff: BackoffSchema.optional(),
+  maxTurns: z.number().int().positive().optional().describe('1回の実行の最大ターン数'),
+  cache: z.boolean().optional().describe('false の場合は実行結果のキャッシュを使用しない'),
+});
+
+export type RunPolicy = z.infer<typeof RunPolicySchema>;
+
+// 優先順位: stages > agents > default
+export const RunPoliciesSchema = z.object({
+  default: RunPolicySchema.optional(),
+  stages: z.record(z.nativeEnum(WorkflowStage), RunPolicySchema).optional()
+    .describe('段階ごとの設定（キーは段階名）'),
+  agents: z.record(z.string(), RunPolicySchema).optional()
+    .describe('エージェントごとの設定（キーはパイプラインのエージェント名）'),
+});
+
+export type RunPolicies = z.infer<typeof RunPoliciesSchema>;
+
+export interface ResolvedRunPolicy {
+  timeoutMs: number;
+  retries: number;
+  backoff: BackoffOptions;
+  maxTurns: number;
+  cache: boolean;
+}
+
+export const DEFAULT_RUN_POLICY: ResolvedRunPolicy = {
+  timeoutMs: 120000,
+  retries: 2,
+  backoff: DEFAULT_BACKOFF,
+  maxTurns: 10,
+  cache: true,
+};
+
+/**
+ * エージェント設定（config の agents）の maxTurns を runPolicies.agents に取り込む
+ * runPolicies.agents で maxTurns を指定している場合はそちらを優先する
+ */
+export function withAgentMaxTurns(
+  policies: RunPolicies,
+  agents: Record<string, { maxTurns?: number }>
+): RunPolicies {
+  const merged = { ...policies.agents };
+  for (const [agentName, settings] of Object.entries(agents)) {
+    if (settings.maxTurns === undefined) continue;
+    merged[agentName] = { maxTurns: settings.maxTurns, ...merged[agentName] };
+  }
+  return { ...policies, agents: merged };
+}
+
+/**
+ * 段階とエージェントに適用する実行設定を解決
+ * 項目ごとに stages > agents > default > base の順で最初に指定された値を使用する
+ */
+export function resolveRunPolicy(
+  policies: RunPolicies | undefined,
+  stage: WorkflowStage,
+  agentName: string,
+  base: ResolvedRunPolicy = DEFAULT_RUN_POLICY
+): ResolvedRunPolicy {
+  const layers = [policies?.default, policies?.agents?.[agentName], policies?.stages?.[stage]];
+  return layers.reduce<ResolvedRunPolicy>((resolved, layer) => layer ? {
+    timeoutMs: layer.timeoutMs ?? resolved.timeoutMs,
+    retries: layer.retries ?? resolved.retries,
+    backoff: { ...resolved.backoff, ...stripUndefined(layer.backoff) },
+    maxTurns: layer.maxTurns ?? resolved.maxTurns,
+    cache: layer.cache ?? resolved.cache,
+  } : resolved, base);
+}
+
+function stripUndefined<T extends object>(value: T | undefined): Partial<T> {
+  return Object.fromEntries(Object.entries(value ?? {}).filter(([, v]) => v !== undefined)) as Partial<T>;
+}
@@ -0,0 +1,154 @@
+// src/agent/workflow/stageInputs.ts
+import { z } from 'zod';
+import {
+  ArchitecturePlan,
+  ImplementationResult,
+  ResearchResult,
+  ReviewReport,
+  TestReport,
+  TriageResult
+} from '../schemas.js';
+import type { ProjectContext } from './ProjectContext.js';
+import { IterationRecordSchema, WorkflowStage } from './ProjectContext.js';
+import { ValidationError } from '../../utils/agentErrors.js';
+
+// 各段階が受け取る入力
+// 上流の結果は optional とし、実際に必須かどうかはパイプライン上の依存関係で決まる
+export const STAGE_INPUT_SCHEMAS: Partial<Record<WorkflowStage, z.AnyZodObject>> = {
+  [WorkflowStage.TRIAGE]: z.object({
+    originalRequest: z.string().min(1),
+  }),
+  [WorkflowStage.RESEARCH]: z.object({
+    originalRequest: z.string().min(1),
+    triageResult: TriageResult.optional(),
+  }),
+  [WorkflowStage.ARCHITECTURE]: z.object({
+    originalRequest: z.string().min(1),
+    triageResult: TriageResult.optional(),
+    researchResult: ResearchResult.optional(),
+  }),
+  [WorkflowStage.IMPLEMENTATION]: z.object({
+    originalRequest: z.string().min(1),
+    architecturePlan: ArchitecturePlan.optional(),
+    researchResult: ResearchResult.optional(),
+    // PDCA反復時のみ: 直前の反復で検出された失敗と前回の実装
+    // 記録時刻などの管理用フィールドは除き、同じ失敗に対するプロンプトを一定に保つ（カセット再生の照合に必要）
+    iterationFeedback: IterationRecordSchema.omit({ startedAt: true, failureSignature: true }).optional(),
+  }),
+  [WorkflowStage.TESTING]: z.object({
+    originalRequest: z.string().min(1),
+    implementationResult: ImplementationResult.optional(),
+  }),
+  [WorkflowStage.REVIEW]: z.object({
+    originalRequest: z.string().min(1),
+    implementationResult: ImplementationResult.optional(),
+    testReport: TestReport.optional(),
+  }),
+  [WorkflowStage.DEVOPS]: z.object({
+    originalRequest: z.string().min(1),
+    implementationResult: ImplementationResult.optional(),
+    reviewReport: ReviewReport.optional(),
+  }),
+  [WorkflowStage.DOCUMENTATION]: z.object({
+    originalRequest: z.string().min(1),
+    architecturePlan: ArchitecturePlan.optional(),
+    implementationResult: ImplementationResult.optional(),
+    testReport: TestReport.optional(),
+    reviewReport: ReviewReport.optional(),
+  }),
+};
+
+// プロンプトに埋め込む上流データのサイズ制限
+export const StageInputLimitsSchema = z.object({
+  maxStringLength: z.number().int().positive().default(4000).describe('1つの文字列フィールドの最大文字数'),
+  maxArrayItems: z.number().int().positive().default(50).describe('配列フィールドの最大要素数'),
+  maxTotalChars: z.number().int().positive().default(30000).describe('上流データ全体（JSON換算）の最大文字数'),
+});
+
+export type StageInputLimits = z.infer<typeof StageInputLimitsSchema>;
+
+export const DEFAULT_STAGE_INPUT_LIMITS: StageInputLimits = StageInputLimitsSchema.parse({});
+
+// 文字列フィールドを切り詰める際の下限（これ以上は短くしない）
+const MIN_STRING_LENGTH = 200;
+
+export class StageInputValidationError extends ValidationError {
+  constructor(readonly stage: WorkflowStage, readonly issues: z.ZodIssue[]) {
+    const details = issues
+      .map(issue => `${issue.path.length > 0 ? issue.path.join('.') : '(root)'}: ${issue.message}`)
+      .join('; ');
+    super(`Invalid input for ${stage} stage: ${details}`);
+    this.name = 'StageInputValidationError';
+  }
+}
+
+/**
+ * ProjectContext から段階の入力を組み立て、スキーマで検証する
+ * @param requiredKeys - 依存する上流段階が生成するため、必ず存在すべきフィールド
+ */
+export function buildStageInput(
+  stage: WorkflowStage,
+  context: ProjectContext,
+  requiredKeys: readonly string[] = []
+): Record<string, unknown> {
+  const schema = STAGE_INPUT_SCHEMAS[stage];
+  if (!schema) return { originalRequest: context.originalRequest };
+
+  const keys = Object.keys(schema.shape as z.ZodRawShape);
+  // ProjectContext のフィールドに加え、コンテキストから導出される値を参照できる
+  const values: Record<string, unknown> = {
+    ...context,
+    iterationFeedback: context.iterations.at(-1)
+  };
+  const raw = Object.fromEntries(keys.map(key => [key, values[key]]));
+
+  const required = Object.fromEntries(
+    requiredKeys.filter(key => keys.includes(key)).map(key => [key, true as const])
+  );
+  const result = schema.required(required).safeParse(raw);
+  if (!result.success) {
+    throw new StageInputValidationError(stage, result.error.issues);
+  }
+  return result.data as Record<string, unknown>;
+}
+
+/**
+ * 上流データをプロンプトに収まるサイズへ切り詰める
+ * originalRequest は切り詰めず、全体が maxTotalChars を超える間は文字列の上限を半分ずつ下げる
+ */
+export function truncateStageInput(
+  input: Record<string, unknown>,
+  limits: StageInputLimits = DEFAULT_STAGE_INPUT_LIMITS
+): Record<string, unknown> {
+  const { originalRequest, ...upstream } = input;
+  let maxStringLength = limits.maxStringLength;
+  let truncated = truncateValue(upstream, maxStringLength, limits.maxArrayItems) as Record<string, unknown>;
+
+  while (JSON.stringify(truncated).length > limits.maxTotalChars && maxStringLength > MIN_STRING_LENGTH) {
+    maxStringLength = Math.max(MIN_STRING_LENGTH, Math.floor(maxStringLength / 2));
+    truncated = truncateValue(upstream, maxStringLength, limits.maxArrayItems) as Record<string, unknown>;
+  }
+
+  return originalRequest === undefined ? truncated : { originalRequest, ...truncated };
+}
+
+function truncateValue(value: unknown, maxStringLength: number, maxArrayItems: number): unknown {
+  if (typeof value === 'string') {
+    if (value.length <= maxStringLength) return value;
+    const omitted = value.length - maxStringLength;
+    return `${value.slice(0, maxStringLength)}…（以下 ${omitted.toString()} 文字省略）`;
+  }
+  if (Array.isArray(value)) {
+    const items = value.slice(0, maxArrayItems).map(item => truncateValue(item, maxStringLength, maxArrayItems));
+    if (value.length > maxArrayItems) {
+      items.push(`…（他 ${(value.length - maxArrayItems).toString()} 件省略）`);
+    }
+    return items;
+  }
+  if (value && typeof value === 'object' && !(value instanceof Date)) {
+    return Object.fromEntries(
+      Object.entries(value).map(([key, item]) => [key, truncateValue(item, maxStringLength, maxArrayItems)])
+    );
+  }
+  return value;
+}
@@ -2,27 +2,41 @@
 import 'dotenv/config';
 import { initializeAgentSDK } from './utils/agentConfig.js';
 import { sharedRunner } from './utils/sharedRunner.js';
+import { configManager, getConfig } from './utils/config.js';
 import { startServer } from './runners/serverRunner.js';
 import { triageAgent } from './agent/triage.js';
-import { cliWorkflowRunner } from './runners/workflowRunner.js';
+import { getAgentSettings } from './agent/agentSettings.js';
+import { cliWorkflowControl, cliWorkflowHistory, cliWorkflowRunner } from './runners/workflowRunner.js';
 import { loadOpenAIKeyFromSecrets } from './utils/env.js';
-import { runAgent } from './utils/agentRunner.js';
+import { streamAgent } from './utils/agentRunner.js';
+import { createStreamRenderer } from './runners/streamRenderer.js';
+import { AgentCassette } from './utils/agentCassette.js';
+import { generateApiKey, hashApiKey } from './utils/apiKeys.js';
 
 const MODE = process.env.RUN_MODE ?? (process.env.NODE_ENV === 'production' ? 'server' : 'cli');
 const USE_WORKFLOW = process.env.USE_WORKFLOW === 'true';
+// エージェントの入出力を記録・再生するカセットファイル
+const AGENT_CASSETTE = process.env.AGENT_CASSETTE;
+const AGENT_CASSETTE_MODE = process.env.AGENT_CASSETTE_MODE === 'replay' ? 'replay' : 'record';
+// CLI のワークフローで使用するプロジェクト
+const CLI_PROJECT = 'default';
 
 // Phase 1: OpenAI Agents SDK の適切な初期化
-function initializeApplication() {
+// 設定は最初に読み込んだものが使われるため、project を指定する場合はここで読み込む
+function initializeApplication(project?: string) {
   try {
     // 環境変数の読み込み
     loadOpenAIKeyFromSecrets();
     
     // SDK初期化（APIキー、トレーシング等）
-    initializeAgentSDK();
+    const { provider } = getConfig(project).agent.model;
+    initializeAgentSDK({ requireOpenAIKey: provider === 'openai' });
     
-    // 共有Runnerインスタンスの初期化
+    // 共有Runnerインスタンスの初期化（DEFAULT_MODEL は設定のモデル名より優先）
+    // モデル名・温度はスキーマのデフォルト値ではなく、明示的に設定された値のみを使用する
+    const configured = configManager.getConfiguredModel();
     sharedRunner.initialize({
-      model: process.env.DEFAULT_MODEL ?? 'gpt-4o',
+      model: { ...configured, provider, model: process.env.DEFAULT_MODEL ?? configured.model ?? 'gpt-4o' },
       workflowName: 'Strong Agent Application',
       tracingDisabled: process.env.NODE_ENV === 'test'
     });
@@ -34,35 +48,105 @@ function initializeApplication() {
   }
 }
 
-if (MODE === 'server') {
+// サブコマンドは "--" を付けて指定する（同じ単語で始まるタスクの文章をサブコマンドとして扱わないため）
+const SUBCOMMANDS = ['history', 'api-key', 'rerun', 'rerun-from', 'skip'];
+// 保存済みワークフローのステップ操作
+const STEP_CONTROL_COMMANDS = ['rerun', 'rerun-from', 'skip'];
+const [firstArg = '', ...commandArgs] = process.argv.slice(2);
+const command = SUBCOMMANDS.find(name => firstArg === `--${name}`);
+
+if (command === 'history') {
+  // 保存済みワークフローの履歴表示（APIキー不要のため初期化しない）
+  const [projectId, step, from, to] = commandArgs;
+  if (!projectId) {
+    console.error('Usage: npm run cli -- --history <projectId> [step] [fromIteration toIteration]');
+    process.exit(1);
+  }
+  await cliWorkflowHistory({
+    projectId,
+    step,
+    from: from ? parseInt(from, 10) : undefined,
+    to: to ? parseInt(to, 10) : undefined
+  });
+} else if (command === 'api-key') {
+  // サーバー用のAPIキーを発行（キーは表示のみで、登録するのはハッシュ）
+  const [id, name] = commandArgs;
+  if (!id || !/^[A-Za-z0-9_-]+$/.test(id)) {
+    console.error('Usage: npm run cli -- --api-key <id> [name]');
+    process.exit(1);
+  }
+  const key = generateApiKey();
+  console.log(`API key (shown only once): ${key}`);
+  console.log(`Add this entry to "keys" in ${getConfig().server.auth.keysFile}:`);
+  console.log(JSON.stringify({ id, hash: hashApiKey(key), ...(name ? { name } : {}) }, null, 2));
+} else if (MODE === 'server') {
   initializeApplication();
   startServer();
 } else {
-  initializeApplication();
+  const cassette = AGENT_CASSETTE ? await AgentCassette.open(AGENT_CASSETTE, AGENT_CASSETTE_MODE) : undefined;
+
+  // 再生モードではモデルを呼び出さないため、APIキーなしで実行できる
+  if (cassette?.mode !== 'replay') {
+    initializeApplication(CLI_PROJECT);
+  }
   
   const input = process.argv.slice(2).join(' ') || '稼働テスト';
   
-  if (USE_WORKFLOW) {
+  if (command && STEP_CONTROL_COMMANDS.includes(command)) {
+    const [projectId, step, ...rest] = commandArgs;
+    if (!projectId || !step) {
+      console.error(`Usage: npm run cli -- --${command} <projectId> <step> [${command === 'skip' ? 'reason' : 'input'}]`);
+      process.exit(1);
+    }
+    const text = rest.join(' ') || undefined;
+    await cliWorkflowControl({
+      project: CLI_PROJECT,
+      projectId,
+      control: command === 'skip'
+        ? { action: 'skip', step, reason: text }
+        : { action: command === 'rerun' ? 'rerun' : 'rerun-from', step, input: text },
+      requireApproval: process.env.REQUIRE_APPROVAL === 'true',
+      maxIterations: parseInt(process.env.MAX_ITERATIONS ?? '3'),
+      cassette
+    });
+  } else if (USE_WORKFLOW) {
     // 新しいワークフローシステムを使用
     await cliWorkflowRunner({
-      project: 'default',
+      project: CLI_PROJECT,
       task: input,
       requireApproval: process.env.REQUIRE_APPROVAL === 'true',
-      maxIterations: parseInt(process.env.MAX_ITERATIONS ?? '3')
+      maxIterations: parseInt(process.env.MAX_ITERATIONS ?? '3'),
+      cassette
     });
   } else {
     // 従来のTriageエージェントを使用（新しいSafeAgentRunnerで実行）
     console.log('🤖 Running Triage Agent with input:', input);
     
+    // 出力はストリーミングで逐次表示する
+    const renderer = createStreamRenderer();
     // eslint-disable-next-line @typescript-eslint/no-explicit-any
-    const result = await runAgent(triageAgent as any, input, { 
-      maxTurns: 4,
-      timeout: 60000 
+    const stream = streamAgent(triageAgent as any, input, { 
+      maxTurns: getAgentSettings('Triage').maxTurns ?? 4,
+      timeout: 60000,
+      cassette
     });
+    let streamed = false;
+    let next = await stream.next();
+    while (!next.done) {
+      renderer.render(next.value);
+      streamed = true;
+      next = await stream.next();
+    }
+    renderer.endLine();
+    const result = next.value;
+    await cassette?.flush();
     
     if (result.success) {
       console.log('✅ Agent execution completed successfully');
-      console.log(result.data ?? 'No output');
+      // カセットの再生などでストリーミングされなかった場合は結果をまとめて表示する
+      if (!streamed) {
+        console.log(result.data ?? 'No output');
+      }
     } else {
       console.error('❌ Agent execution failed:', result.error);
       if (result.recoverable) {
@@ -1,6 +1,7 @@
 // src/run.ts
 import { run, setDefaultOpenAIKey } from '@openai/agents';
 import { triageAgent } from './agent/triage.js';
+import { configureAgent } from './agent/agentSettings.js';
 import { getConfig } from './utils/config.js';
 
 async function main() {
@@ -17,7 +18,7 @@ async function main() {
     }
 
     const input = process.argv.slice(2).join(' ') || 'Next.js + PostgreSQL で簡易タスク管理アプリを作りたい。';
-    const result = await run(triageAgent, input, { 
+    const result = await run(configureAgent(triageAgent), input, { 
       maxTurns: config.env.maxTurns 
     });
 
@@ -0,0 +1,178 @@
+// src/runners/apiSchemas.ts - サーバーのリクエスト・レスポンスのスキーマ（OpenAPI ドキュメントの生成元）
+import { z } from 'zod';
+import { ArchitecturePlan, DevOpsPlan, DocsUpdate, ImplementationResult, ResearchResult, ReviewReport, TestReport } from '../agent/schemas.js';
+import { StepAttemptSchema, UsageSummarySchema, WorkflowStage, WorkflowStatus } from '../agent/workflow/ProjectContext.js';
+import { WORKFLOW_JOB_STATUSES } from '../agent/workflow/WorkflowJobQueue.js';
+
+// ===== リクエスト =====
+
+export const ChatRequest = z.object({
+  input: z.string().min(1).max(1000),
+  maxTurns: z.number().int().min(1).max(20).optional(),
+  // 指定した場合はセッションの会話を続ける（/chat のみ）
+  sessionId: z.string().regex(/^[A-Za-z0-9_-]+$/).max(100).optional(),
+});
+
+// 会話セッションは POST /chat のみ対応（sessionId を含むリクエストは未知のキーとして拒否する）
+export const ChatStreamRequest = ChatRequest.omit({ sessionId: true }).strict();
+
+export const WorkflowRequest = z.object({
+  request: z.string().min(1).max(4000),
+  pipeline: z.string().regex(/^[A-Za-z0-9_-]+$/).optional(),
+  requireApproval: z.boolean().optional(),
+  maxIterations: z.number().int().min(1).max(10).optional(),
+});
+
+export const WorkflowListQuery = z.object({
+  // カンマ区切りで複数指定できる（例: ?status=queued,running）
+  status: z.string().optional()
+    .transform(value => value?.split(',').map(status => status.trim()))
+    .pipe(z.array(z.enum(WORKFLOW_JOB_STATUSES)).optional()),
+});
+
+// 未指定の場合は最初のイベントから配信する
+export const LastEventId = z.coerce.number().int().min(0).default(0);
+
+export const WorkflowParams = z.object({
+  id: z.string().regex(/^[A-Za-z0-9_-]+$/),
+});
+
+export const SessionParams = z.object({
+  id: z.string().regex(/^[A-Za-z0-9_-]+$/),
+});
+
+export const DiffQuery = z.object({
+  from: z.coerce.number().int().min(0),
+  to: z.coerce.number().int().min(0),
+  by: z.enum(['iteration', 'attempt']).default('iteration'),
+});
+
+export const ApprovalDecisionRequest = z.object({
+  approved: z.boolean(),
+  // 編集して承認する場合の、段階の結果を置き換える値
+  result: z.unknown().optional(),
+  comment: z.string().max(1000).optional(),
+});
+
+// ===== エラー =====
+
+export const API_ERROR_CODES = [
+  'invalid_request',
+  'unauthorized',
+  'forbidden',
+  'not_found',
+  'conflict',
+  'input_guardrail',
+  'output_guardrail',
+  'rate_limited',
+  'quota_exceeded',
+  'internal_error',
+] as const;
+
+export type ApiErrorCode = typeof API_ERROR_CODES[number];
+
+// すべてのエラーレスポンスの形式（レート制限・トークン上限は retryAfter・used・quota を追加で含む）
+export const ErrorResponse = z.object({
+  error: z.enum(API_ERROR_CODES),
+  message: z.string(),
+}).passthrough();
+
+// リクエストの検証エラー（zod の flatten() の結果を details に含む）
+export const ValidationErrorResponse = z.object({
+  error: z.literal('invalid_request'),
+  message: z.string().optional(),
+  details: z.object({
+    formErrors: z.array(z.string()),
+    fieldErrors: z.record(z.string(), z.array(z.string())),
+  }).optional(),
+});
+
+// ===== レスポンス =====
+
+export const HealthResponse = z.object({
+  status: z.literal('ok'),
+});
+
+// Triage の出力、またはハンドオフ先の専門エージェントの構造化出力
+export const AgentOutput = z.union([
+  z.string(),
+  ResearchResult,
+  ArchitecturePlan,
+  ImplementationResult,
+  TestReport,
+  ReviewReport,
+  DevOpsPlan,
+  DocsUpdate,
+]);
+
+export const ChatResponse = z.object({
+  sessionId: z.string(),
+  finalOutput: AgentOutput,
+});
+
+export const WorkflowJobSummary = z.object({
+  id: z.string(),
+  request: z.string(),
+  status: z.enum(WORKFLOW_JOB_STATUSES),
+  // 登録したAPIキー（認証が無効な場合はなし）
+  principalId: z.string().optional(),
+  createdAt: z.coerce.date(),
+  startedAt: z.coerce.date().optional(),
+  finishedAt: z.coerce.date().optional(),
+  error: z.string().optional(),
+  usage: UsageSummarySchema.optional(),
+  // ワークフロー自体の状態と現在の段階（キューから外れたジョブはなし）
+  workflowStatus: z.nativeEnum(WorkflowStatus).optional(),
+  currentStage: z.nativeEnum(WorkflowStage).optional(),
+});
+
+export const WorkflowListResponse = z.object({
+  workflows: z.array(WorkflowJobSummary),
+});
+
+export const WorkflowHistoryResponse = z.object({
+  id: z.string(),
+  iterationCount: z.number(),
+  steps: z.array(z.object({
+    stepId: z.string(),
+    stage: z.nativeEnum(WorkflowStage),
+    agentName: z.string(),
+    status: z.nativeEnum(WorkflowStatus),
+    attempts: z.array(StepAttemptSchema),
+  })),
+});
+
+const AttemptRef = z.object({ attempt: z.number(), iteration: z.number() });
+
+export const AttemptDiffResponse = z.object({
+  stepId: z.string(),
+  stage: z.nativeEnum(WorkflowStage),
+  from: AttemptRef,
+  to: AttemptRef,
+  changes: z.array(z.union([
+    z.object({ field: z.string(), kind: z.literal('number'), from: z.number(), to: z.number(), delta: z.number() }),
+    z.object({ field: z.string(), kind: z.literal('list'), added: z.array(z.unknown()), removed: z.array(z.unknown()) }),
+    z.object({ field: z.string(), kind: z.literal('value'), from: z.unknown(), to: z.unknown() }),
+  ])),
+});
+
+export const ApprovalListResponse = z.object({
+  approvals: z.array(z.object({
+    projectId: z.string(),
+    stepId: z.string(),
+    message: z.string(),
+    data: z.object({
+      agentName: z.string(),
+      stepId: z.string(),
+      input: z.string(),
+      result: z.unknown().optional(),
+      validationError: z.string().optional(),
+    }),
+    requestedAt: z.coerce.date(),
+  })),
+});
+
+export const ApprovalDecisionResponse = z.object({
+  stepId: z.string(),
+  approved: z.boolean(),
+});
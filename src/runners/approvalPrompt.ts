@@ -0,0 +1,81 @@
+// src/runners/approvalPrompt.ts - CLI実行時の対話的な承認プロンプト
+import readline from 'node:readline/promises';
+import { spawnSync } from 'node:child_process';
+import fs from 'fs/promises';
+import os from 'node:os';
+import path from 'node:path';
+import type { ApprovalDecision, ApprovalHandler } from '../agent/workflow/WorkflowOrchestrator.js';
+
+export interface TerminalApprovalOptions {
+  input?: NodeJS.ReadableStream;
+  output?: NodeJS.WritableStream;
+  // 段階の結果を編集する関数（デフォルトは $VISUAL / $EDITOR で一時ファイルを開く）
+  editResult?: (result: unknown) => Promise<unknown>;
+}
+
+/**
+ * ターミナルで承認 / 却下 / 編集して承認 を選択する ApprovalHandler を作成
+ */
+export function createTerminalApprovalHandler(options: TerminalApprovalOptions = {}): ApprovalHandler {
+  const editResult = options.editResult ?? editInExternalEditor;
+
+  return async (stepId, message, data, _context, signal): Promise<ApprovalDecision> => {
+    const output = options.output ?? process.stdout;
+    const rl = readline.createInterface({ input: options.input ?? process.stdin, output });
+
+    try {
+      output.write(`\n=== APPROVAL REQUIRED ===\n`);
+      output.write(`Step: ${stepId} (${data.agentName})\n`);
+      output.write(`Message: ${message}\n`);
+      output.write(`Result:\n${JSON.stringify(data.result, null, 2)}\n`);
+      if (data.validationError) {
+        output.write(`Invalid: ${data.validationError}\n`);
+      }
+      output.write(`========================\n`);
+
+      for (;;) {
+        const answer = (await rl.question('[a]pprove / [r]eject / [e]dit and approve: ', { signal })).trim().toLowerCase();
+
+        if (answer === 'a' || answer === 'approve') {
+          return { approved: true };
+        }
+        if (answer === 'r' || answer === 'reject') {
+          const reason = (await rl.question('Reason (optional): ', { signal })).trim();
+          return { approved: false, comment: reason || undefined };
+        }
+        if (answer === 'e' || answer === 'edit') {
+          try {
+            return { approved: true, result: await editResult(data.result), comment: 'Edited in terminal' };
+          } catch (error) {
+            output.write(`Edit failed: ${error instanceof Error ? error.message : String(error)}\n`);
+            continue;
+          }
+        }
+        output.write('Please answer a, r or e\n');
+      }
+    } finally {
+      rl.close();
+    }
+  };
+}
+
+/**
+ * 結果をJSONの一時ファイルに書き出してエディターで開き、保存された内容を返す
+ */
+async function editInExternalEditor(result: unknown): Promise<unknown> {
+  const dir = await fs.mkdtemp(path.join(os.tmpdir(), 'approval-'));
+  const filePath = path.join(dir, 'result.json');
+
+  try {
+    await fs.writeFile(filePath, JSON.stringify(result, null, 2), 'utf8');
+    const editor = process.env.VISUAL ?? process.env.EDITOR ?? 'vi';
+    // エディターの指定には引数が含まれる場合がある（例: "code --wait"）
+    const child = spawnSync(`${editor} "${filePath}"`, { stdio: 'inherit', shell: true });
+    if (child.status !== 0) {
+      throw new Error(`Editor exited with status ${String(child.status)}`);
+    }
+    return JSON.parse(await fs.readFile(filePath, 'utf8')) as unknown;
+  } finally {
+    await fs.rm(dir, { recursive: true, force: true });
+  }
+}
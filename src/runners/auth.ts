@@ -0,0 +1,106 @@
+// src/runners/auth.ts - サーバーのAPIキー認証とキーごとの利用制限
+import type { Request, RequestHandler, Response } from 'express';
+import rateLimit from 'express-rate-limit';
+import type { ApiKeyStore, ServerAuthSettings, TokenQuotaTracker } from '../utils/apiKeys.js';
+
+// 認証済みのAPIキーの利用者
+export interface ApiPrincipal {
+  id: string;
+  name?: string;
+  rateLimitPerMinute: number;
+  dailyTokenQuota?: number;
+}
+
+declare module 'express-serve-static-core' {
+  interface Request {
+    // 認証が有効な場合のみ設定される
+    principal?: ApiPrincipal;
+  }
+}
+
+// Authorization: Bearer <key> または X-API-Key ヘッダーのキー
+function readApiKey(req: Request): string | undefined {
+  const authorization = req.get('Authorization');
+  if (authorization) {
+    return /^Bearer\s+(\S+)$/i.exec(authorization)?.[1];
+  }
+  return req.get('X-API-Key');
+}
+
+function unauthorized(res: Response, message: string) {
+  res.status(401).set('WWW-Authenticate', 'Bearer').json({ error: 'unauthorized', message });
+}
+
+/**
+ * APIキーを検証して req.principal を設定する（認証が無効な場合は何もしない）
+ * キーがない・未登録の場合は 401、無効化されたキーの場合は 403
+ */
+export function authenticate(settings: ServerAuthSettings, keys: ApiKeyStore): RequestHandler {
+  return (req, res, next) => {
+    if (!settings.enabled) {
+      next(); return;
+    }
+
+    const key = readApiKey(req);
+    if (!key) {
+      unauthorized(res, 'Missing API key'); return;
+    }
+    const entry = keys.find(key);
+    if (!entry) {
+      unauthorized(res, 'Invalid API key'); return;
+    }
+    if (entry.disabled) {
+      res.status(403).json({ error: 'forbidden', message: `API key ${entry.id} is disabled` }); return;
+    }
+
+    req.principal = {
+      id: entry.id,
+      name: entry.name,
+      rateLimitPerMinute: entry.rateLimitPerMinute ?? settings.rateLimitPerMinute,
+      dailyTokenQuota: entry.dailyTokenQuota ?? settings.dailyTokenQuota,
+    };
+    next();
+  };
+}
+
+/**
+ * APIキーごとの1分あたりのリクエスト数の制限（認証されていないリクエストは対象外）
+ */
+export function keyRateLimiter(settings: ServerAuthSettings): RequestHandler {
+  return rateLimit({
+    windowMs: 60 * 1000,
+    limit: (req: Request) => req.principal?.rateLimitPerMinute ?? settings.rateLimitPerMinute,
+    standardHeaders: 'draft-8',
+    legacyHeaders: false,
+    identifier: 'api-key',
+    keyGenerator: (req: Request) => `key_${req.principal?.id ?? 'anonymous'}`,
+    skip: (req: Request) => !req.principal,
+    handler: (req: Request, res: Response) => {
+      res.status(429).json({
+        error: 'rate_limited',
+        message: `Rate limit exceeded for API key ${req.principal?.id ?? 'unknown'}`,
+        retryAfter: 60
+      });
+    }
+  });
+}
+
+/**
+ * 当日のトークン使用量が上限に達したキーのリクエストを 429 で拒否する
+ * トークンを消費するエンドポイント（/chat・POST /workflows）に適用する
+ */
+export function requireTokenQuota(quotas: TokenQuotaTracker): RequestHandler {
+  return (req, res, next) => {
+    const principal = req.principal;
+    if (principal && quotas.isExceeded(principal.id, principal.dailyTokenQuota)) {
+      res.status(429).json({
+        error: 'quota_exceeded',
+        message: `Daily token quota exceeded for API key ${principal.id}`,
+        used: quotas.used(principal.id),
+        quota: principal.dailyTokenQuota
+      });
+      return;
+    }
+    next();
+  };
+}
@@ -1,5 +1,6 @@
 import { run } from '@openai/agents';
 import { triageAgent } from '../agent/triage.js';
+import { configureAgent } from '../agent/agentSettings.js';
 import { getConfig } from '../utils/config.js';
 import { logger } from '../utils/logger.js';
 
@@ -15,7 +16,7 @@ export async function cliRunner({ project, task }: { project: string; task: stri
       modelName: config.agent.model.model 
     });
 
-    const result = await run(triageAgent, task, {
+    const result = await run(configureAgent(triageAgent), task, {
       maxTurns: config.env.maxTurns
     });
     
@@ -0,0 +1,244 @@
+// src/runners/openapi.ts - サーバーの OpenAPI 3.1 ドキュメント
+import type { z } from 'zod';
+import { zodToJsonSchema } from 'zod-to-json-schema';
+import { ProjectContextSchema } from '../agent/workflow/ProjectContext.js';
+import { ChatSessionSchema } from '../utils/chatSessions.js';
+import {
+  ApprovalDecisionRequest,
+  ApprovalDecisionResponse,
+  ApprovalListResponse,
+  AttemptDiffResponse,
+  ChatRequest,
+  ChatResponse,
+  ChatStreamRequest,
+  DiffQuery,
+  ErrorResponse,
+  HealthResponse,
+  LastEventId,
+  ValidationErrorResponse,
+  WorkflowHistoryResponse,
+  WorkflowJobSummary,
+  WorkflowListQuery,
+  WorkflowListResponse,
+  WorkflowRequest,
+} from './apiSchemas.js';
+
+type JsonObject = Record<string, unknown>;
+
+export interface OpenApiDocument {
+  openapi: '3.1.0';
+  info: { title: string; version: string; description?: string };
+  paths: Record<string, Record<string, JsonObject>>;
+  components: {
+    schemas: Record<string, JsonObject>;
+    responses: Record<string, JsonObject>;
+    securitySchemes?: Record<string, JsonObject>;
+  };
+  security?: Record<string, string[]>[];
+}
+
+// components.schemas に登録するスキーマ
+const SCHEMAS: Record<string, z.ZodType> = {
+  ChatRequest,
+  ChatResponse,
+  ChatStreamRequest,
+  ChatSession: ChatSessionSchema,
+  WorkflowRequest,
+  WorkflowJobSummary,
+  WorkflowListResponse,
+  ProjectContext: ProjectContextSchema,
+  WorkflowHistoryResponse,
+  AttemptDiffResponse,
+  ApprovalListResponse,
+  ApprovalDecisionRequest,
+  ApprovalDecisionResponse,
+  HealthResponse,
+  ErrorResponse,
+  ValidationErrorResponse,
+};
+
+// components.responses に登録するエラーレスポンス
+const ERROR_RESPONSES = {
+  InvalidRequest: { status: '400', schema: 'ValidationErrorResponse', description: 'Invalid request (`invalid_request`)' },
+  Unauthorized: { status: '401', schema: 'ErrorResponse', description: 'Missing or unknown API key (`unauthorized`)' },
+  Forbidden: { status: '403', schema: 'ErrorResponse', description: 'Disabled API key (`forbidden`)' },
+  NotFound: { status: '404', schema: 'ErrorResponse', description: 'Resource not found (`not_found`)' },
+  Conflict: { status: '409', schema: 'ErrorResponse', description: 'Resource state does not allow the operation (`conflict`)' },
+  GuardrailTriggered: { status: '422', schema: 'ErrorResponse', description: 'Blocked by a guardrail (`input_guardrail` / `output_guardrail`)' },
+  RateLimited: { status: '429', schema: 'ErrorResponse', description: 'Rate limit or daily token quota exceeded (`rate_limited` / `quota_exceeded`)' },
+  InternalError: { status: '500', schema: 'ErrorResponse', description: 'Unexpected error (`internal_error`)' },
+} as const;
+
+type ErrorResponseName = keyof typeof ERROR_RESPONSES;
+
+/**
+ * zod スキーマを OpenAPI 3.1（JSON Schema）のスキーマに変換
+ * 日付は ISO 8601 文字列として、変換・前処理を含むスキーマは入力側の形で表す
+ */
+export function toOpenApiSchema(schema: z.ZodType): JsonObject {
+  const { $schema: _ignored, ...jsonSchema } = zodToJsonSchema(schema, {
+    target: 'jsonSchema7',
+    $refStrategy: 'none',
+    dateStrategy: 'format:date-time',
+    effectStrategy: 'input',
+  }) as JsonObject;
+  return jsonSchema;
+}
+
+const ref = (name: string) => ({ $ref: `#/components/schemas/${name}` });
+
+const jsonBody = (schema: string, description: string) => ({
+  description,
+  content: { 'application/json': { schema: ref(schema) } },
+});
+
+const eventStream = (description: string) => ({
+  description,
+  content: { 'text/event-stream': { schema: { type: 'string' } } },
+});
+
+// zod のオブジェクトスキーマの各プロパティをクエリパラメーターに変換
+function queryParameters(schema: z.ZodType): JsonObject[] {
+  const { properties = {}, required = [] } = toOpenApiSchema(schema) as { properties?: Record<string, JsonObject>; required?: string[] };
+  return Object.entries(properties).map(([name, property]) => ({
+    name,
+    in: 'query',
+    required: required.includes(name),
+    schema: property,
+  }));
+}
+
+const idParameter = (name: string) => ({ name, in: 'path', required: true, schema: { type: 'string', pattern: '^[A-Za-z0-9_-]+$' } });
+
+/**
+ * サーバーの全エンドポイントとエラーレスポンスを記述した OpenAPI 3.1 ドキュメントを作成
+ * authEnabled の場合は APIキーの認証方式と 401 / 403 を含める
+ */
+export function buildOpenApiDocument(options: { authEnabled?: boolean } = {}): OpenApiDocument {
+  const authEnabled = options.authEnabled ?? false;
+
+  // 認証・レート制限・予期しないエラーはすべての認証対象のエンドポイントで発生しうる
+  const commonErrors: ErrorResponseName[] = authEnabled
+    ? ['Unauthorized', 'Forbidden', 'RateLimited', 'InternalError']
+    : ['RateLimited', 'InternalError'];
+
+  const operation = (
+    summary: string,
+    responses: JsonObject,
+    errors: ErrorResponseName[],
+    extra: JsonObject = {}
+  ): JsonObject => ({
+    summary,
+    ...extra,
+    responses: {
+      ...responses,
+      ...Object.fromEntries([...errors, ...commonErrors].map(name => [
+        ERROR_RESPONSES[name].status,
+        { $ref: `#/components/responses/${name}` },
+      ])),
+    },
+  });
+
+  const requestBody = (schema: string) => ({
+    requestBody: { required: true, content: { 'application/json': { schema: ref(schema) } } },
+  });
+
+  const idParameters = { parameters: [idParameter('id')] };
+
+  return {
+    openapi: '3.1.0',
+    info: {
+      title: 'Strong Agent API',
+      version: '1.0.0',
+      description: 'Triage chat and background agent workflows. Every error response uses the `{ "error": "<code>", "message": "..." }` envelope.',
+    },
+    paths: {
+      '/health': {
+        get: { summary: 'Health check', security: [], responses: { 200: jsonBody('HealthResponse', 'Server is running') } },
+      },
+      '/openapi.json': {
+        get: {
+          summary: 'This OpenAPI document',
+          security: [],
+          responses: { 200: { description: 'OpenAPI 3.1 document', content: { 'application/json': { schema: { type: 'object' } } } } },
+        },
+      },
+      '/chat': {
+        post: operation('Run the triage agent (continues the conversation when sessionId is given)', {
+          200: jsonBody('ChatResponse', 'Final output of the run and the session to continue'),
+        }, ['InvalidRequest', 'NotFound', 'GuardrailTriggered'], requestBody('ChatRequest')),
+      },
+      '/chat/stream': {
+        post: operation('Run the triage agent and stream its output as Server-Sent Events', {
+          200: eventStream('`text_delta` / `tool_call_start` / `tool_call_end` / `handoff` events, then `done` or `error`'),
+        }, ['InvalidRequest'], requestBody('ChatStreamRequest')),
+      },
+      '/sessions/{id}': {
+        get: operation('Get a chat session', { 200: jsonBody('ChatSession', 'Turns and expiry of the session') }, ['InvalidRequest', 'NotFound'], idParameters),
+        delete: operation('Delete a chat session', { 204: { description: 'Session deleted' } }, ['InvalidRequest', 'NotFound'], idParameters),
+      },
+      '/workflows': {
+        post: operation('Queue a workflow', {
+          202: {
+            ...jsonBody('WorkflowJobSummary', 'Workflow job accepted'),
+            headers: { Location: { schema: { type: 'string' }, description: 'URL of the workflow' } },
+          },
+        }, ['InvalidRequest'], requestBody('WorkflowRequest')),
+        get: operation('List workflow jobs', { 200: jsonBody('WorkflowListResponse', 'Workflow jobs in submission order') }, ['InvalidRequest'], {
+          parameters: queryParameters(WorkflowListQuery).map(parameter => ({
+            ...parameter,
+            description: 'Comma-separated job statuses (queued, running, completed, failed, cancelled)',
+          })),
+        }),
+      },
+      '/workflows/{id}': {
+        get: operation('Get the current project context of a workflow', { 200: jsonBody('ProjectContext', 'Project context') }, ['InvalidRequest', 'NotFound'], idParameters),
+        delete: operation('Cancel a queued or running workflow', { 202: jsonBody('WorkflowJobSummary', 'Cancellation accepted') }, ['InvalidRequest', 'NotFound', 'Conflict'], idParameters),
+      },
+      '/workflows/{id}/events': {
+        get: operation('Stream workflow progress as Server-Sent Events', {
+          200: eventStream('Workflow events with sequential ids until `workflow:complete`'),
+        }, ['InvalidRequest', 'NotFound'], {
+          parameters: [
+            idParameter('id'),
+            { name: 'Last-Event-ID', in: 'header', required: false, schema: toOpenApiSchema(LastEventId), description: 'Resend events after this id' },
+          ],
+        }),
+      },
+      '/workflows/{id}/history': {
+        get: operation('Get the step history of a saved workflow', { 200: jsonBody('WorkflowHistoryResponse', 'Step attempts') }, ['InvalidRequest', 'NotFound'], idParameters),
+      },
+      '/workflows/{id}/steps/{step}/diff': {
+        get: operation('Diff two attempts of a step', { 200: jsonBody('AttemptDiffResponse', 'Changed fields') }, ['InvalidRequest', 'NotFound'], {
+          parameters: [
+            idParameter('id'),
+            { name: 'step', in: 'path', required: true, schema: { type: 'string' }, description: 'Step id or stage' },
+            ...queryParameters(DiffQuery),
+          ],
+        }),
+      },
+      '/approvals': {
+        get: operation('List pending approvals', { 200: jsonBody('ApprovalListResponse', 'Pending approvals') }, []),
+      },
+      '/approvals/{stepId}': {
+        post: operation('Approve, reject or edit the result of a step', {
+          200: jsonBody('ApprovalDecisionResponse', 'Decision recorded'),
+        }, ['InvalidRequest', 'NotFound'], { parameters: [idParameter('stepId')], ...requestBody('ApprovalDecisionRequest') }),
+      },
+    },
+    components: {
+      schemas: Object.fromEntries(Object.entries(SCHEMAS).map(([name, schema]) => [name, toOpenApiSchema(schema)])),
+      responses: Object.fromEntries(Object.entries(ERROR_RESPONSES).map(([name, { schema, description }]) => [
+        name,
+        jsonBody(schema, description),
+      ])),
+      ...(authEnabled ? {
+        securitySchemes: {
+          bearerAuth: { type: 'http', scheme: 'bearer', description: 'API key as a bearer token' },
+          apiKeyHeader: { type: 'apiKey', in: 'header', name: 'X-API-Key' },
+        },
+      } : {}),
+    },
+    ...(authEnabled ? { security: [{ bearerAuth: [] }, { apiKeyHeader: [] }] } : {}),
+  };
+}
@@ -3,6 +3,7 @@
  * - Configuration managed by unified config system
  * - Strict CORS allowlist
  * - Helmet security headers  
+ * - API key authentication with per-key rate limits and daily token quotas
  * - Rate limiting
  * - JSON size limits
  * - Structured logs with pino
@@ -15,12 +16,57 @@ import rateLimit from 'express-rate-limit';
 import pino from 'pino';
 import pinoHttp from 'pino-http';
 import crypto from 'node:crypto';
-import { z } from 'zod';
-import { run, setDefaultOpenAIKey } from '@openai/agents';
+import type { Server } from 'node:http';
+import type { Agent } from '@openai/agents';
+import { setDefaultOpenAIKey } from '@openai/agents';
 import { triageAgent } from '../agent/triage.js';
+import { configureAgent, getAgentSettings } from '../agent/agentSettings.js';
 import { getConfig } from '../utils/config.js';
+import type { ContextStore } from '../agent/workflow/ContextStore.js';
+import { JsonFileContextStore } from '../agent/workflow/ContextStore.js';
+import { StepHistoryError, diffStepAttempts, findStep, getWorkflowHistory } from '../agent/workflow/history.js';
+import { ApprovalNotFoundError, ApprovalQueue } from '../agent/workflow/ApprovalQueue.js';
+import type { WorkflowJob } from '../agent/workflow/WorkflowJobQueue.js';
+import { WorkflowJobNotFoundError, WorkflowJobQueue, WorkflowJobStateError } from '../agent/workflow/WorkflowJobQueue.js';
+import { workflowConfigFromSettings } from './workflowRunner.js';
+import { openEventStream } from './sse.js';
+import { extractUsage, streamAgent } from '../utils/agentRunner.js';
+import { classifyAgentError } from '../utils/agentErrors.js';
+import { ApiKeyStore, TokenQuotaTracker } from '../utils/apiKeys.js';
+import { authenticate, keyRateLimiter, requireTokenQuota } from './auth.js';
+import type { ChatSession } from '../utils/chatSessions.js';
+import { ChatSessions, createChatSessionStore } from '../utils/chatSessions.js';
+import { getSharedRunner } from '../utils/sharedRunner.js';
+import {
+  ApprovalDecisionRequest,
+  ChatRequest,
+  ChatStreamRequest,
+  DiffQuery,
+  LastEventId,
+  SessionParams,
+  WorkflowListQuery,
+  WorkflowParams,
+  WorkflowRequest,
+} from './apiSchemas.js';
+import { buildOpenApiDocument } from './openapi.js';
+
+export interface ServerOptions {
+  // ワークフロー履歴の参照先（未指定時は JSON ファイルストア）
+  contextStore?: ContextStore;
+  // 同じプロセスで実行されるワークフローと共有する承認待ちキュー
+  approvals?: ApprovalQueue;
+  // POST /workflows で登録したワークフローの実行キュー（未指定時は contextStore・approvals を使用して作成）
+  jobs?: WorkflowJobQueue;
+  // 認証に使用するAPIキー（未指定時は server.auth の keys と keysFile から読み込む）
+  apiKeys?: ApiKeyStore;
+  // キーごとのトークン使用量（未指定時はサーバーごとに作成）
+  quotas?: TokenQuotaTracker;
+  // POST /chat の会話セッション（未指定時は server.chatSessions の設定で作成）
+  // 失効したセッションの定期削除（startPruning）は待ち受けを開始する側で行う
+  chatSessions?: ChatSessions;
+}
 
-export function createServer() {
+export function createServer(options: ServerOptions = {}) {
   // 統合設定システムから設定を読み込み
   const config = getConfig();
 
@@ -71,8 +117,8 @@ export function createServer() {
       }
     },
     credentials: true, // 認証情報を含むリクエストを許可
-    allowedHeaders: ['Content-Type', 'Authorization', 'X-Requested-With'],
-    methods: ['GET', 'POST', 'OPTIONS'],
+    allowedHeaders: ['Content-Type', 'Authorization', 'X-Requested-With', 'Last-Event-ID'],
+    methods: ['GET', 'POST', 'DELETE', 'OPTIONS'],
     maxAge: 600, // プリフライトキャッシュ時間
     // レガシーブラウザ対応
     optionsSuccessStatus: 200
@@ -89,7 +135,8 @@ export function createServer() {
     legacyHeaders: false,
     identifier: 'global-api', // draft-8 quota policy identifier
     message: {
-      error: 'Too many requests from this IP, please try again later.',
+      error: 'rate_limited',
+      message: 'Too many requests from this IP, please try again later.',
       retryAfter: Math.ceil(config.env.rateLimitWindowMs / 1000)
     },
     // カスタムキー生成 (IP + User-Agent でより厳密に)
@@ -119,44 +166,87 @@ export function createServer() {
       // eslint-disable-next-line @typescript-eslint/no-unnecessary-condition
       logger.warn(`API rate limit exceeded for ${req.ip ?? 'unknown'} on ${req.path ?? 'unknown'}`);
       res.status(429).json({
-        error: 'Too many API requests',
-        message: 'Please wait before making more requests',
+        error: 'rate_limited',
+        message: 'Too many API requests. Please wait before making more requests',
         retryAfter: 60,
         path: req.path
       });
     }
   });
 
-  // 🔥 認証エンドポイント用の最も厳格な制限
-  const _authLimiter = rateLimit({
+  // 🔥 認証失敗（401）の回数の制限 - APIキーの総当たり対策
+  const authLimiter = rateLimit({
     windowMs: 15 * 60 * 1000, // 15分間
     max: isProduction ? 5 : 20, // 本番: 5回, 開発: 20回
     standardHeaders: 'draft-8',
     legacyHeaders: false,
     identifier: 'authentication', // 認証専用識別子
     message: {
-      error: 'Too many authentication requests. Please wait before retrying.',
-      type: 'AUTH_RATE_LIMIT_EXCEEDED',
+      error: 'rate_limited',
+      message: 'Too many authentication requests. Please wait before retrying.',
       retryAfter: 900 // 15分
     },
     keyGenerator: (req) => {
       return `auth_${req.ip ?? 'unknown'}`;
     },
+    // 認証に失敗したリクエストのみ数える
+    skipSuccessfulRequests: true,
+    requestWasSuccessful: (_req, res) => res.statusCode !== 401,
     handler: (req, res) => {
       logger.warn(`Authentication rate limit exceeded for ${req.ip ?? 'unknown'}`);
       res.status(429).json({
-        error: 'Too many authentication attempts',
-        message: 'Please wait 15 minutes before trying again',
+        error: 'rate_limited',
+        message: 'Too many authentication attempts. Please wait 15 minutes before trying again',
         retryAfter: 900
       });
     }
   });
 
-  const ChatRequest = z.object({
-    input: z.string().min(1).max(1000),
-    maxTurns: z.number().int().min(1).max(20).optional(),
+  const auth = config.server.auth;
+  const apiKeys = options.apiKeys ?? (auth.enabled ? ApiKeyStore.load(auth) : new ApiKeyStore([]));
+  const quotas = options.quotas ?? new TokenQuotaTracker();
+  const tokenQuota = requireTokenQuota(quotas);
+  if (!auth.enabled && isProduction) {
+    logger.warn('API key authentication is disabled (set server.auth.enabled or SERVER_AUTH_ENABLED=true)');
+  } else if (auth.enabled && apiKeys.size === 0) {
+    logger.warn(`API key authentication is enabled but no keys are registered (${auth.keysFile})`);
+  }
+
+  // 認証済みのキーのトークン使用量を加算する
+  const recordTokens = (req: express.Request, tokens: number | undefined) => {
+    if (req.principal && tokens) quotas.record(req.principal.id, tokens);
+  };
+
+  const chatSessions = options.chatSessions ?? new ChatSessions(
+    createChatSessionStore(config.server.chatSessions),
+    config.server.chatSessions
+  );
+
+  // 有効期間内で、同じAPIキーが作成したセッション（他のキーのセッションは存在しないものとして扱う）
+  const loadChatSession = async (req: express.Request, sessionId: string): Promise<ChatSession | null> => {
+    const session = await chatSessions.get(sessionId);
+    return session && session.principalId === req.principal?.id ? session : null;
+  };
+
+  const contextStore = options.contextStore ?? new JsonFileContextStore();
+  const approvals = options.approvals ?? new ApprovalQueue();
+  const jobs = options.jobs ?? new WorkflowJobQueue({
+    concurrency: config.server.maxConcurrentWorkflows,
+    config: { contextStore },
+    approvalHandler: approvals.handler
   });
 
+  // 同じAPIキーが登録したワークフロー（他のキーのワークフローは存在しないものとして扱う）
+  // キューから外れたワークフローは登録したキーが分からないため、認証が無効な場合のみ参照できる
+  const ownsWorkflow = (req: express.Request, workflowId: string): boolean =>
+    jobs.get(workflowId)?.principalId === req.principal?.id;
+
+  // ジョブの一覧・登録時に返す要約（ワークフロー自体の状態と現在の段階を含む）
+  const summarizeJob = (job: WorkflowJob) => {
+    const context = jobs.getContext(job.id);
+    return { ...job, workflowStatus: context?.status, currentStage: context?.currentStage };
+  };
+
   const app = express();
 
   // 🔒 Production Security Configuration
@@ -242,6 +332,13 @@ export function createServer() {
 
   // セキュリティエラーハンドリング
   const securityErrorHandler = (err: Error, req: express.Request, res: express.Response, _next: express.NextFunction) => {
+    // 不正なJSON・サイズ超過など、body-parser が status を付けたクライアントエラー
+    const status = (err as { status?: number }).status;
+    if (status !== undefined && status >= 400 && status < 500) {
+      res.status(status).json({ error: 'invalid_request', message: err.message });
+      return;
+    }
+
     logger.error(`Security error: ${err.message}`);
 
     // セキュリティエラーの詳細を本番環境では隠蔽
@@ -250,7 +347,8 @@ export function createServer() {
       : err.message;
 
     res.status(500).json({
-      error: message,
+      error: 'internal_error',
+      message,
       timestamp: new Date().toISOString()
     });
   };
@@ -292,30 +390,303 @@ export function createServer() {
 
   app.get('/health', (_req, res) => res.status(200).json({ status: 'ok' }));
 
+  // API の仕様（OpenAPI 3.1）。認証不要
+  const openApiDocument = buildOpenApiDocument({ authEnabled: auth.enabled });
+  app.get('/openapi.json', (_req, res) => res.status(200).json(openApiDocument));
+
+  // /health 以外のエンドポイントは APIキーで認証する（server.auth.enabled が false の場合は認証しない）
+  if (auth.enabled) {
+    app.use(authLimiter);
+  }
+  app.use(authenticate(auth, apiKeys), keyRateLimiter(auth));
+
   // API エンドポイントに厳格なレート制限を適用
-  app.post('/chat', apiLimiter, async (req, res) => {
+  app.post('/chat', apiLimiter, tokenQuota, async (req, res) => {
     const parsed = ChatRequest.safeParse(req.body);
     if (!parsed.success) {
       return res.status(400).json({ error: 'invalid_request', details: parsed.error.flatten() });
     }
 
+    const { input, maxTurns, sessionId } = parsed.data;
+    const session = sessionId ? await loadChatSession(req, sessionId) : chatSessions.create(req.principal?.id);
+    if (!session) {
+      return res.status(404).json({ error: 'not_found', message: `Chat session not found: ${sessionId ?? ''}` });
+    }
+
     try {
-      const { input, maxTurns } = parsed.data;
-      const result = await run(triageAgent, input, {
-        maxTurns: maxTurns ?? config.env.maxTurns,
+      // セッションのこれまでの会話に今回の発言を加えて実行する
+      const runInput = chatSessions.buildInput(session, input);
+      const result = await getSharedRunner('Triage').run(configureAgent(triageAgent), runInput, {
+        maxTurns: maxTurns ?? getAgentSettings('Triage').maxTurns ?? config.env.maxTurns,
       });
-      return res.status(200).json({ finalOutput: result.finalOutput });
+      recordTokens(req, extractUsage(result)?.totalTokens);
+      const updated = await chatSessions.appendTurn(session, {
+        input,
+        output: result.finalOutput,
+        items: result.history.slice(runInput.length - 1) as unknown as Record<string, unknown>[],
+      });
+      return res.status(200).json({ sessionId: updated.id, finalOutput: result.finalOutput });
     } catch (err: unknown) {
-      const error = err as { name?: string; message?: string };
-      const name = error.name ?? 'Error';
-      if (name === 'InputGuardrailTripwireTriggered') {
-        return res.status(422).json({ error: 'input_guardrail', message: error.message ?? 'blocked' });
+      // SDK のエラークラスは name を設定しないため、分類結果のエラー種別で判定する
+      const error = classifyAgentError(err);
+      if (error.errorType === 'InputGuardrailTripwireTriggered') {
+        return res.status(422).json({ error: 'input_guardrail', message: error.message || 'blocked' });
+      }
+      if (error.errorType === 'OutputGuardrailTripwireTriggered') {
+        return res.status(422).json({ error: 'output_guardrail', message: error.message || 'blocked' });
+      }
+      return res.status(500).json({ error: 'internal_error', message: error.message });
+    }
+  });
+
+  // /chat のストリーミング版（テキスト・ツール呼び出し・ハンドオフを SSE で逐次配信し、最後に done または error を送る）
+  app.post('/chat/stream', apiLimiter, tokenQuota, async (req, res) => {
+    const parsed = ChatStreamRequest.safeParse(req.body);
+    if (!parsed.success) {
+      return res.status(400).json({ error: 'invalid_request', details: parsed.error.flatten() });
+    }
+
+    // クライアントが切断したらエージェントの実行を中断する
+    const abortController = new AbortController();
+    res.on('close', () => { abortController.abort(); });
+
+    const stream = openEventStream(res);
+    const { input, maxTurns } = parsed.data;
+    const events = streamAgent(triageAgent as unknown as Agent, input, {
+      maxTurns: maxTurns ?? getAgentSettings('Triage').maxTurns ?? config.env.maxTurns,
+      signal: abortController.signal,
+    });
+
+    try {
+      let next = await events.next();
+      while (!next.done) {
+        stream.send(next.value.type, next.value);
+        next = await events.next();
       }
-      if (name === 'OutputGuardrailTripwireTriggered') {
-        return res.status(422).json({ error: 'output_guardrail', message: error.message ?? 'blocked' });
+
+      const result = next.value;
+      recordTokens(req, result.metadata?.usage?.totalTokens);
+      if (result.success) {
+        stream.send('done', { finalOutput: result.data });
+      } else {
+        const errorType = result.metadata?.errorType;
+        const error = errorType === 'InputGuardrailTripwireTriggered'
+          ? 'input_guardrail'
+          : errorType === 'OutputGuardrailTripwireTriggered' ? 'output_guardrail' : 'internal_error';
+        stream.send('error', { error, message: result.error ?? 'Agent execution failed' });
       }
-      return res.status(500).json({ error: 'internal_error', message: error.message ?? String(err) });
+    } catch (err: unknown) {
+      // ヘッダー送信後はエラーハンドラーで JSON を返せないため、error イベントとして送って終了する
+      const message = err instanceof Error ? err.message : String(err);
+      logger.error(`Chat stream failed: ${message}`);
+      stream.send('error', { error: 'internal_error', message });
+    } finally {
+      stream.close();
+    }
+  });
+
+  // 会話セッションの履歴と有効期限
+  app.get('/sessions/:id', apiLimiter, async (req, res) => {
+    const params = SessionParams.safeParse(req.params);
+    if (!params.success) {
+      return res.status(400).json({ error: 'invalid_request', details: params.error.flatten() });
+    }
+
+    const session = await loadChatSession(req, params.data.id);
+    if (!session) {
+      return res.status(404).json({ error: 'not_found', message: `Chat session not found: ${params.data.id}` });
+    }
+    return res.status(200).json(session);
+  });
+
+  // 会話セッションを終了して履歴を削除
+  app.delete('/sessions/:id', apiLimiter, async (req, res) => {
+    const params = SessionParams.safeParse(req.params);
+    if (!params.success) {
+      return res.status(400).json({ error: 'invalid_request', details: params.error.flatten() });
+    }
+
+    if (!await loadChatSession(req, params.data.id)) {
+      return res.status(404).json({ error: 'not_found', message: `Chat session not found: ${params.data.id}` });
+    }
+    await chatSessions.delete(params.data.id);
+    return res.status(204).end();
+  });
+
+  // ワークフローをバックグラウンドで実行（完了を待たずにジョブIDを返す）
+  app.post('/workflows', apiLimiter, tokenQuota, (req, res) => {
+    const parsed = WorkflowRequest.safeParse(req.body);
+    if (!parsed.success) {
+      return res.status(400).json({ error: 'invalid_request', details: parsed.error.flatten() });
+    }
+
+    const { request, pipeline, requireApproval, maxIterations } = parsed.data;
+    let settings;
+    try {
+      settings = workflowConfigFromSettings(config, pipeline);
+    } catch (err: unknown) {
+      return res.status(400).json({ error: 'invalid_request', message: err instanceof Error ? err.message : String(err) });
+    }
+
+    const job = jobs.submit(request, { ...settings, requireApproval: requireApproval ?? false, maxIterations }, req.principal?.id);
+    // ワークフローのトークン使用量は終了時に加算する
+    void jobs.wait(job.id).then(finished => { recordTokens(req, finished.usage?.totalTokens); });
+    return res.status(202).location(`/workflows/${job.id}`).json(summarizeJob(job));
+  });
+
+  // ワークフロージョブの一覧（status で絞り込み）
+  app.get('/workflows', apiLimiter, (req, res) => {
+    const query = WorkflowListQuery.safeParse(req.query);
+    if (!query.success) {
+      return res.status(400).json({ error: 'invalid_request', details: query.error.flatten() });
     }
+    const workflows = jobs.list({ status: query.data.status }).filter(job => job.principalId === req.principal?.id);
+    return res.status(200).json({ workflows: workflows.map(summarizeJob) });
+  });
+
+  // ワークフローの現在の ProjectContext（キューにないものは保存済みのコンテキストを返す）
+  app.get('/workflows/:id', apiLimiter, async (req, res) => {
+    const params = WorkflowParams.safeParse(req.params);
+    if (!params.success) {
+      return res.status(400).json({ error: 'invalid_request', details: params.error.flatten() });
+    }
+
+    const context = ownsWorkflow(req, params.data.id)
+      ? jobs.getContext(params.data.id) ?? await contextStore.load(params.data.id)
+      : null;
+    if (!context) {
+      return res.status(404).json({ error: 'not_found', message: `Workflow not found: ${params.data.id}` });
+    }
+    return res.status(200).json(context);
+  });
+
+  // 実行待ち・実行中のワークフローをキャンセル
+  app.delete('/workflows/:id', apiLimiter, (req, res) => {
+    const params = WorkflowParams.safeParse(req.params);
+    if (!params.success) {
+      return res.status(400).json({ error: 'invalid_request', details: params.error.flatten() });
+    }
+
+    if (!ownsWorkflow(req, params.data.id)) {
+      return res.status(404).json({ error: 'not_found', message: `Workflow job not found: ${params.data.id}` });
+    }
+
+    try {
+      const job = jobs.cancel(params.data.id, 'Cancelled via API');
+      return res.status(202).json(summarizeJob(job));
+    } catch (err: unknown) {
+      if (err instanceof WorkflowJobNotFoundError) {
+        return res.status(404).json({ error: 'not_found', message: err.message });
+      }
+      if (err instanceof WorkflowJobStateError) {
+        return res.status(409).json({ error: 'conflict', message: err.message });
+      }
+      throw err;
+    }
+  });
+
+  // ワークフローの進捗を Server-Sent Events で配信（Last-Event-ID 以降のイベントから再開できる）
+  app.get('/workflows/:id/events', apiLimiter, (req, res) => {
+    const params = WorkflowParams.safeParse(req.params);
+    const lastEventId = LastEventId.safeParse(req.get('Last-Event-ID'));
+    if (!params.success || !lastEventId.success) {
+      const error = params.success ? lastEventId.error : params.error;
+      return res.status(400).json({ error: 'invalid_request', details: error?.flatten() });
+    }
+
+    const log = ownsWorkflow(req, params.data.id) ? jobs.getEventLog(params.data.id) : undefined;
+    if (!log) {
+      return res.status(404).json({ error: 'not_found', message: `Workflow job not found: ${params.data.id}` });
+    }
+
+    const stream = openEventStream(res);
+    for (const event of log.since(lastEventId.data)) {
+      stream.send(event.event, event.data, event.id);
+    }
+    if (log.isFinished()) {
+      stream.close();
+      return;
+    }
+
+    // ワークフローの完了を配信したら接続を閉じる
+    const unsubscribe = log.subscribe(event => {
+      stream.send(event.event, event.data, event.id);
+      if (event.event === 'workflow:complete') stream.close();
+    });
+    res.on('close', unsubscribe);
+  });
+
+  // ワークフローのステップ実行履歴
+  app.get('/workflows/:id/history', apiLimiter, async (req, res) => {
+    const params = WorkflowParams.safeParse(req.params);
+    if (!params.success) {
+      return res.status(400).json({ error: 'invalid_request', details: params.error.flatten() });
+    }
+
+    const context = ownsWorkflow(req, params.data.id) ? await contextStore.load(params.data.id) : null;
+    if (!context) {
+      return res.status(404).json({ error: 'not_found', message: `Workflow not found: ${params.data.id}` });
+    }
+    return res.status(200).json({ id: context.id, iterationCount: context.iterationCount, steps: getWorkflowHistory(context) });
+  });
+
+  // ステップの2つの実行記録（反復番号または実行番号で指定）の結果の差分
+  app.get('/workflows/:id/steps/:step/diff', apiLimiter, async (req, res) => {
+    const params = WorkflowParams.safeParse(req.params);
+    const query = DiffQuery.safeParse(req.query);
+    if (!params.success || !query.success) {
+      const error = params.success ? query.error : params.error;
+      return res.status(400).json({ error: 'invalid_request', details: error?.flatten() });
+    }
+
+    const context = ownsWorkflow(req, params.data.id) ? await contextStore.load(params.data.id) : null;
+    if (!context) {
+      return res.status(404).json({ error: 'not_found', message: `Workflow not found: ${params.data.id}` });
+    }
+
+    try {
+      const { from, to, by } = query.data;
+      const step = findStep(context, req.params.step);
+      const diff = diffStepAttempts(step, { [by]: from }, { [by]: to });
+      return res.status(200).json(diff);
+    } catch (err: unknown) {
+      if (err instanceof StepHistoryError) {
+        return res.status(404).json({ error: 'not_found', message: err.message });
+      }
+      throw err;
+    }
+  });
+
+  // 人の判断を待っている承認リクエスト（同じAPIキーが登録したワークフローのもののみ）
+  app.get('/approvals', apiLimiter, (req, res) => {
+    return res.status(200).json({ approvals: approvals.list().filter(approval => ownsWorkflow(req, approval.projectId)) });
+  });
+
+  // 承認 / 却下 / 編集して承認（result を指定）
+  app.post('/approvals/:stepId', apiLimiter, (req, res) => {
+    const parsed = ApprovalDecisionRequest.safeParse(req.body);
+    if (!parsed.success) {
+      return res.status(400).json({ error: 'invalid_request', details: parsed.error.flatten() });
+    }
+
+    try {
+      const approval = approvals.get(req.params.stepId);
+      if (approval && !ownsWorkflow(req, approval.projectId)) {
+        throw new ApprovalNotFoundError(req.params.stepId);
+      }
+      approvals.decide(req.params.stepId, parsed.data);
+      return res.status(200).json({ stepId: req.params.stepId, approved: parsed.data.approved });
+    } catch (err: unknown) {
+      if (err instanceof ApprovalNotFoundError) {
+        return res.status(404).json({ error: 'not_found', message: err.message });
+      }
+      throw err;
+    }
+  });
+
+  // 未定義のエンドポイント
+  app.use((req, res) => {
+    res.status(404).json({ error: 'not_found', message: `Route not found: ${req.method} ${req.path}` });
   });
 
   // セキュリティエラーハンドラーを最後に追加
@@ -324,13 +695,21 @@ export function createServer() {
   return app;
 }
 
-export function startServer(port?: number) {
+export function startServer(port?: number): Server {
   const config = getConfig();
-  const app = createServer();
+  const chatSessions = new ChatSessions(
+    createChatSessionStore(config.server.chatSessions),
+    config.server.chatSessions
+  );
+  const app = createServer({ chatSessions });
   const serverPort = port ?? config.server.port;
 
-  app.listen(serverPort, () => {
+  const server = app.listen(serverPort, () => {
     const logger = pino({ level: config.env.logLevel });
     logger.info({ port: serverPort, allowedOrigins: config.server.cors.origins }, 'server-started');
   });
+  // 失効したセッションの定期削除は待ち受け中のみ行い、サーバーを閉じたら停止する
+  chatSessions.startPruning();
+  server.on('close', () => { chatSessions.close(); });
+  return server;
 }
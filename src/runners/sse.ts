@@ -0,0 +1,37 @@
+// src/runners/sse.ts - Server-Sent Events の送信
+import type { Response } from 'express';
+
+export interface EventStream {
+  send(event: string, data: unknown, id?: number): void;
+  close(): void;
+}
+
+/**
+ * レスポンスを text/event-stream として開く
+ * プロキシに切断されないよう keepAliveMs ごとにコメント行を送り、クライアントの切断時に停止する
+ */
+export function openEventStream(res: Response, keepAliveMs = 15000): EventStream {
+  res.status(200).set({
+    'Content-Type': 'text/event-stream; charset=utf-8',
+    'Cache-Control': 'no-cache, no-transform',
+    Connection: 'keep-alive',
+    // nginx のレスポンスバッファリングを無効化
+    'X-Accel-Buffering': 'no',
+  });
+  res.flushHeaders();
+
+  const keepAlive = setInterval(() => { res.write(': keep-alive\n\n'); }, keepAliveMs);
+  res.on('close', () => { clearInterval(keepAlive); });
+
+  return {
+    send(event, data, id) {
+      if (res.writableEnded) return;
+      const idLine = id === undefined ? '' : `id: ${id.toString()}\n`;
+      res.write(`${idLine}event: ${event}\ndata: ${JSON.stringify(data)}\n\n`);
+    },
+    close() {
+      clearInterval(keepAlive);
+      if (!res.writableEnded) res.end();
+    }
+  };
+}
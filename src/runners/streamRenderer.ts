@@ -0,0 +1,69 @@
+// src/runners/streamRenderer.ts - エージェントのストリーミング出力のCLI表示
+import type { AgentStreamEvent } from '../utils/agentRunner.js';
+
+export interface StreamRendererOptions {
+  output?: NodeJS.WritableStream;
+  // ツールの引数・結果を表示する最大文字数
+  maxToolText?: number;
+}
+
+export interface StreamRenderer {
+  // label を指定した場合（並行実行中の段階名など）、切り替わったときに行を改めて [label] を付ける
+  render(event: AgentStreamEvent, label?: string): void;
+  // テキストの途中で止まっている行を改行で終える
+  endLine(): void;
+}
+
+/**
+ * AgentStreamEvent を逐次表示するレンダラーを作成
+ * テキストは届いた順に続けて書き出し、ツール呼び出し・ハンドオフは1行ずつ表示する
+ */
+export function createStreamRenderer(options: StreamRendererOptions = {}): StreamRenderer {
+  const output = options.output ?? process.stdout;
+  const maxToolText = options.maxToolText ?? 120;
+  let lastLabel: string | undefined;
+  let midLine = false;
+
+  const endLine = () => {
+    if (!midLine) return;
+    output.write('\n');
+    midLine = false;
+  };
+
+  const writeLine = (label: string | undefined, line: string) => {
+    endLine();
+    output.write(`${label ? `[${label}] ` : ''}${line}\n`);
+  };
+
+  return {
+    render(event, label) {
+      if (label !== lastLabel) {
+        endLine();
+        lastLabel = label;
+      }
+
+      switch (event.type) {
+        case 'text_delta':
+          if (!midLine && label) output.write(`[${label}] `);
+          output.write(event.delta);
+          midLine = !event.delta.endsWith('\n');
+          return;
+        case 'tool_call_start':
+          writeLine(label, `🔧 ${event.agent}: ${event.tool}(${summarize(event.arguments ?? '', maxToolText)})`);
+          return;
+        case 'tool_call_end':
+          writeLine(label, `   ↳ ${event.tool}: ${summarize(event.output, maxToolText)}`);
+          return;
+        case 'handoff':
+          writeLine(label, `⇢ ${event.from} → ${event.to}`);
+          return;
+      }
+    },
+    endLine
+  };
+}
+
+function summarize(text: string, maxLength: number): string {
+  const singleLine = text.replace(/\s+/g, ' ').trim();
+  return singleLine.length > maxLength ? `${singleLine.slice(0, maxLength)}…` : singleLine;
+}
@@ -1,64 +1,87 @@
 // src/runners/workflowRunner.ts
 import type { WorkflowConfig, ApprovalHandler } from '../agent/workflow/WorkflowOrchestrator.js';
 import { WorkflowOrchestrator } from '../agent/workflow/WorkflowOrchestrator.js';
-import type { ProjectContext, WorkflowStage } from '../agent/workflow/ProjectContext.js';
-import { getConfig } from '../utils/config.js';
+import type { ProjectContext, WorkflowStage, WorkflowStep } from '../agent/workflow/ProjectContext.js';
+import { WorkflowEventBus } from '../agent/workflow/WorkflowEvents.js';
+import { JsonFileContextStore } from '../agent/workflow/ContextStore.js';
+import type { AttemptDiff } from '../agent/workflow/history.js';
+import { diffStepAttempts, findStep, getWorkflowHistory } from '../agent/workflow/history.js';
+import type { WorkflowBudget } from '../agent/workflow/budget.js';
+import { withAgentMaxTurns } from '../agent/workflow/runPolicy.js';
+import type { AgentCassette } from '../utils/agentCassette.js';
+import { AgentResponseCache } from '../utils/agentCache.js';
+import type { Config } from '../utils/config.js';
+import { configManager, getConfig } from '../utils/config.js';
+import { createTerminalApprovalHandler } from './approvalPrompt.js';
+import { createStreamRenderer } from './streamRenderer.js';
 import { logger } from '../utils/logger.js';
 
 export interface WorkflowRunnerOptions {
   project?: string;
+  pipeline?: string;
+  maxConcurrency?: number;
+  budget?: WorkflowBudget;
   maxIterations?: number;
   requireApproval?: boolean;
   autoApprove?: boolean;
+  cassette?: AgentCassette;
   onApprovalRequired?: ApprovalHandler;
   onStageComplete?: (stage: WorkflowStage, result: unknown) => Promise<void>;
   onWorkflowComplete?: (context: ProjectContext) => Promise<void>;
 }
 
+// 保存済みワークフローのステップ操作
+export type StepControl =
+  | { action: 'rerun'; step: string; input?: string }
+  | { action: 'rerun-from'; step: string; input?: string }
+  | { action: 'skip'; step: string; reason?: string };
+
+/**
+ * 設定ファイルの workflow / agents / pricing からワークフロー設定を作成
+ * pipeline 未指定時は workflow.pipeline のパイプラインを使用する
+ */
+export function workflowConfigFromSettings(config: Config, pipeline?: string): WorkflowConfig {
+  return {
+    pipeline: configManager.getPipeline(pipeline),
+    maxConcurrency: config.workflow.maxConcurrency,
+    budget: config.workflow.budget,
+    pricing: config.pricing,
+    inputLimits: config.workflow.inputLimits,
+    errorPolicies: config.workflow.errorPolicies,
+    runPolicies: withAgentMaxTurns(config.workflow.runPolicies, config.agents),
+    maxTurns: config.env.maxTurns,
+    cache: config.workflow.cache.enabled ? new AgentResponseCache(config.workflow.cache) : undefined
+  };
+}
+
 export class WorkflowRunner {
   private orchestrator?: WorkflowOrchestrator;
   private options: WorkflowRunnerOptions;
+  // オーケストレーター生成前から購読できるよう、Runner がイベントバスを所有する
+  readonly events = new WorkflowEventBus();
 
   constructor(options: WorkflowRunnerOptions = {}) {
     this.options = options;
+
+    // 既存のコールバックはイベントバス上に実装する
+    const { onStageComplete, onWorkflowComplete } = options;
+    if (onStageComplete) {
+      this.events.on('step:complete', async ({ step, result }) => {
+        await onStageComplete(step.stage, result);
+      });
+    }
+    if (onWorkflowComplete) {
+      this.events.on('workflow:complete', async ({ context }) => {
+        await onWorkflowComplete(context);
+      });
+    }
   }
 
   async executeWorkflow(request: string): Promise<ProjectContext> {
     try {
       logger.info('Starting workflow execution', { request, options: this.options });
 
-      // 設定の読み込み
-      const config = this.options.project ? getConfig(this.options.project) : undefined;
-      
-      // ワークフロー設定の構築
-      const workflowConfig: WorkflowConfig = {
-        maxTurns: config?.env.maxTurns ?? 10,
-        requireApproval: this.options.requireApproval ?? false,
-        maxIterations: this.options.maxIterations ?? 3,
-        autoApprove: this.options.autoApprove ?? false
-      };
-
-      // 承認ハンドラーの設定
-      const approvalHandler: ApprovalHandler = async (stepId, message, data, context) => {
-        if (this.options.onApprovalRequired) {
-          return await this.options.onApprovalRequired(stepId, message, data, context);
-        }
-        
-        // デフォルトの承認処理（コンソール出力）
-        console.log(`\n=== APPROVAL REQUIRED ===`);
-        console.log(`Step: ${stepId}`);
-        console.log(`Message: ${message}`);
-        console.log(`Data:`, JSON.stringify(data, null, 2));
-        console.log(`========================\n`);
-        
-        // 自動承認またはユーザー入力待ち
-        if (workflowConfig.autoApprove) {
-          return true;
-        }
-        
-        // TODO: 実際のプロダクトではここでユーザー入力を待つ
-        return true; // 暫定的に承認
-      };
+      const { workflowConfig, approvalHandler } = this.buildWorkflowConfig();
 
       // オーケストレーターの作成
       this.orchestrator = await WorkflowOrchestrator.createWorkflow(
@@ -67,20 +90,9 @@ export class WorkflowRunner {
         approvalHandler
       );
 
-      // 段階完了コールバックの設定
-      if (this.options.onStageComplete) {
-        // オーケストレーターに段階完了リスナーを追加する機能があれば使用
-        // 現在の実装では直接的な方法がないため、定期的にチェックする仕組みが必要
-      }
-
-      // ワークフローの実行
+      // ワークフローの実行（段階完了・完了コールバックはイベント経由で呼ばれる）
       const result = await this.orchestrator.executeWorkflow();
 
-      // 完了コールバックの実行
-      if (this.options.onWorkflowComplete) {
-        await this.options.onWorkflowComplete(result);
-      }
-
       logger.info('Workflow execution completed', { 
         status: result.status,
         stage: result.currentStage,
@@ -96,21 +108,115 @@ export class WorkflowRunner {
     }
   }
 
+  /**
+   * 保存済みワークフローのステップを再実行・スキップし、残りのステップを実行する
+   * 元の実行と同じ予算・入力制限・ポリシーを適用するため、project 未指定でも設定ファイルを読み込む
+   */
+  async controlWorkflow(projectId: string, control: StepControl): Promise<ProjectContext> {
+    logger.info('Controlling saved workflow', { projectId, control });
+    const { workflowConfig, approvalHandler } = this.buildWorkflowConfig(true);
+    this.orchestrator = await WorkflowOrchestrator.load(projectId, workflowConfig, approvalHandler);
+
+    switch (control.action) {
+      case 'rerun':
+        return await this.orchestrator.rerunStep(control.step, { input: control.input });
+      case 'rerun-from':
+        return await this.orchestrator.rerunFrom(control.step, { input: control.input });
+      case 'skip':
+        return await this.orchestrator.skipStep(control.step, control.reason);
+    }
+  }
+
+  private buildWorkflowConfig(
+    loadSettings = false
+  ): { workflowConfig: WorkflowConfig; approvalHandler?: ApprovalHandler } {
+    // 設定の読み込み（パイプライン指定時は ConfigManager から定義を解決）
+    const settings: WorkflowConfig = loadSettings || this.options.project || this.options.pipeline
+      ? workflowConfigFromSettings(getConfig(this.options.project), this.options.pipeline)
+      : {};
+
+    // ワークフロー設定の構築
+    const workflowConfig: WorkflowConfig = {
+      ...settings,
+      events: this.events,
+      maxConcurrency: this.options.maxConcurrency ?? settings.maxConcurrency,
+      budget: this.options.budget ?? settings.budget,
+      maxTurns: settings.maxTurns ?? 10,
+      requireApproval: this.options.requireApproval ?? false,
+      maxIterations: this.options.maxIterations ?? 3,
+      autoApprove: this.options.autoApprove ?? false,
+      cassette: this.options.cassette
+    };
+
+    // 承認ハンドラーの設定（未指定で端末から実行されている場合は対話的に確認する）
+    const approvalHandler: ApprovalHandler | undefined = this.options.onApprovalRequired
+      ?? (process.stdin.isTTY ? createTerminalApprovalHandler() : undefined);
+
+    return { workflowConfig, approvalHandler };
+  }
+
   getProgress(): ProjectContext | null {
     return this.orchestrator?.getContext() ?? null;
   }
 
+  // 実行中のワークフローの制御（executeWorkflow 開始前は何もしない）
+  cancel(reason?: string): void {
+    this.orchestrator?.cancel(reason);
+  }
+
+  pause(): void {
+    this.orchestrator?.pause();
+  }
+
+  resume(): void {
+    this.orchestrator?.resume();
+  }
+
   // 既存のCLIランナーとの互換性を保つためのヘルパーメソッド
   static async runFromCLI(options: {
     project: string;
     task: string;
+    pipeline?: string;
     requireApproval?: boolean;
     maxIterations?: number;
+    cassette?: AgentCassette;
   }): Promise<ProjectContext> {
-    const runner = new WorkflowRunner({
+    const runner = WorkflowRunner.createCLIRunner({
+      project: options.project,
+      pipeline: options.pipeline,
+      cassette: options.cassette,
+      requireApproval: options.requireApproval ?? false,
+      maxIterations: options.maxIterations ?? 3
+    });
+    return await WorkflowRunner.withSigint(runner, () => runner.executeWorkflow(options.task));
+  }
+
+  /**
+   * 保存済みワークフローのステップ操作をCLIから実行
+   */
+  static async controlFromCLI(options: {
+    project: string;
+    projectId: string;
+    control: StepControl;
+    requireApproval?: boolean;
+    maxIterations?: number;
+    cassette?: AgentCassette;
+  }): Promise<ProjectContext> {
+    const runner = WorkflowRunner.createCLIRunner({
       project: options.project,
+      cassette: options.cassette,
       requireApproval: options.requireApproval ?? false,
-      maxIterations: options.maxIterations ?? 3,
+      maxIterations: options.maxIterations ?? 3
+    });
+    return await WorkflowRunner.withSigint(runner, () => runner.controlWorkflow(options.projectId, options.control));
+  }
+
+  /**
+   * 進捗をコンソールに表示するRunnerを作成
+   */
+  private static createCLIRunner(options: WorkflowRunnerOptions): WorkflowRunner {
+    const runner = new WorkflowRunner({
+      ...options,
       onStageComplete: async (stage, result) => {
         console.log(`\n=== ${stage.toUpperCase()} COMPLETED ===`);
         console.log(JSON.stringify(result, null, 2));
@@ -124,6 +230,7 @@ export class WorkflowRunner {
         await Promise.resolve();
         console.log('Modified Files:', context.artifacts.modifiedFiles);
         console.log('Iterations:', context.iterationCount);
+        console.log(`Token usage: ${context.usage.totalTokens.toString()} tokens (~$${context.usage.costUsd.toFixed(4)})`);
         if (context.errors.length > 0) {
           console.log('Errors encountered:');
           context.errors.forEach(error => {
@@ -134,7 +241,50 @@ export class WorkflowRunner {
       }
     });
 
-    return await runner.executeWorkflow(options.task);
+    // 進捗表示（段階ごとの進捗行と、エージェントの出力のライブ表示）
+    const renderer = createStreamRenderer();
+    const position = (step: WorkflowStep, context: ProjectContext) =>
+      `[${(context.workflow.findIndex(s => s.id === step.id) + 1).toString()}/${context.workflow.length.toString()}]`;
+    runner.events.on('step:start', ({ step, context }) => {
+      renderer.endLine();
+      console.log(`▶ ${position(step, context)} ${step.stage} (${step.agentName}) started`);
+    });
+    runner.events.on('agent:stream', ({ step, event }) => {
+      renderer.render(event, step.stage);
+    });
+    runner.events.on('step:complete', ({ step, context }) => {
+      renderer.endLine();
+      const duration = step.durationMs === undefined ? '' : ` in ${(step.durationMs / 1000).toFixed(1)}s`;
+      console.log(`✔ ${position(step, context)} ${step.stage} completed${duration}`);
+    });
+    runner.events.on('step:failed', ({ step, error }) => {
+      renderer.endLine();
+      console.log(`✖ ${step.stage} failed: ${error}`);
+    });
+    runner.events.on('budget:exceeded', ({ reason, action }) => {
+      console.log(`⚠ ${reason} (${action})`);
+    });
+    runner.events.on('iteration:start', ({ iteration, context }) => {
+      console.log(`↻ Iteration ${iteration.toString()}/${context.maxIterations.toString()} started`);
+    });
+    return runner;
+  }
+
+  /**
+   * Ctrl+C で実行中のエージェントを中断し、状態を保存して終了する
+   */
+  private static async withSigint(runner: WorkflowRunner, run: () => Promise<ProjectContext>): Promise<ProjectContext> {
+    const onSigint = () => {
+      console.log('\n⏹ Cancelling workflow...');
+      runner.cancel('Cancelled by user (SIGINT)');
+    };
+    process.once('SIGINT', onSigint);
+
+    try {
+      return await run();
+    } finally {
+      process.removeListener('SIGINT', onSigint);
+    }
   }
 }
 
@@ -142,8 +292,10 @@ export class WorkflowRunner {
 export async function cliWorkflowRunner(options: { 
   project: string; 
   task: string;
+  pipeline?: string;
   requireApproval?: boolean;
   maxIterations?: number;
+  cassette?: AgentCassette;
 }): Promise<void> {
   try {
     await WorkflowRunner.runFromCLI(options);
@@ -152,3 +304,85 @@ export async function cliWorkflowRunner(options: {
     process.exit(1);
   }
 }
+
+/**
+ * 保存されたワークフローのステップを再実行・スキップ
+ */
+export async function cliWorkflowControl(options: {
+  project: string;
+  projectId: string;
+  control: StepControl;
+  requireApproval?: boolean;
+  maxIterations?: number;
+  cassette?: AgentCassette;
+}): Promise<void> {
+  try {
+    await WorkflowRunner.controlFromCLI(options);
+  } catch (error) {
+    logger.error('CLI workflow control failed:', error instanceof Error ? error : new Error(String(error)));
+    process.exit(1);
+  }
+}
+
+/**
+ * 保存されたワークフローのステップ履歴を表示
+ * step と from/to（反復番号）を指定した場合は2つの反復の結果の差分を表示する
+ */
+export async function cliWorkflowHistory(options: {
+  projectId: string;
+  step?: string;
+  from?: number;
+  to?: number;
+}): Promise<void> {
+  try {
+    const context = await new JsonFileContextStore().load(options.projectId);
+    if (!context) {
+      throw new Error(`Project context not found: ${options.projectId}`);
+    }
+
+    if (options.step && options.from !== undefined && options.to !== undefined) {
+      const diff = diffStepAttempts(
+        findStep(context, options.step),
+        { iteration: options.from },
+        { iteration: options.to }
+      );
+      console.log(formatAttemptDiff(diff));
+      return;
+    }
+
+    const stepId = options.step ? findStep(context, options.step).id : undefined;
+    for (const step of getWorkflowHistory(context)) {
+      if (stepId && step.stepId !== stepId) continue;
+      console.log(`${step.stage} (${step.agentName}) - ${step.status}`);
+      for (const attempt of step.attempts) {
+        const error = attempt.error ? ` - ${attempt.error}` : '';
+        console.log(`  #${attempt.attempt.toString()} iteration ${attempt.iteration.toString()}: ${attempt.status} in ${attempt.durationMs.toString()}ms${error}`);
+      }
+    }
+  } catch (error) {
+    logger.error('CLI workflow history failed:', error instanceof Error ? error : new Error(String(error)));
+    process.exit(1);
+  }
+}
+
+function formatAttemptDiff(diff: AttemptDiff): string {
+  const lines = [
+    `=== ${diff.stage.toUpperCase()}: iteration ${diff.from.iteration.toString()} (#${diff.from.attempt.toString()}) → iteration ${diff.to.iteration.toString()} (#${diff.to.attempt.toString()}) ===`
+  ];
+  if (diff.changes.length === 0) {
+    lines.push('No changes');
+  }
+  for (const change of diff.changes) {
+    if (change.kind === 'number') {
+      const sign = change.delta > 0 ? '+' : '';
+      lines.push(`${change.field}: ${change.from.toString()} → ${change.to.toString()} (${sign}${change.delta.toString()})`);
+    } else if (change.kind === 'list') {
+      lines.push(`${change.field}:`);
+      change.added.forEach(item => lines.push(`  + ${JSON.stringify(item)}`));
+      change.removed.forEach(item => lines.push(`  - ${JSON.stringify(item)}`));
+    } else {
+      lines.push(`${change.field}: ${JSON.stringify(change.from)} → ${JSON.stringify(change.to)}`);
+    }
+  }
+  return lines.join('\n');
+}
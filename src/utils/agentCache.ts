@@ -0,0 +1,108 @@
+// src/utils/agentCache.ts - エージェント実行結果のキャッシュ
+import fs from 'fs/promises';
+import path from 'node:path';
+import crypto from 'node:crypto';
+import { z } from 'zod';
+import { logger } from './logger.js';
+
+export const AgentCacheSettingsSchema = z.object({
+  enabled: z.boolean().default(false),
+  dir: z.string().default('data/agent-cache').describe('キャッシュファイルの保存先'),
+  ttlMs: z.number().int().positive().default(86400000).describe('キャッシュの有効期間（ms）'),
+});
+
+export type AgentCacheSettings = z.infer<typeof AgentCacheSettingsSchema>;
+
+// キャッシュファイル1件分（キー1つにつき1ファイル）
+export const AgentCacheEntrySchema = z.object({
+  version: z.literal(1),
+  key: z.string(),
+  agentName: z.string(),
+  model: z.string(),
+  createdAt: z.number(),
+  data: z.unknown(),
+});
+
+export type AgentCacheEntry = z.infer<typeof AgentCacheEntrySchema>;
+
+export interface AgentCacheKeyParts {
+  agentName: string;
+  instructions: string;
+  model: string;
+  input: string;
+}
+
+function sha256(value: string): string {
+  return crypto.createHash('sha256').update(value).digest('hex');
+}
+
+/**
+ * エージェント名・指示のハッシュ・モデル・入力のハッシュからキャッシュキーを作成
+ */
+export function computeAgentCacheKey(parts: AgentCacheKeyParts): string {
+  return sha256(JSON.stringify([parts.agentName, sha256(parts.instructions), parts.model, sha256(parts.input)]));
+}
+
+/**
+ * 成功したエージェント実行の finalOutput をファイルに保存するキャッシュ
+ * `<dir>/<key>.json` に1件1ファイルで保存し、ttlMs を過ぎたものは読み込み時に削除する
+ * 読み書きの失敗はエージェントの実行を妨げないよう、ログに記録してキャッシュなしとして扱う
+ */
+export class AgentResponseCache {
+  readonly dir: string;
+  readonly ttlMs: number;
+  private readonly now: () => number;
+
+  constructor(options: Partial<Omit<AgentCacheSettings, 'enabled'>> & { now?: () => number } = {}) {
+    this.dir = path.resolve(options.dir ?? 'data/agent-cache');
+    this.ttlMs = options.ttlMs ?? 86400000;
+    this.now = options.now ?? Date.now;
+  }
+
+  /**
+   * 有効期間内のキャッシュを取得（ない場合・期限切れの場合は null）
+   */
+  async get(key: string): Promise<AgentCacheEntry | null> {
+    const filePath = this.filePathFor(key);
+    try {
+      const entry = AgentCacheEntrySchema.parse(JSON.parse(await fs.readFile(filePath, 'utf8')));
+      if (this.now() - entry.createdAt > this.ttlMs) {
+        await fs.rm(filePath, { force: true });
+        return null;
+      }
+      return entry;
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code !== 'ENOENT') {
+        logger.warn(`Ignoring unreadable agent cache entry ${filePath}`, { error: String(error) });
+      }
+      return null;
+    }
+  }
+
+  async set(key: string, entry: Omit<AgentCacheEntry, 'version' | 'key' | 'createdAt'>): Promise<void> {
+    const filePath = this.filePathFor(key);
+    const tempPath = `${filePath}.${process.pid.toString()}.tmp`;
+    const content: AgentCacheEntry = { version: 1, key, createdAt: this.now(), ...entry };
+    try {
+      await fs.mkdir(this.dir, { recursive: true });
+      await fs.writeFile(tempPath, JSON.stringify(content, null, 2), 'utf8');
+      await fs.rename(tempPath, filePath);
+    } catch (error) {
+      logger.error(`Failed to write agent cache entry ${filePath}`, error instanceof Error ? error : new Error(String(error)));
+    }
+  }
+
+  /**
+   * すべてのキャッシュを削除
+   */
+  async clear(): Promise<void> {
+    await fs.rm(this.dir, { recursive: true, force: true });
+  }
+
+  private filePathFor(key: string): string {
+    if (!/^[a-f0-9]{64}$/.test(key)) {
+      throw new Error(`Invalid agent cache key: ${key}`);
+    }
+    return path.join(this.dir, `${key}.json`);
+  }
+}
@@ -0,0 +1,123 @@
+// src/utils/agentCassette.ts - エージェント実行の記録・再生
+import fs from 'fs/promises';
+import path from 'node:path';
+import crypto from 'node:crypto';
+import { z } from 'zod';
+import type { AgentRunResult } from './agentRunner.js';
+import { logger } from './logger.js';
+
+export type CassetteMode = 'record' | 'replay';
+
+// カセットに保存する1回分のエージェント実行
+export const CassetteEntrySchema = z.object({
+  agentName: z.string(),
+  inputHash: z.string(),
+  input: z.string(),
+  result: z.object({
+    success: z.boolean(),
+    data: z.unknown().optional(),
+    error: z.string().optional(),
+    metadata: z.record(z.string(), z.unknown()).optional(),
+    recoverable: z.boolean().optional()
+  })
+});
+
+export type CassetteEntry = z.infer<typeof CassetteEntrySchema>;
+
+export const CassetteFileSchema = z.object({
+  version: z.literal(1),
+  entries: z.array(CassetteEntrySchema).default([])
+});
+
+export function hashAgentInput(input: string): string {
+  return crypto.createHash('sha256').update(input).digest('hex');
+}
+
+/**
+ * エージェントの入出力を記録するカセット
+ * record モードでは runAgent の実行結果を追記してファイルへ書き込み、
+ * replay モードではエージェント名と入力のハッシュが一致する結果を記録順に返す
+ */
+export class AgentCassette {
+  private entries: CassetteEntry[];
+  // replay 時、同じ入力に対して次に返す記録の位置
+  private cursors = new Map<string, number>();
+  private writeQueue: Promise<void> = Promise.resolve();
+
+  private constructor(readonly filePath: string, readonly mode: CassetteMode, entries: CassetteEntry[]) {
+    this.entries = entries;
+  }
+
+  /**
+   * 記録用の空のカセットを作成（既存のファイルは最初の記録時に上書きされる）
+   */
+  static record(filePath: string): AgentCassette {
+    return new AgentCassette(filePath, 'record', []);
+  }
+
+  /**
+   * 記録済みのカセットを再生用に読み込む
+   */
+  static async replay(filePath: string): Promise<AgentCassette> {
+    const raw = await fs.readFile(filePath, 'utf8');
+    const file = CassetteFileSchema.parse(JSON.parse(raw));
+    return new AgentCassette(filePath, 'replay', file.entries);
+  }
+
+  static async open(filePath: string, mode: CassetteMode): Promise<AgentCassette> {
+    return mode === 'record' ? AgentCassette.record(filePath) : await AgentCassette.replay(filePath);
+  }
+
+  /**
+   * 記録された実行結果を取得（一致する記録がない場合は null）
+   * 同じ入力が複数回記録されている場合は記録順に返し、最後の記録を繰り返す
+   */
+  find(agentName: string, input: string): AgentRunResult | null {
+    const key = `${agentName}:${hashAgentInput(input)}`;
+    const matches = this.entries.filter(entry => `${entry.agentName}:${entry.inputHash}` === key);
+    if (matches.length === 0) return null;
+
+    const cursor = this.cursors.get(key) ?? 0;
+    this.cursors.set(key, cursor + 1);
+    return structuredClone(matches[Math.min(cursor, matches.length - 1)].result) as AgentRunResult;
+  }
+
+  /**
+   * 実行結果を追記し、カセットファイルへの書き込みを予約する
+   */
+  add(agentName: string, input: string, result: AgentRunResult): void {
+    const { state: _state, ...recorded } = result;
+    this.entries.push({
+      agentName,
+      inputHash: hashAgentInput(input),
+      input,
+      // ファイルに書き込まれる内容と同じ形で保持する
+      result: JSON.parse(JSON.stringify(recorded)) as CassetteEntry['result']
+    });
+
+    const snapshot = JSON.stringify({ version: 1, entries: this.entries }, null, 2);
+    this.writeQueue = this.writeQueue
+      .then(() => this.write(snapshot))
+      .catch((error: unknown) => {
+        logger.error(`Failed to write agent cassette ${this.filePath}`, error instanceof Error ? error : new Error(String(error)));
+      });
+  }
+
+  getEntries(): readonly CassetteEntry[] {
+    return this.entries;
+  }
+
+  /**
+   * 保留中の書き込みがすべて完了するまで待機
+   */
+  async flush(): Promise<void> {
+    await this.writeQueue;
+  }
+
+  private async write(content: string): Promise<void> {
+    const tempPath = `${this.filePath}.${process.pid.toString()}.tmp`;
+    await fs.mkdir(path.dirname(this.filePath), { recursive: true });
+    await fs.writeFile(tempPath, content, 'utf8');
+    await fs.rename(tempPath, this.filePath);
+  }
+}
@@ -10,17 +10,19 @@ import {
 /**
  * OpenAI Agents SDK の初期化
  * アプリケーション起動時に一度だけ呼び出す
+ * @param options.requireOpenAIKey - false の場合、OPENAI_API_KEY がなくても初期化する（OpenAI 以外のプロバイダーのみ使用する場合）
  */
-export function initializeAgentSDK(): void {
+export function initializeAgentSDK(options: { requireOpenAIKey?: boolean } = {}): void {
   console.log('🔧 [AgentSDK] Initializing OpenAI Agents SDK...');
 
   // 1. OpenAI API Key の設定
   const openaiKey = process.env.OPENAI_API_KEY;
-  if (!openaiKey) {
+  if (openaiKey) {
+    setDefaultOpenAIKey(openaiKey);
+    console.log('✅ [AgentSDK] OpenAI API Key configured');
+  } else if (options.requireOpenAIKey ?? true) {
     throw new Error('OPENAI_API_KEY environment variable is required');
   }
-  setDefaultOpenAIKey(openaiKey);
-  console.log('✅ [AgentSDK] OpenAI API Key configured');
 
   // 2. トレーシング設定
   const tracingDisabled = process.env.TRACING_DISABLED === 'true' || process.env.NODE_ENV === 'test';
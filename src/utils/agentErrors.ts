@@ -0,0 +1,211 @@
+// src/utils/agentErrors.ts - エージェント実行エラーの分類
+import { z } from 'zod';
+
+export const AGENT_ERROR_CATEGORIES = [
+  'model',
+  'guardrail',
+  'tool',
+  'timeout',
+  'permission',
+  'budget',
+  'validation',
+  'cancelled',
+  'unknown'
+] as const;
+
+export type AgentErrorCategory = (typeof AGENT_ERROR_CATEGORIES)[number];
+
+// 分類ごとの対処方針
+// retry: リトライし、すべて失敗した場合はステップを失敗として残りの段階を継続
+// skip: リトライせず、ステップを失敗として残りの段階を継続
+// abort: リトライせず、ワークフローを停止
+export const ErrorActionSchema = z.enum(['retry', 'skip', 'abort']);
+export type ErrorAction = z.infer<typeof ErrorActionSchema>;
+
+// キャンセルは常にワークフローを停止するため、方針を設定できない
+export type ErrorPolicyCategory = Exclude<AgentErrorCategory, 'cancelled'>;
+
+export const ErrorPoliciesSchema = z.object({
+  model: ErrorActionSchema.optional(),
+  guardrail: ErrorActionSchema.optional(),
+  tool: ErrorActionSchema.optional(),
+  timeout: ErrorActionSchema.optional(),
+  permission: ErrorActionSchema.optional(),
+  budget: ErrorActionSchema.optional(),
+  validation: ErrorActionSchema.optional(),
+  unknown: ErrorActionSchema.optional()
+}).describe('エラー分類ごとの対処方針（retry / skip / abort）');
+
+export type ErrorPolicies = z.infer<typeof ErrorPoliciesSchema>;
+
+export const DEFAULT_ERROR_POLICIES: Record<ErrorPolicyCategory, ErrorAction> = {
+  model: 'retry',
+  guardrail: 'abort',
+  tool: 'retry',
+  timeout: 'retry',
+  permission: 'abort',
+  budget: 'abort',
+  validation: 'skip',
+  unknown: 'retry'
+};
+
+export interface AgentErrorOptions {
+  // 同じ分類でもリトライしても結果が変わらないエラーは false
+  retryable?: boolean;
+  // 元のエラー名（SDK のエラークラス名など）
+  errorType?: string;
+  cause?: unknown;
+}
+
+/**
+ * エージェント実行エラーの基底クラス
+ * Runner と Orchestrator は category と方針からリトライ・継続・停止を判断する
+ */
+export class AgentError extends Error {
+  readonly retryable: boolean;
+  private readonly sourceType?: string;
+
+  constructor(message: string, readonly category: AgentErrorCategory, options: AgentErrorOptions = {}) {
+    super(message, { cause: options.cause });
+    this.name = 'AgentError';
+    this.retryable = options.retryable ?? true;
+    this.sourceType = options.errorType;
+  }
+
+  get errorType(): string {
+    return this.sourceType ?? this.name;
+  }
+}
+
+export class ModelError extends AgentError {
+  constructor(message: string, options?: AgentErrorOptions) {
+    super(message, 'model', options);
+    this.name = 'ModelError';
+  }
+}
+
+export class GuardrailError extends AgentError {
+  constructor(message: string, options?: AgentErrorOptions) {
+    super(message, 'guardrail', options);
+    this.name = 'GuardrailError';
+  }
+}
+
+export class ToolError extends AgentError {
+  constructor(message: string, options?: AgentErrorOptions) {
+    super(message, 'tool', options);
+    this.name = 'ToolError';
+  }
+}
+
+export class AgentTimeoutError extends AgentError {
+  constructor(message = 'Agent execution timeout', options?: AgentErrorOptions) {
+    super(message, 'timeout', options);
+    this.name = 'AgentTimeoutError';
+  }
+}
+
+export class PermissionDeniedError extends AgentError {
+  constructor(message: string, options?: AgentErrorOptions) {
+    super(message, 'permission', { retryable: false, ...options });
+    this.name = 'PermissionDeniedError';
+  }
+}
+
+export class BudgetExceededError extends AgentError {
+  constructor(message: string, options?: AgentErrorOptions) {
+    super(message, 'budget', { retryable: false, ...options });
+    this.name = 'BudgetExceededError';
+  }
+}
+
+export class ValidationError extends AgentError {
+  constructor(message: string, options?: AgentErrorOptions) {
+    super(message, 'validation', { retryable: false, ...options });
+    this.name = 'ValidationError';
+  }
+}
+
+export class AgentCancelledError extends AgentError {
+  constructor(message = 'Agent execution aborted', options?: AgentErrorOptions) {
+    super(message, 'cancelled', { retryable: false, errorType: 'AbortError', ...options });
+    this.name = 'AgentCancelledError';
+  }
+}
+
+/**
+ * 分類に対応するエラーを作成（実行結果から例外を復元する場合など）
+ */
+export function createAgentError(category: AgentErrorCategory, message: string, options?: AgentErrorOptions): AgentError {
+  switch (category) {
+    case 'model': return new ModelError(message, options);
+    case 'guardrail': return new GuardrailError(message, options);
+    case 'tool': return new ToolError(message, options);
+    case 'timeout': return new AgentTimeoutError(message, options);
+    case 'permission': return new PermissionDeniedError(message, options);
+    case 'budget': return new BudgetExceededError(message, options);
+    case 'validation': return new ValidationError(message, options);
+    case 'cancelled': return new AgentCancelledError(message, options);
+    case 'unknown': return new AgentError(message, 'unknown', { errorType: 'UnknownError', ...options });
+  }
+}
+
+// SDK のエラー名と分類の対応
+const SDK_ERROR_CATEGORIES: Record<string, { category: AgentErrorCategory; retryable: boolean }> = {
+  AbortError: { category: 'cancelled', retryable: false },
+  GuardrailExecutionError: { category: 'guardrail', retryable: true },
+  InputGuardrailTripwireTriggered: { category: 'guardrail', retryable: false },
+  OutputGuardrailTripwireTriggered: { category: 'guardrail', retryable: false },
+  MaxTurnsExceededError: { category: 'model', retryable: false },
+  ModelBehaviorError: { category: 'model', retryable: true },
+  ToolCallError: { category: 'tool', retryable: true },
+};
+
+/**
+ * 任意のエラーを AgentError に分類する
+ * SDK のエラー名、APIエラーの HTTP ステータス、Node.js のエラーコードの順に判定する
+ */
+export function classifyAgentError(error: unknown): AgentError {
+  if (error instanceof AgentError) return error;
+
+  const message = error instanceof Error ? error.message : String(error);
+  // SDK のエラークラスは name を設定しないため、クラス名でも判定する
+  const name = error instanceof Error
+    ? [error.name, error.constructor.name].find(candidate => candidate in SDK_ERROR_CATEGORIES) ?? error.name
+    : undefined;
+
+  const sdk = name ? SDK_ERROR_CATEGORIES[name] : undefined;
+  if (sdk) {
+    return createAgentError(sdk.category, message, { retryable: sdk.retryable, errorType: name, cause: error });
+  }
+
+  const { status, code } = (error ?? {}) as { status?: unknown; code?: unknown };
+  if (typeof status === 'number') {
+    if (status === 401 || status === 403) {
+      return new PermissionDeniedError(message, { errorType: name, cause: error });
+    }
+    if (status === 429 && code === 'insufficient_quota') {
+      return new BudgetExceededError(message, { errorType: name, cause: error });
+    }
+    // レート制限・サーバーエラーは時間をおけば回復する可能性がある
+    const transient = status === 408 || status === 409 || status === 429 || status >= 500;
+    return new ModelError(message, { retryable: transient, errorType: name, cause: error });
+  }
+
+  if (code === 'EACCES' || code === 'EPERM') {
+    return new PermissionDeniedError(message, { errorType: name, cause: error });
+  }
+  if (code === 'ETIMEDOUT') {
+    return new AgentTimeoutError(message, { errorType: name, cause: error });
+  }
+
+  return createAgentError('unknown', message, { cause: error });
+}
+
+/**
+ * 分類に対する方針を取得（キャンセルは常に abort）
+ */
+export function resolveErrorAction(category: AgentErrorCategory, policies: ErrorPolicies = {}): ErrorAction {
+  if (category === 'cancelled') return 'abort';
+  return policies[category] ?? DEFAULT_ERROR_POLICIES[category];
+}
@@ -1,7 +1,23 @@
 // src/utils/agentRunner.ts - エラー耐性のあるエージェント実行ラッパー
 import type { 
-  Agent} from '@openai/agents';
+  Agent, Runner, RunStreamEvent} from '@openai/agents';
 import { getSharedRunner } from './sharedRunner.js';
+import type { AgentCassette } from './agentCassette.js';
+import { hashAgentInput } from './agentCassette.js';
+import type { AgentErrorCategory, ErrorPolicies } from './agentErrors.js';
+import { AgentCancelledError, AgentTimeoutError, classifyAgentError, resolveErrorAction } from './agentErrors.js';
+import type { AgentResponseCache } from './agentCache.js';
+import { computeAgentCacheKey } from './agentCache.js';
+import type { BackoffOptions } from './backoff.js';
+import { computeBackoffDelay } from './backoff.js';
+import { configureAgent, getAgentSettingsName } from '../agent/agentSettings.js';
+
+export interface TokenUsage {
+  inputTokens: number;
+  outputTokens: number;
+  totalTokens: number;
+  requests: number;
+}
 
 export interface AgentRunResult {
   success: boolean;
@@ -10,19 +26,43 @@ export interface AgentRunResult {
   metadata?: {
     turns?: number;
     tokens?: number;
+    usage?: TokenUsage;
+    model?: string;
     duration?: number;
     errorType?: string;
+    errorCategory?: AgentErrorCategory;
+    // カセットから再生された結果の場合は true
+    replayed?: boolean;
+    // キャッシュを使用した実行の場合、キャッシュから返されたかどうか
+    cacheHit?: boolean;
   };
   recoverable?: boolean;
   state?: unknown; // GuardrailExecutionError.state for recovery
 }
 
+// ストリーミング実行中に通知されるイベント（agent は発生時点で実行中のエージェント名）
+export type AgentStreamEvent =
+  | { type: 'text_delta'; agent: string; delta: string }
+  | { type: 'tool_call_start'; agent: string; tool: string; callId?: string; arguments?: string }
+  | { type: 'tool_call_end'; agent: string; tool: string; callId?: string; output: string }
+  | { type: 'handoff'; agent: string; from: string; to: string };
+
 export interface AgentRunOptions {
   maxTurns?: number;
+  // タイムアウト（ms）。超過した実行は signal で中断される
   timeout?: number;
   retries?: number;
+  backoff?: Partial<BackoffOptions>;
   context?: unknown;
   signal?: AbortSignal;
+  // 入出力の記録・再生に使用するカセット
+  cassette?: AgentCassette;
+  // エラー分類ごとの対処方針（retry 以外の分類はリトライしない）
+  errorPolicies?: ErrorPolicies;
+  // 成功した実行の結果を再利用するキャッシュ（指定した場合のみ使用）
+  cache?: AgentResponseCache;
+  // 指定した場合はストリーミングで実行し、テキスト・ツール呼び出し・ハンドオフを逐次通知する
+  onStreamEvent?: (event: AgentStreamEvent) => void;
 }
 
 /**
@@ -37,30 +77,146 @@ export async function runAgent(
   agent: Agent,
   input: string,
   options: AgentRunOptions = {}
+): Promise<AgentRunResult> {
+  const cassette = options.cassette;
+  if (cassette?.mode === 'replay') {
+    return replayAgentRun(cassette, agent, input);
+  }
+  configureAgent(agent);
+
+  const result = options.cache
+    ? await runAgentWithCache(options.cache, agent, input, options)
+    : await executeAgentRun(agent, input, options);
+
+  // キャンセルは再現する対象ではないため記録しない
+  if (cassette?.mode === 'record' && result.metadata?.errorCategory !== 'cancelled') {
+    cassette.add(agent.name, input, result);
+  }
+  return result;
+}
+
+/**
+ * カセットに記録された結果を返す（モデルは呼び出さない）
+ * 一致する記録がない場合はリトライしない失敗として返す
+ */
+function replayAgentRun(cassette: AgentCassette, agent: Agent, input: string): AgentRunResult {
+  const recorded = cassette.find(agent.name, input);
+  if (!recorded) {
+    return {
+      success: false,
+      error: `No recorded run of ${agent.name} matches input ${hashAgentInput(input).slice(0, 12)} in ${cassette.filePath}`,
+      metadata: { duration: 0, errorType: 'CassetteMiss', errorCategory: 'validation' },
+      recoverable: false
+    };
+  }
+  return {
+    ...recorded,
+    metadata: { ...recorded.metadata, replayed: true }
+  };
+}
+
+/**
+ * キャッシュに有効な結果があれば返し、なければ実行して成功した結果を保存する
+ */
+async function runAgentWithCache(
+  cache: AgentResponseCache,
+  agent: Agent,
+  input: string,
+  options: AgentRunOptions
+): Promise<AgentRunResult> {
+  const cacheKey = getAgentCacheKey(agent, input);
+  if (!cacheKey) {
+    return await executeAgentRun(agent, input, options);
+  }
+
+  const cached = await cache.get(cacheKey);
+  if (cached) {
+    return {
+      success: true,
+      data: cached.data,
+      metadata: { duration: 0, model: cached.model, cacheHit: true },
+      recoverable: true
+    };
+  }
+
+  const result = await executeAgentRun(agent, input, options);
+  if (result.success) {
+    await cache.set(cacheKey, { agentName: agent.name, model: result.metadata?.model ?? '', data: result.data });
+  }
+  return { ...result, metadata: { ...result.metadata, cacheHit: false } };
+}
+
+/**
+ * キャッシュキーを作成（指示が関数の場合は実行時に内容が変わるためキャッシュしない）
+ */
+function getAgentCacheKey(agent: Agent, input: string): string | null {
+  const instructions = (agent as { instructions?: unknown }).instructions;
+  if (typeof instructions !== 'string') return null;
+  return computeAgentCacheKey({
+    agentName: agent.name,
+    instructions,
+    model: resolveModelName(agent, getSharedRunner(getAgentSettingsName(agent))),
+    input
+  });
+}
+
+async function executeAgentRun(
+  agent: Agent,
+  input: string,
+  options: AgentRunOptions
 ): Promise<AgentRunResult> {
   const startTime = Date.now();
-  const runner = getSharedRunner();
+  // エージェントごとのモデル設定に対応するRunnerを使用する（キーは設定ファイルの agents のキー）
+  const runner = getSharedRunner((agent as Agent | null) ? getAgentSettingsName(agent) : undefined);
+  const cleanups: (() => void)[] = [];
   
   try {
-    // タイムアウト設定
-    const timeoutPromise = options.timeout 
-      ? new Promise<never>((_, reject) => 
-          setTimeout(() => { reject(new Error('Agent execution timeout')); }, options.timeout)
-        )
+    if (options.signal?.aborted) {
+      throw new AgentCancelledError();
+    }
+
+    // タイムアウト時はSDKの実行も中断するため、呼び出し元のシグナルに連動する実行専用のシグナルを使用する
+    const timeoutController = options.timeout ? new AbortController() : null;
+    const timeoutPromise = timeoutController
+      ? new Promise<never>((_, reject) => {
+          const timer = setTimeout(() => {
+            reject(new AgentTimeoutError());
+            timeoutController.abort(new AgentTimeoutError());
+          }, options.timeout);
+          cleanups.push(() => { clearTimeout(timer); });
+        })
+      : null;
+
+    // キャンセル時はSDKの応答を待たずに即座に終了する
+    const signal = options.signal;
+    const abortPromise = signal
+      ? new Promise<never>((_, reject) => {
+          const onAbort = () => {
+            reject(new AgentCancelledError());
+            timeoutController?.abort(new AgentCancelledError());
+          };
+          signal.addEventListener('abort', onAbort, { once: true });
+          cleanups.push(() => { signal.removeEventListener('abort', onAbort); });
+        })
       : null;
 
     // エージェント実行
-    const runPromise = runner.run(agent, input, {
+    const runOptions = {
       maxTurns: options.maxTurns ?? 10,
       context: options.context,
-      signal: options.signal
-    });
+      signal: timeoutController?.signal ?? signal
+    };
+    const runPromise = options.onStreamEvent
+      ? streamAgentRun(runner, agent, input, runOptions, options.onStreamEvent)
+      : runner.run(agent, input, runOptions);
 
-    const result = timeoutPromise 
-      ? await Promise.race([runPromise, timeoutPromise])
+    const racers = [timeoutPromise, abortPromise].filter((p): p is Promise<never> => p !== null);
+    const result = racers.length > 0
+      ? await Promise.race([runPromise, ...racers])
       : await runPromise;
 
     const duration = Date.now() - startTime;
+    const usage = extractUsage(result);
 
     // 成功結果の構築
     return {
@@ -68,6 +224,9 @@ export async function runAgent(
       data: result.finalOutput,
       metadata: {
         duration,
+        tokens: usage?.totalTokens,
+        usage,
+        model: resolveModelName(agent, runner),
         // eslint-disable-next-line @typescript-eslint/no-unsafe-assignment, @typescript-eslint/no-unsafe-member-access, @typescript-eslint/no-explicit-any
         turns: (result as any).messages?.length ?? 0,
         errorType: undefined
@@ -81,43 +240,139 @@ export async function runAgent(
     
     console.error(`[runAgent] Execution failed after ${duration.toString()}ms:`, errorMessage);
 
-    // エラー分類と回復可能性の判定
-    const { errorType, recoverable } = categorizeAgentError(error);
+    // エラー分類と回復可能性の判定（方針が retry の分類のみリトライ対象）
+    const agentError = classifyAgentError(error);
+    const recoverable = agentError.retryable && resolveErrorAction(agentError.category, options.errorPolicies) === 'retry';
 
     return {
       success: false,
       error: errorMessage,
       metadata: {
         duration,
-        errorType
+        errorType: agentError.errorType,
+        errorCategory: agentError.category
       },
       recoverable
     };
+  } finally {
+    cleanups.forEach(cleanup => { cleanup(); });
   }
 }
 
 /**
- * エージェントエラーを分類し、回復可能性を判定
+ * ストリーミングで実行し、イベントを通知しながら完了まで読み進める
+ * 実行中のエラーはストリームの読み取り時に送出される
  */
-function categorizeAgentError(error: unknown): { errorType: string; recoverable: boolean } {
-  if (error instanceof Error) {
-    // SDK固有エラーの分類
-    if (error.name === 'GuardrailExecutionError') {
-      return { errorType: 'GuardrailExecutionError', recoverable: true };
-    }
-    if (error.name === 'MaxTurnsExceededError') {
-      return { errorType: 'MaxTurnsExceededError', recoverable: false };
-    }
-    if (error.name === 'ModelBehaviorError') {
-      return { errorType: 'ModelBehaviorError', recoverable: true };
+async function streamAgentRun(
+  runner: Runner,
+  agent: Agent,
+  input: string,
+  runOptions: { maxTurns: number; context: unknown; signal?: AbortSignal },
+  onStreamEvent: (event: AgentStreamEvent) => void
+) {
+  // SDK は中断時にエラー終了済みのストリームも cancel() し、その拒否が処理されないため、
+  // 実行中のみ呼び出し元のシグナルに連動する実行専用のシグナルを渡す
+  const controller = new AbortController();
+  const onAbort = () => { controller.abort(runOptions.signal?.reason); };
+  runOptions.signal?.addEventListener('abort', onAbort, { once: true });
+
+  try {
+    const stream = await runner.run(agent, input, { ...runOptions, signal: controller.signal, stream: true });
+    let currentAgent = agent.name;
+    for await (const event of stream) {
+      if (event.type === 'agent_updated_stream_event') {
+        currentAgent = event.agent.name;
+        continue;
+      }
+      const streamEvent = toAgentStreamEvent(event, currentAgent);
+      if (streamEvent) onStreamEvent(streamEvent);
     }
-    if (error.name === 'ToolCallError') {
-      return { errorType: 'ToolCallError', recoverable: true };
+    await stream.completed;
+    return stream;
+  } finally {
+    runOptions.signal?.removeEventListener('abort', onAbort);
+  }
+}
+
+/**
+ * SDKのストリームイベントを AgentStreamEvent に変換（通知対象外のイベントは null）
+ */
+function toAgentStreamEvent(event: RunStreamEvent, agent: string): AgentStreamEvent | null {
+  if (event.type === 'raw_model_stream_event') {
+    return event.data.type === 'output_text_delta' ? { type: 'text_delta', agent, delta: event.data.delta } : null;
+  }
+  if (event.type !== 'run_item_stream_event') return null;
+
+  const item = event.item;
+  switch (item.type) {
+    case 'tool_call_item': {
+      const raw = item.rawItem;
+      return {
+        type: 'tool_call_start',
+        agent: item.agent.name,
+        tool: raw.type === 'computer_call' ? 'computer' : raw.name,
+        callId: raw.type === 'hosted_tool_call' ? raw.id : raw.callId,
+        arguments: raw.type === 'computer_call' ? undefined : raw.arguments
+      };
     }
+    case 'tool_call_output_item':
+      return {
+        type: 'tool_call_end',
+        agent: item.agent.name,
+        tool: item.rawItem.type === 'function_call_result' ? item.rawItem.name : 'computer',
+        callId: item.rawItem.callId,
+        output: typeof item.output === 'string' ? item.output : JSON.stringify(item.output)
+      };
+    case 'handoff_output_item':
+      return { type: 'handoff', agent: item.sourceAgent.name, from: item.sourceAgent.name, to: item.targetAgent.name };
+    default:
+      return null;
   }
-  
-  // その他のエラーはリトライ可能とする
-  return { errorType: 'UnknownError', recoverable: true };
+}
+
+/**
+ * SDKの実行結果から各モデル応答のトークン使用量を合計する
+ * 使用量が取得できない場合（モック等）は undefined
+ */
+export function extractUsage(result: unknown): TokenUsage | undefined {
+  const responses = (result as { rawResponses?: unknown } | null)?.rawResponses;
+  if (!Array.isArray(responses)) return undefined;
+
+  const usage: TokenUsage = { inputTokens: 0, outputTokens: 0, totalTokens: 0, requests: 0 };
+  for (const response of responses as { usage?: Partial<TokenUsage> }[]) {
+    usage.inputTokens += response.usage?.inputTokens ?? 0;
+    usage.outputTokens += response.usage?.outputTokens ?? 0;
+    usage.totalTokens += response.usage?.totalTokens ?? 0;
+    usage.requests += response.usage?.requests ?? 1;
+  }
+  return usage;
+}
+
+/**
+ * コスト計算に使用するモデル名
+ * エージェントにモデルが指定されていない場合はRunnerのモデル、それもなければSDKのデフォルトモデル
+ */
+function resolveModelName(agent: Agent | null, runner: Partial<Pick<Runner, 'config'>>): string {
+  const model = (agent as { model?: unknown } | null)?.model;
+  if (typeof model === 'string' && model) return model;
+  const runnerModel = runner.config?.model;
+  if (typeof runnerModel === 'string' && runnerModel) return runnerModel;
+  return process.env.OPENAI_DEFAULT_MODEL ?? 'gpt-4.1';
+}
+
+/**
+ * 指定時間待機する（シグナルで中断された場合は即座に戻る）
+ */
+async function sleep(ms: number, signal?: AbortSignal): Promise<void> {
+  await new Promise<void>(resolve => {
+    const timer = setTimeout(done, ms);
+    function done() {
+      clearTimeout(timer);
+      signal?.removeEventListener('abort', done);
+      resolve();
+    }
+    signal?.addEventListener('abort', done, { once: true });
+  });
 }
 
 /**
@@ -136,6 +391,7 @@ export async function runAgentWithRetry(
   options: AgentRunOptions = {}
 ): Promise<AgentRunResult> {
   let lastError = '';
+  let lastCategory: AgentErrorCategory | undefined;
 
   for (let attempt = 0; attempt <= retries; attempt++) {
     console.log(`[runAgentWithRetry] Attempt ${(attempt + 1).toString()}/${(retries + 1).toString()}...`);
@@ -154,6 +410,7 @@ export async function runAgentWithRetry(
     }
 
     lastError = result.error ?? 'Unknown error';
+    lastCategory = result.metadata?.errorCategory;
 
     // 回復不可能なエラーの場合は即座に返す
     if (result.recoverable === false) {
@@ -162,9 +419,17 @@ export async function runAgentWithRetry(
 
     // 最後の試行でない場合は少し待機
     if (attempt < retries) {
-      const backoffDelay = Math.min(1000 * Math.pow(2, attempt), 5000);
+      const backoffDelay = computeBackoffDelay(attempt, options.backoff);
       console.log(`[runAgentWithRetry] Retrying in ${backoffDelay.toString()}ms...`);
-      await new Promise(resolve => setTimeout(resolve, backoffDelay));
+      await sleep(backoffDelay, options.signal);
+      if (options.signal?.aborted) {
+        return {
+          success: false,
+          error: 'Agent execution aborted',
+          metadata: { errorType: 'AbortError', errorCategory: 'cancelled' },
+          recoverable: false
+        };
+      }
     }
   }
 
@@ -173,12 +438,55 @@ export async function runAgentWithRetry(
     success: false,
     error: `Failed after ${retries.toString()} retry attempts. Last error: ${lastError}`,
     metadata: {
-      errorType: 'RetryExhausted'
+      errorType: 'RetryExhausted',
+      errorCategory: lastCategory
     },
     recoverable: false
   };
 }
 
+/**
+ * エージェントをストリーミングで実行し、イベントを逐次返す
+ * ジェネレーターの戻り値は runAgent と同じ実行結果（キャッシュ・カセットから返された場合はイベントなし）
+ * 途中で読み取りをやめても実行は中断されないため、中断する場合は signal を使用する
+ *
+ * @param agent - 実行するエージェント
+ * @param input - エージェントへの入力
+ * @param options - 実行オプション
+ */
+export async function* streamAgent(
+  agent: Agent,
+  input: string,
+  options: AgentRunOptions = {}
+): AsyncGenerator<AgentStreamEvent, AgentRunResult> {
+  const queue: AgentStreamEvent[] = [];
+  let wake: (() => void) | undefined;
+
+  const resultPromise = runAgent(agent, input, {
+    ...options,
+    onStreamEvent: event => {
+      options.onStreamEvent?.(event);
+      queue.push(event);
+      wake?.();
+    }
+  });
+  const completed = resultPromise.then(() => true as const);
+
+  for (;;) {
+    if (queue.length > 0) {
+      yield* queue.splice(0);
+      continue;
+    }
+    const finished = await Promise.race([
+      completed,
+      new Promise<false>(resolve => { wake = () => { resolve(false); }; })
+    ]);
+    if (finished) break;
+  }
+  yield* queue.splice(0);
+  return await resultPromise;
+}
+
 /**
  * 後方互換性のための便利関数
  * 従来のrun()呼び出しを置き換え
@@ -0,0 +1,128 @@
+// src/utils/apiKeys.ts - サーバーのAPIキーとトークン使用量の上限
+import fs from 'fs';
+import path from 'node:path';
+import crypto from 'node:crypto';
+import { z } from 'zod';
+
+// 登録済みのAPIキー（キー自体は保存せず、SHA-256 のハッシュのみを保持する）
+export const ApiKeyEntrySchema = z.object({
+  id: z.string().regex(/^[A-Za-z0-9_-]+$/).describe('ログ・レート制限・使用量の集計に使うキーの識別子'),
+  hash: z.string().regex(/^[a-f0-9]{64}$/).describe('キーの SHA-256（16進数）'),
+  name: z.string().optional(),
+  disabled: z.boolean().default(false).describe('true の場合は 403 を返す'),
+  rateLimitPerMinute: z.number().int().positive().optional(),
+  dailyTokenQuota: z.number().int().positive().optional(),
+});
+
+export type ApiKeyEntry = z.infer<typeof ApiKeyEntrySchema>;
+
+export const ApiKeysFileSchema = z.object({
+  keys: z.array(ApiKeyEntrySchema).default([]),
+});
+
+export const ServerAuthSettingsSchema = z.object({
+  enabled: z.boolean().default(false),
+  keysFile: z.string().default('data/api-keys.json').describe('APIキーのハッシュを記録したファイル'),
+  keys: z.array(ApiKeyEntrySchema).default([]).describe('設定ファイルに直接記述するAPIキー'),
+  rateLimitPerMinute: z.number().int().positive().default(60).describe('キーごとの1分あたりのリクエスト数の上限'),
+  dailyTokenQuota: z.number().int().positive().optional().describe('キーごとの1日（UTC）あたりのトークン数の上限'),
+});
+
+export type ServerAuthSettings = z.infer<typeof ServerAuthSettingsSchema>;
+
+export class ApiKeyFileError extends Error {
+  constructor(readonly filePath: string, message: string) {
+    super(`Invalid API keys file ${filePath}: ${message}`);
+    this.name = 'ApiKeyFileError';
+  }
+}
+
+export function hashApiKey(key: string): string {
+  return crypto.createHash('sha256').update(key).digest('hex');
+}
+
+/**
+ * 新しいAPIキーを生成（表示は発行時の1回のみとし、保存するのはハッシュ）
+ */
+export function generateApiKey(): string {
+  return `sk_${crypto.randomBytes(24).toString('base64url')}`;
+}
+
+/**
+ * ハッシュで照合するAPIキーの一覧
+ */
+export class ApiKeyStore {
+  private readonly byHash = new Map<string, ApiKeyEntry>();
+
+  constructor(entries: ApiKeyEntry[]) {
+    for (const entry of entries) {
+      this.byHash.set(entry.hash, entry);
+    }
+  }
+
+  /**
+   * 設定の keys と keysFile のキーを読み込む（ファイルがない場合は設定のキーのみ）
+   * 同じ id のキーはファイルの内容を優先する
+   */
+  static load(settings: Pick<ServerAuthSettings, 'keys' | 'keysFile'>): ApiKeyStore {
+    const filePath = path.resolve(settings.keysFile);
+    let fileKeys: ApiKeyEntry[] = [];
+    try {
+      fileKeys = ApiKeysFileSchema.parse(JSON.parse(fs.readFileSync(filePath, 'utf8'))).keys;
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code !== 'ENOENT') {
+        throw new ApiKeyFileError(filePath, error instanceof Error ? error.message : String(error));
+      }
+    }
+
+    const byId = new Map(settings.keys.map(entry => [entry.id, entry]));
+    for (const entry of fileKeys) {
+      byId.set(entry.id, entry);
+    }
+    return new ApiKeyStore([...byId.values()]);
+  }
+
+  /**
+   * キーに一致するエントリ（未登録の場合は undefined）
+   */
+  find(key: string): ApiKeyEntry | undefined {
+    return this.byHash.get(hashApiKey(key));
+  }
+
+  get size(): number {
+    return this.byHash.size;
+  }
+}
+
+/**
+ * キーごとの1日（UTC）あたりのトークン使用量
+ * プロセス内で集計するため、再起動すると0に戻る
+ */
+export class TokenQuotaTracker {
+  private readonly usage = new Map<string, { day: string; tokens: number }>();
+  private readonly now: () => number;
+
+  constructor(options: { now?: () => number } = {}) {
+    this.now = options.now ?? Date.now;
+  }
+
+  // 当日分の使用量
+  used(keyId: string): number {
+    const entry = this.usage.get(keyId);
+    return entry?.day === this.today() ? entry.tokens : 0;
+  }
+
+  record(keyId: string, tokens: number): void {
+    if (tokens <= 0) return;
+    this.usage.set(keyId, { day: this.today(), tokens: this.used(keyId) + tokens });
+  }
+
+  // 当日の上限に達している場合 true（quota が未指定の場合は常に false）
+  isExceeded(keyId: string, quota: number | undefined): boolean {
+    return quota !== undefined && this.used(keyId) >= quota;
+  }
+
+  private today(): string {
+    return new Date(this.now()).toISOString().slice(0, 10);
+  }
+}
@@ -0,0 +1,30 @@
+// src/utils/backoff.ts - リトライ間の待機時間
+
+export interface BackoffOptions {
+  // exponential: baseDelayMs * 2^試行回数 / fixed: 常に baseDelayMs
+  strategy: 'exponential' | 'fixed';
+  baseDelayMs: number;
+  maxDelayMs: number;
+  // 待機時間を計算値の50〜100%でランダムにずらす（同時リトライの集中を避ける）
+  jitter: boolean;
+}
+
+export const DEFAULT_BACKOFF: BackoffOptions = {
+  strategy: 'exponential',
+  baseDelayMs: 1000,
+  maxDelayMs: 5000,
+  jitter: false
+};
+
+/**
+ * リトライ前の待機時間（ms）
+ * @param attempt - 失敗した試行の番号（0始まり）
+ */
+export function computeBackoffDelay(attempt: number, backoff: Partial<BackoffOptions> = {}): number {
+  const { strategy, baseDelayMs, maxDelayMs, jitter } = { ...DEFAULT_BACKOFF, ...backoff };
+  const delay = Math.min(
+    strategy === 'fixed' ? baseDelayMs : baseDelayMs * Math.pow(2, attempt),
+    maxDelayMs
+  );
+  return jitter ? Math.round(delay / 2 + Math.random() * (delay / 2)) : delay;
+}
@@ -0,0 +1,247 @@
+// src/utils/chatSessions.ts - /chat の会話セッション
+import fs from 'fs/promises';
+import path from 'node:path';
+import crypto from 'node:crypto';
+import { z } from 'zod';
+import type { AgentInputItem } from '@openai/agents';
+import { logger } from './logger.js';
+
+export const ChatSessionSettingsSchema = z.object({
+  store: z.enum(['memory', 'file']).default('memory').describe('セッションの保存先'),
+  dir: z.string().default('data/chat-sessions').describe('store が file の場合の保存先'),
+  ttlMs: z.number().int().positive().default(3600000).describe('最後の発言からセッションが失効するまでの時間（ms）'),
+  maxHistoryTurns: z.number().int().positive().default(20).describe('次の実行に渡す直近の発言数'),
+});
+
+export type ChatSessionSettings = z.infer<typeof ChatSessionSettingsSchema>;
+
+// 1回の POST /chat（items は SDK の実行履歴のうち、その回に追加された入力・出力）
+export const ChatTurnSchema = z.object({
+  input: z.string(),
+  output: z.unknown(),
+  items: z.array(z.record(z.string(), z.unknown())),
+  createdAt: z.coerce.date(),
+});
+
+export type ChatTurn = z.infer<typeof ChatTurnSchema>;
+
+export const ChatSessionSchema = z.object({
+  id: z.string().regex(/^[A-Za-z0-9_-]+$/),
+  // 作成したAPIキー（認証が無効な場合はなし）
+  principalId: z.string().optional(),
+  createdAt: z.coerce.date(),
+  updatedAt: z.coerce.date(),
+  expiresAt: z.coerce.date(),
+  turns: z.array(ChatTurnSchema).default([]),
+});
+
+export type ChatSession = z.infer<typeof ChatSessionSchema>;
+
+/**
+ * ChatSession の永続化バックエンド
+ */
+export interface ChatSessionStore {
+  save(session: ChatSession): Promise<void>;
+  load(sessionId: string): Promise<ChatSession | null>;
+  list(): Promise<string[]>;
+  delete(sessionId: string): Promise<void>;
+}
+
+/**
+ * プロセス内メモリに保存するストア
+ */
+export class InMemoryChatSessionStore implements ChatSessionStore {
+  private sessions = new Map<string, string>();
+
+  async save(session: ChatSession): Promise<void> {
+    this.sessions.set(session.id, JSON.stringify(session));
+    await Promise.resolve();
+  }
+
+  async load(sessionId: string): Promise<ChatSession | null> {
+    const raw = this.sessions.get(sessionId);
+    return await Promise.resolve(raw ? ChatSessionSchema.parse(JSON.parse(raw)) : null);
+  }
+
+  async list(): Promise<string[]> {
+    return await Promise.resolve([...this.sessions.keys()]);
+  }
+
+  async delete(sessionId: string): Promise<void> {
+    this.sessions.delete(sessionId);
+    await Promise.resolve();
+  }
+}
+
+/**
+ * JSONファイルに保存するストア
+ * `<baseDir>/<sessionId>.json` に1セッション1ファイルで保存する
+ */
+export class JsonFileChatSessionStore implements ChatSessionStore {
+  private baseDir: string;
+
+  constructor(baseDir = path.join(process.cwd(), 'data', 'chat-sessions')) {
+    this.baseDir = baseDir;
+  }
+
+  async save(session: ChatSession): Promise<void> {
+    const filePath = this.filePathFor(session.id);
+    const tempPath = `${filePath}.${process.pid.toString()}.tmp`;
+
+    await fs.mkdir(this.baseDir, { recursive: true });
+    await fs.writeFile(tempPath, JSON.stringify(session, null, 2), 'utf8');
+    await fs.rename(tempPath, filePath);
+  }
+
+  async load(sessionId: string): Promise<ChatSession | null> {
+    try {
+      const raw = await fs.readFile(this.filePathFor(sessionId), 'utf8');
+      return ChatSessionSchema.parse(JSON.parse(raw));
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code === 'ENOENT') return null;
+      throw error;
+    }
+  }
+
+  async list(): Promise<string[]> {
+    try {
+      const entries = await fs.readdir(this.baseDir);
+      return entries
+        .filter(entry => entry.endsWith('.json'))
+        .map(entry => entry.slice(0, -'.json'.length));
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code === 'ENOENT') return [];
+      throw error;
+    }
+  }
+
+  async delete(sessionId: string): Promise<void> {
+    await fs.rm(this.filePathFor(sessionId), { force: true });
+  }
+
+  private filePathFor(sessionId: string): string {
+    // パストラバーサル防止: IDにはファイル名として安全な文字のみ許可
+    if (!/^[A-Za-z0-9_-]+$/.test(sessionId)) {
+      throw new Error(`Invalid session id: ${sessionId}`);
+    }
+    return path.join(this.baseDir, `${sessionId}.json`);
+  }
+}
+
+export function createChatSessionStore(settings: Pick<ChatSessionSettings, 'store' | 'dir'>): ChatSessionStore {
+  return settings.store === 'file'
+    ? new JsonFileChatSessionStore(path.resolve(settings.dir))
+    : new InMemoryChatSessionStore();
+}
+
+/**
+ * 有効期限付きの会話セッション
+ * 発言を記録するたびに ttlMs だけ期限を延長し、失効したセッションは取得時に削除する
+ */
+export class ChatSessions {
+  readonly ttlMs: number;
+  private readonly maxHistoryTurns: number;
+  private readonly now: () => number;
+  private pruneTimer?: NodeJS.Timeout;
+
+  constructor(
+    private readonly store: ChatSessionStore,
+    options: Partial<Pick<ChatSessionSettings, 'ttlMs' | 'maxHistoryTurns'>> & { now?: () => number } = {}
+  ) {
+    this.ttlMs = options.ttlMs ?? 3600000;
+    this.maxHistoryTurns = options.maxHistoryTurns ?? 20;
+    this.now = options.now ?? Date.now;
+  }
+
+  /**
+   * 新しいセッション（最初の発言を記録するまで保存しない）
+   */
+  create(principalId?: string): ChatSession {
+    const now = new Date(this.now());
+    return {
+      id: `chat_${crypto.randomUUID()}`,
+      principalId,
+      createdAt: now,
+      updatedAt: now,
+      expiresAt: new Date(now.getTime() + this.ttlMs),
+      turns: []
+    };
+  }
+
+  /**
+   * 有効期間内のセッション（ない場合・失効した場合は null）
+   */
+  async get(sessionId: string): Promise<ChatSession | null> {
+    const session = await this.store.load(sessionId);
+    if (session && session.expiresAt.getTime() <= this.now()) {
+      await this.store.delete(sessionId);
+      return null;
+    }
+    return session;
+  }
+
+  /**
+   * 次の実行に渡す入力（直近 maxHistoryTurns 回の履歴に今回の発言を加えたもの）
+   */
+  buildInput(session: ChatSession, input: string): AgentInputItem[] {
+    const history = session.turns.slice(-this.maxHistoryTurns).flatMap(turn => turn.items);
+    return [...history as AgentInputItem[], { role: 'user', content: input }];
+  }
+
+  /**
+   * 発言と、その実行で追加された履歴を記録して期限を延長する
+   */
+  async appendTurn(session: ChatSession, turn: Omit<ChatTurn, 'createdAt'>): Promise<ChatSession> {
+    const now = new Date(this.now());
+    const updated: ChatSession = {
+      ...session,
+      updatedAt: now,
+      expiresAt: new Date(now.getTime() + this.ttlMs),
+      // 保存するのは次の実行に渡す分のみ
+      turns: [...session.turns, { ...turn, createdAt: now }].slice(-this.maxHistoryTurns)
+    };
+    await this.store.save(updated);
+    return updated;
+  }
+
+  async delete(sessionId: string): Promise<void> {
+    await this.store.delete(sessionId);
+  }
+
+  /**
+   * 失効したセッションを削除し、削除した件数を返す
+   */
+  async pruneExpired(): Promise<number> {
+    let pruned = 0;
+    for (const sessionId of await this.store.list()) {
+      const session = await this.store.load(sessionId);
+      if (session && session.expiresAt.getTime() <= this.now()) {
+        await this.store.delete(sessionId);
+        pruned++;
+      }
+    }
+    return pruned;
+  }
+
+  /**
+   * 失効したセッションを定期的に削除する（プロセスの終了は妨げない）
+   * 開始済みの場合は何もしない。close() で停止する
+   */
+  startPruning(intervalMs = Math.min(this.ttlMs, 10 * 60 * 1000)): void {
+    if (this.pruneTimer) return;
+    this.pruneTimer = setInterval(() => {
+      this.pruneExpired().catch((err: unknown) => {
+        logger.warn(`Failed to prune chat sessions: ${err instanceof Error ? err.message : String(err)}`);
+      });
+    }, intervalMs);
+    this.pruneTimer.unref();
+  }
+
+  /**
+   * 定期削除を停止する
+   */
+  close(): void {
+    clearInterval(this.pruneTimer);
+    this.pruneTimer = undefined;
+  }
+}
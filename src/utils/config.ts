@@ -2,12 +2,34 @@ import { z } from 'zod';
 import fs from 'fs';
 import path from 'path';
 import dotenv from 'dotenv';
+import type { PipelineDefinition } from '../agent/workflow/pipeline.js';
+import { PipelineDefinitionSchema, BUILTIN_PIPELINES } from '../agent/workflow/pipeline.js';
+import { ModelPricingSchema, WorkflowBudgetSchema } from '../agent/workflow/budget.js';
+import { StageInputLimitsSchema } from '../agent/workflow/stageInputs.js';
+import { RunPoliciesSchema } from '../agent/workflow/runPolicy.js';
+import { ErrorPoliciesSchema } from './agentErrors.js';
+import { AgentCacheSettingsSchema } from './agentCache.js';
+import { ServerAuthSettingsSchema } from './apiKeys.js';
+import { ChatSessionSettingsSchema } from './chatSessions.js';
 
 // エージェントモデル設定のスキーマ
 export const ModelConfigSchema = z.object({
   provider: z.enum(['openai', 'anthropic', 'local']).default('openai'),
   model: z.string().default('gpt-4'),
   temperature: z.number().min(0).max(2).default(0.7),
+  baseURL: z.string().url().optional().describe('OpenAI互換エンドポイントのURL（local のデフォルトは http://localhost:11434/v1）'),
+  apiKeyEnv: z.string().optional().describe('APIキーを読み込む環境変数名'),
+});
+
+// エージェントごとの設定のスキーマ（未指定の項目は全体の設定を使用）
+export const AgentSettingsSchema = z.object({
+  provider: z.enum(['openai', 'anthropic', 'local']).optional().describe('プロバイダー（未指定の場合は agent.model のプロバイダー）'),
+  model: z.string().optional().describe('モデル名（provider、なければ agent.model のプロバイダーで解決される）'),
+  temperature: z.number().min(0).max(2).optional(),
+  baseURL: z.string().url().optional().describe('OpenAI互換エンドポイントのURL'),
+  apiKeyEnv: z.string().optional().describe('APIキーを読み込む環境変数名'),
+  maxTurns: z.number().int().positive().optional().describe('1回の実行の最大ターン数'),
+  tools: z.record(z.string(), z.boolean()).default({}).describe('ツール名ごとの有効・無効（false で無効化）'),
 });
 
 // ツール設定のスキーマ
@@ -46,6 +68,21 @@ export const ServerConfigSchema = z.object({
     enabled: z.boolean().default(true),
     origins: z.array(z.string()).default(['http://localhost:3000']),
   }).default({}),
+  maxConcurrentWorkflows: z.number().int().positive().default(2).describe('POST /workflows で同時に実行するワークフロー数の上限'),
+  auth: ServerAuthSettingsSchema.default({}).describe('APIキー認証とキーごとの利用制限'),
+  chatSessions: ChatSessionSettingsSchema.default({}).describe('POST /chat の会話セッション'),
+});
+
+// ワークフロー設定のスキーマ
+export const WorkflowSettingsSchema = z.object({
+  pipeline: z.string().default('default').describe('実行するパイプライン名'),
+  pipelines: z.record(z.string(), PipelineDefinitionSchema).default({}),
+  maxConcurrency: z.number().int().positive().default(2).describe('並行実行するステップ数の上限'),
+  budget: WorkflowBudgetSchema.optional(),
+  inputLimits: StageInputLimitsSchema.default({}).describe('段階の入力に埋め込む上流データのサイズ制限'),
+  errorPolicies: ErrorPoliciesSchema.default({}),
+  runPolicies: RunPoliciesSchema.default({}).describe('段階・エージェントごとのタイムアウト・リトライ設定'),
+  cache: AgentCacheSettingsSchema.default({}).describe('エージェントの実行結果のキャッシュ'),
 });
 
 // メイン設定スキーマ
@@ -99,8 +136,24 @@ export const ConfigSchema = z.object({
     cors: {
       enabled: true,
       origins: ['http://localhost:3000']
-    }
+    },
+    maxConcurrentWorkflows: 2,
+    auth: { enabled: false, keysFile: 'data/api-keys.json', keys: [], rateLimitPerMinute: 60 },
+    chatSessions: { store: 'memory' as const, dir: 'data/chat-sessions', ttlMs: 3600000, maxHistoryTurns: 20 }
   })),
+  workflow: WorkflowSettingsSchema.default(() => ({
+    pipeline: 'default',
+    pipelines: {},
+    maxConcurrency: 2,
+    inputLimits: { maxStringLength: 4000, maxArrayItems: 50, maxTotalChars: 30000 },
+    errorPolicies: {},
+    runPolicies: {},
+    cache: { enabled: false, dir: 'data/agent-cache', ttlMs: 86400000 }
+  })),
+  // エージェントごとの設定（キーはパイプラインのエージェント名: Triage, Architect, ...）
+  agents: z.record(z.string(), AgentSettingsSchema).default({}),
+  // モデルごとの料金表（組み込みの料金表に追加・上書きされる）
+  pricing: z.record(z.string(), ModelPricingSchema).default({}),
   // 環境変数から読み込まれる設定
   env: z.object({
     openaiApiKey: z.string().optional(),
@@ -123,9 +176,11 @@ export const ConfigSchema = z.object({
 
 export type Config = z.infer<typeof ConfigSchema>;
 export type ModelConfig = z.infer<typeof ModelConfigSchema>;
+export type AgentSettings = z.infer<typeof AgentSettingsSchema>;
 export type ToolConfig = z.infer<typeof ToolConfigSchema>;
 export type GuardrailsConfig = z.infer<typeof GuardrailsConfigSchema>;
 export type ServerConfig = z.infer<typeof ServerConfigSchema>;
+export type WorkflowSettings = z.infer<typeof WorkflowSettingsSchema>;
 
 // JSONファイルから読み込まれる未知の設定オブジェクト型
 type UnknownConfigObject = Record<string, unknown>;
@@ -139,6 +194,8 @@ type UnknownConfigObject = Record<string, unknown>;
 class ConfigManager {
   private static instance: ConfigManager;
   private config: Config | null = null;
+  // スキーマのデフォルト値を補完する前の設定（明示的に指定された値の判定に使用）
+  private rawConfig: UnknownConfigObject = {};
 
   private constructor() {
     // Singleton pattern - empty constructor is intentional
@@ -171,6 +228,7 @@ class ConfigManager {
 
     // 4. 設定をマージ
     const rawConfig = this.mergeConfigs(jsonConfig, envOverrides);
+    this.rawConfig = rawConfig;
 
     // 5. Zodスキーマで検証
     try {
@@ -245,6 +303,7 @@ class ConfigManager {
           provider: process.env.MODEL_PROVIDER,
           model: process.env.MODEL_NAME,
           temperature: process.env.MODEL_TEMPERATURE ? parseFloat(process.env.MODEL_TEMPERATURE) : undefined,
+          baseURL: process.env.MODEL_BASE_URL,
         },
       },
       server: {
@@ -254,6 +313,32 @@ class ConfigManager {
           enabled: process.env.CORS_ENABLED ? process.env.CORS_ENABLED === 'true' : undefined,
           origins: process.env.CORS_ORIGINS ? process.env.CORS_ORIGINS.split(',').map(s => s.trim()) : undefined,
         },
+        maxConcurrentWorkflows: process.env.SERVER_MAX_CONCURRENT_WORKFLOWS ? parseInt(process.env.SERVER_MAX_CONCURRENT_WORKFLOWS, 10) : undefined,
+        auth: {
+          enabled: process.env.SERVER_AUTH_ENABLED ? process.env.SERVER_AUTH_ENABLED === 'true' : undefined,
+          keysFile: process.env.SERVER_API_KEYS_FILE,
+          rateLimitPerMinute: process.env.SERVER_KEY_RATE_LIMIT_PER_MINUTE ? parseInt(process.env.SERVER_KEY_RATE_LIMIT_PER_MINUTE, 10) : undefined,
+          dailyTokenQuota: process.env.SERVER_DAILY_TOKEN_QUOTA ? parseInt(process.env.SERVER_DAILY_TOKEN_QUOTA, 10) : undefined,
+        },
+        chatSessions: {
+          store: process.env.CHAT_SESSION_STORE,
+          dir: process.env.CHAT_SESSION_DIR,
+          ttlMs: process.env.CHAT_SESSION_TTL_MS ? parseInt(process.env.CHAT_SESSION_TTL_MS, 10) : undefined,
+          maxHistoryTurns: process.env.CHAT_SESSION_MAX_HISTORY_TURNS ? parseInt(process.env.CHAT_SESSION_MAX_HISTORY_TURNS, 10) : undefined,
+        },
+      },
+      workflow: {
+        pipeline: process.env.WORKFLOW_PIPELINE,
+        maxConcurrency: process.env.WORKFLOW_MAX_CONCURRENCY ? parseInt(process.env.WORKFLOW_MAX_CONCURRENCY, 10) : undefined,
+        budget: {
+          maxTokens: process.env.WORKFLOW_MAX_TOKENS ? parseInt(process.env.WORKFLOW_MAX_TOKENS, 10) : undefined,
+          maxCostUsd: process.env.WORKFLOW_MAX_COST_USD ? parseFloat(process.env.WORKFLOW_MAX_COST_USD) : undefined,
+        },
+        cache: {
+          enabled: process.env.AGENT_CACHE ? process.env.AGENT_CACHE === 'true' : undefined,
+          dir: process.env.AGENT_CACHE_DIR,
+          ttlMs: process.env.AGENT_CACHE_TTL_MS ? parseInt(process.env.AGENT_CACHE_TTL_MS, 10) : undefined,
+        },
       },
       env: {
         openaiApiKey: process.env.OPENAI_API_KEY,
@@ -331,11 +416,37 @@ class ConfigManager {
     return this.config;
   }
 
+  /**
+   * 設定ファイル・環境変数で明示的に指定されたモデル設定を取得（スキーマのデフォルト値は含まない）
+   */
+  public getConfiguredModel(): Partial<ModelConfig> {
+    this.getConfig();
+    const agent = this.rawConfig.agent as UnknownConfigObject | undefined;
+    return ModelConfigSchema.partial().parse(agent?.model ?? {});
+  }
+
+  /**
+   * パイプライン定義を取得
+   * 設定ファイルの workflow.pipelines を優先し、見つからなければ組み込み定義を使用
+   */
+  public getPipeline(name?: string): PipelineDefinition {
+    const workflow = this.getConfig().workflow;
+    const pipelineName = name ?? workflow.pipeline;
+    const pipeline = workflow.pipelines[pipelineName] ?? BUILTIN_PIPELINES[pipelineName];
+
+    if (!pipeline) {
+      const available = [...new Set([...Object.keys(BUILTIN_PIPELINES), ...Object.keys(workflow.pipelines)])];
+      throw new Error(`Unknown workflow pipeline: ${pipelineName} (available: ${available.join(', ')})`);
+    }
+    return pipeline;
+  }
+
   /**
    * 設定をリロード（テスト用）
    */
   public reset(): void {
     this.config = null;
+    this.rawConfig = {};
   }
 }
 
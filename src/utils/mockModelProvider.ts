@@ -0,0 +1,200 @@
+// src/utils/mockModelProvider.ts - 台本どおりに応答するモデルプロバイダー（ネットワーク不要のテスト用）
+import { AsyncLocalStorage } from 'node:async_hooks';
+import type {
+  AgentInputItem,
+  AssistantMessageItem,
+  FunctionCallItem,
+  Model,
+  ModelProvider,
+  ModelRequest,
+  ModelResponse,
+  Runner,
+  StreamEvent
+} from '@openai/agents';
+import { Usage } from '@openai/agents';
+
+/**
+ * 台本の応答
+ * - text: アシスタントのテキスト
+ * - output: 構造化出力（JSONにして返すため、outputType のスキーマ検証を通る）
+ * - toolCall: エージェントのツール呼び出し（ツールは実際に実行される）
+ * - handoff: 指定したエージェント（SDKの Agent.name）へのハンドオフ
+ */
+export type ScriptedReply =
+  | { text: string }
+  | { output: unknown }
+  | { toolCall: { name: string; arguments?: Record<string, unknown> } }
+  | { handoff: string };
+
+export interface ScriptedRule {
+  // 対象のエージェント名（SDKの Agent.name、未指定の場合はすべてのエージェント）
+  agent?: string;
+  // 最新の入力（ユーザーメッセージまたはツールの結果）の条件。文字列は部分一致
+  input?: string | RegExp;
+  reply: ScriptedReply;
+}
+
+// モデルに渡されたリクエストの記録（プロンプトやツール構成の検証用）
+export interface ScriptedRequest {
+  agent?: string;
+  input: string;
+  systemInstructions?: string;
+  tools: string[];
+  handoffs: string[];
+  reply: ScriptedReply;
+}
+
+export class ScriptedModelError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'ScriptedModelError';
+  }
+}
+
+type ScriptedOutputItem = AssistantMessageItem | FunctionCallItem;
+
+type ScriptedModelResponse = ModelResponse & { output: ScriptedOutputItem[] };
+
+// 実行中のエージェント名（ModelRequest には含まれないため、Runner.run の呼び出しごとに保持する）
+// ハンドオフで切り替わるよう値は書き換え可能なオブジェクトにし、agent_start で更新する
+const currentAgent = new AsyncLocalStorage<{ name: string }>();
+
+/**
+ * エージェント名と入力パターンに一致したルールの応答を返す ModelProvider
+ * ルールは先頭から評価し、最初に一致したものを使用する
+ */
+export class ScriptedModelProvider implements ModelProvider {
+  readonly requests: ScriptedRequest[] = [];
+  private readonly model: Model;
+
+  constructor(private readonly rules: ScriptedRule[]) {
+    this.model = {
+      getResponse: request => this.getResponse(request),
+      getStreamedResponse: request => this.stream(request),
+    };
+  }
+
+  getModel(): Model {
+    return this.model;
+  }
+
+  /**
+   * Runner の実行とエージェント開始を購読し、応答するエージェントを判別できるようにする
+   * SharedRunnerManager が作成する Runner には自動で設定される
+   */
+  observe(runner: Runner): void {
+    // 実行ごとに別のストアで run() を囲むため、並行する実行の間でエージェント名が混ざらない
+    const run = runner.run.bind(runner) as (agent: { name: string }, ...args: unknown[]) => unknown;
+    runner.run = ((agent: { name: string }, ...args: unknown[]) =>
+      currentAgent.run({ name: agent.name }, () => run(agent, ...args))) as Runner['run'];
+    runner.on('agent_start', (_context, agent) => {
+      const current = currentAgent.getStore();
+      if (current) current.name = agent.name;
+    });
+  }
+
+  private getResponse(request: ModelRequest): Promise<ScriptedModelResponse> {
+    // 一致するルールがない場合の例外は reject として返す
+    return new Promise(resolve => { resolve(this.respond(request)); });
+  }
+
+  private respond(request: ModelRequest): ScriptedModelResponse {
+    const agent = currentAgent.getStore()?.name;
+    const input = latestInputText(request.input);
+    const rule = this.rules.find(candidate =>
+      (candidate.agent === undefined || candidate.agent === agent) && matchesInput(candidate.input, input)
+    );
+    if (!rule) {
+      throw new ScriptedModelError(`No scripted response for ${agent ?? 'unknown agent'}: ${input}`);
+    }
+
+    this.requests.push({
+      agent,
+      input,
+      systemInstructions: request.systemInstructions,
+      tools: request.tools.map(tool => tool.name),
+      handoffs: request.handoffs.map(handoff => handoff.toolName),
+      reply: rule.reply,
+    });
+
+    return {
+      usage: new Usage({ requests: 1 }),
+      output: [toOutputItem(rule.reply, request, this.requests.length)],
+      responseId: `scripted-${this.requests.length.toString()}`,
+    };
+  }
+
+  private async *stream(request: ModelRequest): AsyncIterable<StreamEvent> {
+    const response = await this.getResponse(request);
+    yield { type: 'response_started' };
+    for (const item of response.output) {
+      if (item.type !== 'message') continue;
+      for (const content of item.content) {
+        if (content.type === 'output_text') yield { type: 'output_text_delta', delta: content.text };
+      }
+    }
+    yield {
+      type: 'response_done',
+      response: {
+        id: response.responseId ?? '',
+        usage: { requests: 1, inputTokens: 0, outputTokens: 0, totalTokens: 0 },
+        output: response.output,
+      },
+    };
+  }
+}
+
+function matchesInput(pattern: string | RegExp | undefined, input: string): boolean {
+  if (pattern === undefined) return true;
+  return typeof pattern === 'string' ? input.includes(pattern) : pattern.test(input);
+}
+
+// ハンドオフの結果（{"assistant": ...}）は飛ばし、直前のユーザー入力かツールの結果を対象にする
+function latestInputText(input: string | AgentInputItem[]): string {
+  if (typeof input === 'string') return input;
+  for (const item of [...input].reverse()) {
+    if (item.type === 'function_call_result' && !item.name.startsWith('transfer_to_')) {
+      return item.output.type === 'text' ? item.output.text : JSON.stringify(item.output);
+    }
+    if ('role' in item && item.role === 'user') {
+      return typeof item.content === 'string'
+        ? item.content
+        : item.content.map(content => content.type === 'input_text' ? content.text : '').join('');
+    }
+  }
+  return '';
+}
+
+function toOutputItem(reply: ScriptedReply, request: ModelRequest, sequence: number): ScriptedOutputItem {
+  const callId = `call_scripted_${sequence.toString()}`;
+
+  if ('toolCall' in reply) {
+    if (!request.tools.some(tool => tool.name === reply.toolCall.name)) {
+      throw new ScriptedModelError(`Tool ${reply.toolCall.name} is not available to this agent`);
+    }
+    return {
+      type: 'function_call',
+      callId,
+      name: reply.toolCall.name,
+      arguments: JSON.stringify(reply.toolCall.arguments ?? {}),
+      status: 'completed',
+    };
+  }
+
+  if ('handoff' in reply) {
+    // SDKのハンドオフツール名は transfer_to_<エージェント名（英数字以外は _）>
+    const toolName = `transfer_to_${reply.handoff.replace(/[^a-zA-Z0-9]/g, '_')}`;
+    if (!request.handoffs.some(handoff => handoff.toolName === toolName)) {
+      throw new ScriptedModelError(`Handoff to ${reply.handoff} is not available to this agent`);
+    }
+    return { type: 'function_call', callId, name: toolName, arguments: '{}', status: 'completed' };
+  }
+
+  const text = 'text' in reply ? reply.text : JSON.stringify(reply.output);
+  return {
+    type: 'message',
+    role: 'assistant',
+    status: 'completed',
+    content: [{ type: 'output_text', text }],
+  };
+}
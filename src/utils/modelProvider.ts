@@ -0,0 +1,82 @@
+// src/utils/modelProvider.ts - モデルプロバイダーの抽象化
+import type { ModelProvider, ModelSettings } from '@openai/agents';
+import { OpenAIProvider } from '@openai/agents';
+import type { AgentSettings, ModelConfig } from './config.js';
+
+export type ModelProviderName = ModelConfig['provider'];
+
+// エージェントに割り当てるプロバイダー・モデル・パラメーター
+export interface ModelBinding {
+  provider: ModelProviderName;
+  model: string;
+  temperature?: number;
+  baseURL?: string;
+  apiKeyEnv?: string;
+}
+
+export class ModelProviderError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'ModelProviderError';
+  }
+}
+
+// プロバイダーごとの接続先（openai 以外は OpenAI 互換の Chat Completions API として接続する）
+const PROVIDER_ENDPOINTS: Record<ModelProviderName, { baseURL?: string; apiKeyEnv: string; useResponses?: boolean }> = {
+  openai: { apiKeyEnv: 'OPENAI_API_KEY' },
+  anthropic: { baseURL: 'https://api.anthropic.com/v1/', apiKeyEnv: 'ANTHROPIC_API_KEY', useResponses: false },
+  local: { baseURL: 'http://localhost:11434/v1', apiKeyEnv: 'LOCAL_MODEL_API_KEY', useResponses: false },
+};
+
+/**
+ * モデル設定に対応する ModelProvider を作成
+ * APIキーが必要なプロバイダーでキーが設定されていない場合は ModelProviderError
+ */
+export function createModelProvider(binding: ModelBinding, env: NodeJS.ProcessEnv = process.env): ModelProvider {
+  const endpoint = PROVIDER_ENDPOINTS[binding.provider];
+  const apiKeyEnv = binding.apiKeyEnv ?? endpoint.apiKeyEnv;
+  const apiKey = env[apiKeyEnv];
+
+  if (!apiKey && (binding.provider === 'anthropic' || binding.apiKeyEnv)) {
+    throw new ModelProviderError(`${apiKeyEnv} is required for the ${binding.provider} provider`);
+  }
+
+  const baseURL = binding.baseURL ?? endpoint.baseURL;
+  return new OpenAIProvider({
+    // openai はキー未設定時にSDKのデフォルトキー（setDefaultOpenAIKey）を使用する
+    // ローカルのエンドポイントは認証不要のことが多いが、クライアントは空でないキーを要求する
+    apiKey: apiKey ?? (binding.provider === 'local' ? 'local' : undefined),
+    baseURL,
+    useResponses: endpoint.useResponses,
+  });
+}
+
+/**
+ * Runner に渡すモデル設定
+ */
+export function getModelSettings(binding: ModelBinding): ModelSettings {
+  return binding.temperature === undefined ? {} : { temperature: binding.temperature };
+}
+
+/**
+ * 設定ファイルの agents から、モデル設定を持つエージェントのモデル設定を作成（キーは agents のキー）
+ * 未指定の項目は base を引き継ぐ。プロバイダーを変える場合、base の接続先・APIキーは引き継がない
+ */
+export function resolveAgentModels(agents: Record<string, AgentSettings>, base: ModelBinding): Record<string, ModelBinding> {
+  const bindings: Record<string, ModelBinding> = {};
+  for (const [name, settings] of Object.entries(agents)) {
+    const { provider, model, temperature, baseURL, apiKeyEnv } = settings;
+    if (provider === undefined && model === undefined && temperature === undefined && baseURL === undefined && apiKeyEnv === undefined) {
+      continue;
+    }
+    const inherited = provider === undefined || provider === base.provider ? base : { provider, model: base.model };
+    bindings[name] = {
+      ...inherited,
+      ...(model !== undefined ? { model } : {}),
+      ...(temperature !== undefined ? { temperature } : {}),
+      ...(baseURL !== undefined ? { baseURL } : {}),
+      ...(apiKeyEnv !== undefined ? { apiKeyEnv } : {}),
+    };
+  }
+  return bindings;
+}
@@ -1,11 +1,30 @@
 // src/utils/sharedRunner.ts - グローバルRunnerインスタンス管理
+import type { ModelProvider } from '@openai/agents';
 import { Runner } from '@openai/agents';
+import type { ModelBinding } from './modelProvider.js';
+import { createModelProvider, getModelSettings, resolveAgentModels } from './modelProvider.js';
+import { getConfig } from './config.js';
+import { logger } from './logger.js';
+
+/**
+ * 作成した Runner を購読できるモデルプロバイダー
+ * observe がある場合、SharedRunnerManager が作成するすべての Runner を渡す（ScriptedModelProvider など）
+ */
+export interface ObservingModelProvider extends ModelProvider {
+  observe?(runner: Runner): void;
+}
 
 /**
  * Runner初期化オプション
  */
 interface RunnerInitOptions {
-  model?: string;
+  // モデル名（OpenAI）、またはプロバイダー・温度を含むモデル設定
+  model?: string | ModelBinding;
+  // 設定ファイルの agents のキー（Triage, Architect, ...）ごとのモデル設定（未指定のエージェントは model を使用）
+  // 省略した場合は getConfig().agents から作成する
+  agentModels?: Record<string, ModelBinding>;
+  // 指定した場合はすべてのRunnerでこのプロバイダーを使用（テスト用の ScriptedModelProvider など）
+  modelProvider?: ObservingModelProvider;
   workflowName?: string;
   tracingDisabled?: boolean;
   traceIncludeSensitiveData?: boolean;
@@ -18,6 +37,7 @@ interface RunnerInitOptions {
 class SharedRunnerManager {
   private static instance: SharedRunnerManager;
   private runner: Runner | null = null;
+  private agentRunners = new Map<string, Runner>();
   private isInitialized = false;
 
   private constructor() {
@@ -38,12 +58,15 @@ class SharedRunnerManager {
    */
   initialize(options: RunnerInitOptions = {}): void {
     if (this.isInitialized) {
-      console.warn('[SharedRunner] Runner is already initialized');
+      logger.warn('[SharedRunner] Runner is already initialized');
       return;
     }
 
+    const binding: ModelBinding = typeof options.model === 'object'
+      ? options.model
+      : { provider: 'openai', model: options.model ?? 'gpt-4o' };
+
     const config = {
-      model: options.model ?? 'gpt-4o',
       workflowName: options.workflowName ?? 'Strong Agent Workflow',
       tracingDisabled: options.tracingDisabled ?? (process.env.NODE_ENV === 'test'),
       traceIncludeSensitiveData: options.traceIncludeSensitiveData ?? (process.env.NODE_ENV !== 'production'),
@@ -55,11 +78,29 @@ class SharedRunnerManager {
       }
     };
 
-    this.runner = new Runner(config);
+    // プロバイダーはここで解決するため、APIキーの不足などは起動時に検出される
+    const createRunner = (target: ModelBinding) => {
+      const runner = new Runner({
+        ...config,
+        model: target.model,
+        modelProvider: options.modelProvider ?? createModelProvider(target),
+        modelSettings: getModelSettings(target)
+      });
+      options.modelProvider?.observe?.(runner);
+      return runner;
+    };
+
+    const agentModels = options.agentModels ?? resolveAgentModels(getConfig().agents, binding);
+    this.runner = createRunner(binding);
+    for (const [agentName, agentBinding] of Object.entries(agentModels)) {
+      this.agentRunners.set(agentName, createRunner(agentBinding));
+    }
     this.isInitialized = true;
 
-    console.log('✅ [SharedRunner] Runner instance initialized:', {
-      model: config.model,
+    logger.info('[SharedRunner] Runner instance initialized', {
+      provider: options.modelProvider?.constructor.name ?? binding.provider,
+      model: binding.model,
+      agentModels: Object.keys(agentModels),
       workflowName: config.workflowName,
       tracingDisabled: config.tracingDisabled,
       traceMetadata: config.traceMetadata
@@ -68,14 +109,15 @@ class SharedRunnerManager {
 
   /**
    * 初期化されたRunnerインスタンスを取得
+   * @param agentName - 設定ファイルの agents のキー。指定した場合、そのエージェントのモデル設定で作成されたRunnerを返す
    */
-  getRunner(): Runner {
+  getRunner(agentName?: string): Runner {
     if (!this.isInitialized || !this.runner) {
       throw new Error(
         'Runner not initialized. Call SharedRunnerManager.getInstance().initialize() first.'
       );
     }
-    return this.runner;
+    return (agentName ? this.agentRunners.get(agentName) : undefined) ?? this.runner;
   }
 
   /**
@@ -97,8 +139,9 @@ class SharedRunnerManager {
       throw new Error('resetForTesting() can only be called in test environment');
     }
     this.runner = null;
+    this.agentRunners.clear();
     this.isInitialized = false;
-    console.log('🧪 [WorkflowLogger] Runner instance reset for testing');
+    logger.info('[SharedRunner] Runner instance reset for testing');
   }
 }
 
@@ -110,6 +153,6 @@ export const sharedRunner = SharedRunnerManager.getInstance();
 /**
  * 便利関数: 初期化されたRunnerを取得
  */
-export function getSharedRunner(): Runner {
-  return sharedRunner.getRunner();
+export function getSharedRunner(agentName?: string): Runner {
+  return sharedRunner.getRunner(agentName);
 }
@@ -0,0 +1,98 @@
+import { describe, it, expect, vi } from 'vitest';
+import { Agent, handoff, tool, webSearchTool } from '@openai/agents';
+import { z } from 'zod';
+import { ConfigSchema } from '../src/utils/config.js';
+import type * as ConfigModule from '../src/utils/config.js';
+import { withAgentMaxTurns } from '../src/agent/workflow/runPolicy.js';
+
+// 設定ファイルの代わりに agents を指定した設定を返す
+vi.mock('../src/utils/config.js', async (importOriginal) => {
+  const actual = await importOriginal<typeof ConfigModule>();
+  const config = actual.ConfigSchema.parse({
+    agents: {
+      Triage: { model: 'gpt-4.1-nano', temperature: 0.1, maxTurns: 3, tools: { web_search: false } },
+      Architect: { model: 'gpt-4.1', maxTurns: 20 },
+      Docs: { temperature: 0 }
+    }
+  });
+  return { ...actual, getConfig: vi.fn(() => config) };
+});
+
+import { getConfig } from '../src/utils/config.js';
+import { applyAgentSettings, cloneAgentWithModel, configureAgent, defineAgent, getAgentSettings, getAgentSettingsName } from '../src/agent/agentSettings.js';
+import { architectAgent } from '../src/agent/architect.js';
+import { implementerAgent } from '../src/agent/implementer.js';
+
+describe('Per-agent settings', () => {
+  it('should apply model settings when the agents first run instead of when they are imported', () => {
+    // プロジェクトの設定を読み込む前にモジュールが読み込まれても設定は確定しない
+    expect(getConfig).not.toHaveBeenCalled();
+    expect(architectAgent.model).toBe('');
+    expect(getAgentSettingsName(architectAgent)).toBe('Architect');
+
+    // ハンドオフ先のエージェントにもあわせて反映する
+    const triage = defineAgent('Triage', new Agent({ name: 'Triage', tools: [webSearchTool()], handoffs: [handoff(architectAgent)] }));
+    configureAgent(triage);
+    expect(triage.model).toBe('gpt-4.1-nano');
+    expect(triage.tools).toEqual([]);
+    expect(architectAgent.model).toBe('gpt-4.1');
+    // 設定のないエージェントは Runner のモデルを使用する
+    expect(implementerAgent.model).toBe('');
+    expect(implementerAgent.modelSettings.temperature).toBeUndefined();
+  });
+
+  it('should apply the model, temperature and disabled tools', () => {
+    const readFile = tool({
+      name: 'read_file',
+      description: 'Read a file',
+      parameters: z.object({ path: z.string() }),
+      execute: () => ''
+    });
+    const agent = applyAgentSettings('Triage', new Agent({ name: 'Triage', tools: [webSearchTool(), readFile] }));
+
+    expect(agent.model).toBe('gpt-4.1-nano');
+    expect(agent.modelSettings.temperature).toBe(0.1);
+    expect(agent.tools.map(agentTool => agentTool.name)).toEqual(['read_file']);
+  });
+
+  it('should keep existing model settings when overriding the temperature', () => {
+    const agent = applyAgentSettings('Docs', new Agent({
+      name: 'Docs/Comms',
+      modelSettings: { maxTokens: 500 },
+      tools: [webSearchTool()]
+    }));
+
+    expect(agent.modelSettings).toEqual({ maxTokens: 500, temperature: 0 });
+    expect(agent.tools).toHaveLength(1);
+  });
+
+  it('should keep the settings name and disabled tools when cloning an agent with another model', () => {
+    const triage = defineAgent('Triage', new Agent({ name: 'Triage/Router', tools: [webSearchTool()] }));
+    const downgraded = cloneAgentWithModel(triage, 'gpt-4o-mini');
+
+    // 設定名から Runner（プロバイダ）を選ぶため、複製も Triage の Runner を使用する
+    expect(getAgentSettingsName(downgraded)).toBe('Triage');
+    expect(downgraded.model).toBe('gpt-4o-mini');
+    expect(downgraded.modelSettings.temperature).toBe(0.1);
+    expect(downgraded.tools).toEqual([]);
+    // 実行時に再度設定を反映してもモデルは上書きされない
+    expect(configureAgent(downgraded).model).toBe('gpt-4o-mini');
+  });
+
+  it('should use the agent max turns in workflow run policies unless run policies set them', () => {
+    const policies = withAgentMaxTurns(
+      { agents: { Architect: { maxTurns: 30, timeoutMs: 600000 } } },
+      { Triage: getAgentSettings('Triage'), Architect: getAgentSettings('Architect'), Docs: getAgentSettings('Docs') }
+    );
+
+    expect(policies.agents).toEqual({
+      Triage: { maxTurns: 3 },
+      Architect: { maxTurns: 30, timeoutMs: 600000 }
+    });
+  });
+
+  it('should reject invalid agent settings', () => {
+    expect(ConfigSchema.safeParse({ agents: { Triage: { temperature: 3 } } }).success).toBe(false);
+    expect(ConfigSchema.safeParse({ agents: { Triage: { tools: { web_search: 'off' } } } }).success).toBe(false);
+  });
+});
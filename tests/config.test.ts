@@ -145,6 +145,17 @@ describe('Config Management', () => {
     expect(config.env.logLevel).toBe('debug');
   });
 
+  it('should report only explicitly configured model settings', () => {
+    getConfig();
+    // スキーマのデフォルト値（gpt-4 / 0.7）は明示的な設定として扱わない
+    expect(configManager.getConfiguredModel()).toEqual({});
+
+    configManager.reset();
+    process.env.MODEL_TEMPERATURE = '0.2';
+    getConfig();
+    expect(configManager.getConfiguredModel()).toEqual({ temperature: 0.2 });
+  });
+
   it('should handle JSON config file correctly', () => {
     // テスト用のconfig.jsonを作成
     const testConfig = {
@@ -281,3 +292,95 @@ describe('Config Management', () => {
     }
   });
 });
+
+describe('Workflow Pipeline Configuration', () => {
+  const testConfigDir = path.join(process.cwd(), 'test-pipeline-config');
+  const tempConfigDir = path.join(testConfigDir, 'config');
+  const tempConfigFile = path.join(tempConfigDir, 'agent.config.json');
+  const originalCwd = process.cwd.bind(process);
+
+  beforeEach(() => {
+    configManager.reset();
+    delete process.env.WORKFLOW_PIPELINE;
+    fs.mkdirSync(tempConfigDir, { recursive: true });
+    process.cwd = () => testConfigDir;
+  });
+
+  afterEach(() => {
+    process.cwd = originalCwd;
+    configManager.reset();
+    delete process.env.WORKFLOW_PIPELINE;
+    fs.rmSync(testConfigDir, { recursive: true, force: true });
+  });
+
+  const writeConfig = (config: unknown) => {
+    fs.writeFileSync(tempConfigFile, JSON.stringify(config, null, 2));
+  };
+
+  it('should resolve the built-in default pipeline', () => {
+    writeConfig({});
+    getConfig();
+
+    const pipeline = configManager.getPipeline();
+    expect(pipeline.name).toBe('default');
+    expect(pipeline.stages).toHaveLength(8);
+  });
+
+  it('should load user-defined pipelines and select them via WORKFLOW_PIPELINE', () => {
+    writeConfig({
+      workflow: {
+        pipelines: {
+          'research-only': {
+            name: 'research-only',
+            stages: [
+              { stage: 'triage', agent: 'Triage' },
+              { stage: 'research', agent: 'Researcher', input: '{{originalRequest}}' }
+            ]
+          }
+        }
+      }
+    });
+    process.env.WORKFLOW_PIPELINE = 'research-only';
+    getConfig();
+
+    const pipeline = configManager.getPipeline();
+    expect(pipeline.name).toBe('research-only');
+    expect(pipeline.stages.map(stage => stage.stage)).toEqual(['triage', 'research']);
+    expect(pipeline.stages[0].requiresApproval).toBe(false);
+  });
+
+  it('should throw for unknown pipeline names', () => {
+    writeConfig({});
+    getConfig();
+
+    expect(() => configManager.getPipeline('missing')).toThrow('Unknown workflow pipeline: missing');
+  });
+
+  it('should read workflow budgets and pricing from config and environment', () => {
+    writeConfig({
+      workflow: { budget: { maxCostUsd: 2, onExceeded: 'downgrade' } },
+      pricing: { 'my-model': { inputPerMillion: 1, outputPerMillion: 3 } }
+    });
+    process.env.WORKFLOW_MAX_TOKENS = '50000';
+
+    try {
+      const config = getConfig();
+      expect(config.workflow.budget).toMatchObject({ maxTokens: 50000, maxCostUsd: 2, onExceeded: 'downgrade' });
+      expect(config.pricing['my-model']).toEqual({ inputPerMillion: 1, outputPerMillion: 3 });
+    } finally {
+      delete process.env.WORKFLOW_MAX_TOKENS;
+    }
+  });
+
+  it('should reject pipelines with non-executable stages', () => {
+    const result = ConfigSchema.safeParse({
+      workflow: {
+        pipelines: {
+          broken: { name: 'broken', stages: [{ stage: 'completed', agent: 'Docs' }] }
+        }
+      }
+    });
+
+    expect(result.success).toBe(false);
+  });
+});
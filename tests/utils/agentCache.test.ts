@@ -0,0 +1,109 @@
+// tests/utils/agentCache.test.ts
+import { describe, it, expect, beforeAll, beforeEach, afterAll, afterEach, vi } from 'vitest';
+import fs from 'fs/promises';
+import os from 'node:os';
+import path from 'node:path';
+import { Agent } from '@openai/agents';
+import { AgentResponseCache, computeAgentCacheKey } from '../../src/utils/agentCache.js';
+import { ScriptedModelProvider } from '../../src/utils/mockModelProvider.js';
+import { sharedRunner } from '../../src/utils/sharedRunner.js';
+import { runAgent } from '../../src/utils/agentRunner.js';
+
+vi.mock('../../src/utils/logger.js', () => ({
+  logger: {
+    info: vi.fn(),
+    warn: vi.fn(),
+    error: vi.fn(),
+    debug: vi.fn()
+  }
+}));
+
+describe('Agent response cache', () => {
+  let dir: string;
+  let provider: ScriptedModelProvider;
+
+  beforeAll(() => {
+    vi.spyOn(console, 'log').mockImplementation(() => undefined);
+    vi.spyOn(console, 'error').mockImplementation(() => undefined);
+  });
+
+  afterAll(() => {
+    vi.restoreAllMocks();
+  });
+
+  beforeEach(async () => {
+    dir = await fs.mkdtemp(path.join(os.tmpdir(), 'agent-cache-'));
+    provider = new ScriptedModelProvider([
+      { input: 'fail', reply: { toolCall: { name: 'missing' } } },
+      { reply: { text: 'triaged' } }
+    ]);
+    sharedRunner.initialize({ model: 'gpt-4.1-mini', modelProvider: provider, tracingDisabled: true });
+  });
+
+  afterEach(async () => {
+    sharedRunner.resetForTesting();
+    await fs.rm(dir, { recursive: true, force: true });
+  });
+
+  it('should return cached output for the same agent, instructions, model and input', async () => {
+    const cache = new AgentResponseCache({ dir });
+    const agent = new Agent({ name: 'Triage', instructions: 'Triage the request.' });
+
+    const first = await runAgent(agent, 'Build a CLI', { cache });
+    const second = await runAgent(agent, 'Build a CLI', { cache });
+
+    expect(first.metadata?.cacheHit).toBe(false);
+    expect(second).toMatchObject({ success: true, data: 'triaged', metadata: { cacheHit: true, model: 'gpt-4.1-mini' } });
+    expect(provider.requests).toHaveLength(1);
+    expect(await fs.readdir(dir)).toHaveLength(1);
+  });
+
+  it('should miss when the instructions, model or input change', async () => {
+    const cache = new AgentResponseCache({ dir });
+    await runAgent(new Agent({ name: 'Triage', instructions: 'Triage the request.' }), 'Build a CLI', { cache });
+
+    const results = [
+      await runAgent(new Agent({ name: 'Triage', instructions: 'Triage the request briefly.' }), 'Build a CLI', { cache }),
+      await runAgent(new Agent({ name: 'Triage', instructions: 'Triage the request.', model: 'gpt-4.1' }), 'Build a CLI', { cache }),
+      await runAgent(new Agent({ name: 'Triage', instructions: 'Triage the request.' }), 'Build an API', { cache })
+    ];
+
+    expect(results.map(result => result.metadata?.cacheHit)).toEqual([false, false, false]);
+    expect(provider.requests).toHaveLength(4);
+  });
+
+  it('should expire entries after the TTL', async () => {
+    let now = 1_000_000;
+    const cache = new AgentResponseCache({ dir, ttlMs: 60000, now: () => now });
+    const agent = new Agent({ name: 'Triage', instructions: 'Triage the request.' });
+
+    await runAgent(agent, 'Build a CLI', { cache });
+    now += 60001;
+    const expired = await runAgent(agent, 'Build a CLI', { cache });
+
+    expect(expired.metadata?.cacheHit).toBe(false);
+    expect(provider.requests).toHaveLength(2);
+  });
+
+  it('should not cache failed runs or agents with dynamic instructions', async () => {
+    const cache = new AgentResponseCache({ dir });
+    const agent = new Agent({ name: 'Triage', instructions: 'Triage the request.' });
+    const dynamic = new Agent({ name: 'Dynamic', instructions: () => 'Triage the request.' });
+
+    await runAgent(agent, 'fail', { cache });
+    await runAgent(dynamic, 'Build a CLI', { cache });
+    const dynamicAgain = await runAgent(dynamic, 'Build a CLI', { cache });
+
+    expect(dynamicAgain.metadata?.cacheHit).toBeUndefined();
+    expect(await fs.readdir(dir).catch(() => [])).toHaveLength(0);
+  });
+
+  it('should derive distinct keys from each part', () => {
+    const parts = { agentName: 'Triage', instructions: 'a', model: 'gpt-4.1', input: 'b' };
+    const key = computeAgentCacheKey(parts);
+
+    expect(key).toMatch(/^[a-f0-9]{64}$/);
+    expect(computeAgentCacheKey({ ...parts, agentName: 'Researcher' })).not.toBe(key);
+    expect(computeAgentCacheKey({ ...parts, input: 'c' })).not.toBe(key);
+  });
+});
@@ -0,0 +1,78 @@
+// tests/utils/agentErrors.test.ts
+import { describe, it, expect } from 'vitest';
+import {
+  AgentError,
+  BudgetExceededError,
+  GuardrailError,
+  ModelError,
+  PermissionDeniedError,
+  ValidationError,
+  classifyAgentError,
+  createAgentError,
+  resolveErrorAction
+} from '../../src/utils/agentErrors.js';
+import { StageInputValidationError } from '../../src/agent/workflow/stageInputs.js';
+import { WorkflowStage } from '../../src/agent/workflow/ProjectContext.js';
+
+function namedError(name: string, message = name) {
+  const error = new Error(message);
+  error.name = name;
+  return error;
+}
+
+describe('Agent error taxonomy', () => {
+  it('should classify SDK errors by name', () => {
+    const guardrail = classifyAgentError(namedError('OutputGuardrailTripwireTriggered'));
+    expect(guardrail).toBeInstanceOf(GuardrailError);
+    expect(guardrail.retryable).toBe(false);
+    expect(guardrail.errorType).toBe('OutputGuardrailTripwireTriggered');
+
+    const maxTurns = classifyAgentError(namedError('MaxTurnsExceededError'));
+    expect(maxTurns).toBeInstanceOf(ModelError);
+    expect(maxTurns.retryable).toBe(false);
+
+    expect(classifyAgentError(namedError('ToolCallError')).category).toBe('tool');
+    expect(classifyAgentError(namedError('AbortError')).category).toBe('cancelled');
+  });
+
+  it('should classify API errors by status and Node.js errors by code', () => {
+    expect(classifyAgentError(Object.assign(new Error('Unauthorized'), { status: 401 }))).toBeInstanceOf(PermissionDeniedError);
+    expect(classifyAgentError(Object.assign(new Error('Quota'), { status: 429, code: 'insufficient_quota' }))).toBeInstanceOf(BudgetExceededError);
+
+    const rateLimited = classifyAgentError(Object.assign(new Error('Slow down'), { status: 429 }));
+    expect(rateLimited.category).toBe('model');
+    expect(rateLimited.retryable).toBe(true);
+    expect(classifyAgentError(Object.assign(new Error('Bad request'), { status: 400 })).retryable).toBe(false);
+
+    expect(classifyAgentError(Object.assign(new Error('EACCES: /etc/passwd'), { code: 'EACCES' })).category).toBe('permission');
+    expect(classifyAgentError(Object.assign(new Error('connect ETIMEDOUT'), { code: 'ETIMEDOUT' })).category).toBe('timeout');
+  });
+
+  it('should keep typed errors and treat everything else as unknown', () => {
+    const typed = new ValidationError('bad input');
+    expect(classifyAgentError(typed)).toBe(typed);
+
+    const stageInput = new StageInputValidationError(WorkflowStage.TESTING, []);
+    expect(classifyAgentError(stageInput).category).toBe('validation');
+
+    const unknown = classifyAgentError('something odd');
+    expect(unknown).toBeInstanceOf(AgentError);
+    expect(unknown.category).toBe('unknown');
+    expect(unknown.errorType).toBe('UnknownError');
+    expect(unknown.message).toBe('something odd');
+  });
+
+  it('should recreate the error class from a category', () => {
+    const error = createAgentError('permission', 'denied', { errorType: 'Forbidden' });
+    expect(error).toBeInstanceOf(PermissionDeniedError);
+    expect(error.errorType).toBe('Forbidden');
+  });
+
+  it('should resolve actions from defaults and overrides', () => {
+    expect(resolveErrorAction('model')).toBe('retry');
+    expect(resolveErrorAction('permission')).toBe('abort');
+    expect(resolveErrorAction('validation')).toBe('skip');
+    expect(resolveErrorAction('permission', { permission: 'skip' })).toBe('skip');
+    expect(resolveErrorAction('cancelled', { unknown: 'skip' })).toBe('abort');
+  });
+});
@@ -1,8 +1,13 @@
 // tests/utils/agentRunner.test.ts - Phase 1 OpenAI Agent Integration Test for AgentRunner Functions
 /* eslint-disable @typescript-eslint/no-unsafe-call, @typescript-eslint/no-unsafe-member-access */
 import { describe, it, expect, beforeEach, afterEach, vi, beforeAll } from 'vitest';
+import fs from 'fs/promises';
+import os from 'node:os';
+import path from 'node:path';
 import { runAgent, runAgentWithRetry } from '../../src/utils/agentRunner.js';
 import { initializeAgentSDK } from '../../src/utils/agentConfig.js';
+import { AgentCassette } from '../../src/utils/agentCassette.js';
+import { computeBackoffDelay } from '../../src/utils/backoff.js';
 
 // Mock modules
 vi.mock('../../src/utils/sharedRunner.js', () => ({
@@ -182,4 +187,166 @@ describe('SafeAgentRunner - Phase 1 SDK Integration Tests', () => {
       signal: undefined
     });
   });
+
+  it('should not run the agent when the signal is already aborted', async () => {
+    const controller = new AbortController();
+    controller.abort();
+
+    const result = await runAgent(mockAgent, 'Test input', { signal: controller.signal });
+
+    expect(result.success).toBe(false);
+    expect(result.recoverable).toBe(false);
+    expect(result.metadata?.errorType).toBe('AbortError');
+    expect(mockRunner.run).not.toHaveBeenCalled();
+  });
+
+  it('should stop a running agent and skip retries when aborted', async () => {
+    const controller = new AbortController();
+    // SDKが応答しない状況を再現
+    mockRunner.run.mockReturnValue(new Promise(() => undefined));
+
+    const resultPromise = runAgentWithRetry(mockAgent, 'Test input', 2, { signal: controller.signal });
+    controller.abort();
+    const result = await resultPromise;
+
+    expect(result.success).toBe(false);
+    expect(result.error).toBe('Agent execution aborted');
+    expect(mockRunner.run).toHaveBeenCalledTimes(1);
+  });
+
+  it('should capture token usage from the SDK run result', async () => {
+    mockRunner.run.mockResolvedValue({
+      finalOutput: 'Counted',
+      rawResponses: [
+        { usage: { requests: 1, inputTokens: 120, outputTokens: 30, totalTokens: 150 } },
+        { usage: { requests: 1, inputTokens: 200, outputTokens: 50, totalTokens: 250 } }
+      ]
+    } as any);
+
+    const result = await runAgent({ ...mockAgent, model: 'gpt-4o-mini' }, 'Test input');
+
+    expect(result.metadata?.tokens).toBe(400);
+    expect(result.metadata?.usage).toEqual({ inputTokens: 320, outputTokens: 80, totalTokens: 400, requests: 2 });
+    expect(result.metadata?.model).toBe('gpt-4o-mini');
+  });
+
+  it('should record runs to a cassette and replay them without calling the model', async () => {
+    const dir = await fs.mkdtemp(path.join(os.tmpdir(), 'cassette-'));
+    const cassette = AgentCassette.record(path.join(dir, 'runner.cassette.json'));
+    mockRunner.run
+      .mockResolvedValueOnce({ finalOutput: 'first' } as any)
+      .mockResolvedValueOnce({ finalOutput: 'second' } as any);
+
+    await runAgent(mockAgent, 'Same input', { cassette });
+    await runAgent(mockAgent, 'Same input', { cassette });
+    await cassette.flush();
+    mockRunner.run.mockClear();
+
+    const replay = await AgentCassette.replay(cassette.filePath);
+    expect(replay.getEntries()).toHaveLength(2);
+    const outputs = [];
+    for (let i = 0; i < 3; i++) {
+      const result = await runAgent(mockAgent, 'Same input', { cassette: replay });
+      outputs.push(result.data);
+      expect(result.metadata?.replayed).toBe(true);
+    }
+
+    expect(outputs).toEqual(['first', 'second', 'second']);
+    expect(mockRunner.run).not.toHaveBeenCalled();
+
+    const miss = await runAgent(mockAgent, 'Other input', { cassette: replay });
+    expect(miss.success).toBe(false);
+    expect(miss.recoverable).toBe(false);
+    expect(miss.metadata?.errorType).toBe('CassetteMiss');
+
+    await fs.rm(dir, { recursive: true, force: true });
+  });
+
+  it('should report the error category and skip retries for categories without a retry policy', async () => {
+    const tripwire = new Error('Input blocked');
+    tripwire.name = 'InputGuardrailTripwireTriggered';
+    mockRunner.run.mockRejectedValue(tripwire);
+
+    const result = await runAgentWithRetry(mockAgent, 'Test input', 2);
+
+    expect(result.metadata?.errorCategory).toBe('guardrail');
+    expect(result.metadata?.errorType).toBe('InputGuardrailTripwireTriggered');
+    expect(result.recoverable).toBe(false);
+    expect(mockRunner.run).toHaveBeenCalledTimes(1);
+  });
+
+  it('should follow the configured error policies', async () => {
+    const overloaded = Object.assign(new Error('Service unavailable'), { status: 503 });
+    mockRunner.run.mockRejectedValue(overloaded);
+
+    const retried = await runAgent(mockAgent, 'Test input');
+    const skipped = await runAgent(mockAgent, 'Test input', { errorPolicies: { model: 'skip' } });
+
+    expect(retried.metadata?.errorCategory).toBe('model');
+    expect(retried.recoverable).toBe(true);
+    expect(skipped.recoverable).toBe(false);
+  });
+
+  it('should classify timeouts', async () => {
+    mockRunner.run.mockReturnValue(new Promise(() => undefined));
+
+    const result = await runAgent(mockAgent, 'Test input', { timeout: 10 });
+
+    expect(result.error).toBe('Agent execution timeout');
+    expect(result.metadata?.errorCategory).toBe('timeout');
+    expect(result.recoverable).toBe(true);
+  });
+
+  it('should abort the SDK run when it times out', async () => {
+    const signals: AbortSignal[] = [];
+    // SDKはシグナルが中断されるまで応答しない
+    mockRunner.run.mockImplementation((_agent: unknown, _input: string, options: { signal: AbortSignal }) => {
+      signals.push(options.signal);
+      return new Promise((_, reject) => {
+        options.signal.addEventListener('abort', () => { reject(new DOMException('aborted', 'AbortError')); });
+      });
+    });
+
+    const result = await runAgentWithRetry(mockAgent, 'Test input', 1, {
+      timeout: 10,
+      backoff: { strategy: 'fixed', baseDelayMs: 0 }
+    });
+
+    expect(result.metadata?.errorCategory).toBe('timeout');
+    expect(signals).toHaveLength(2);
+    expect(signals.every(signal => signal.aborted)).toBe(true);
+  });
+
+  it('should wait between retries according to the backoff strategy', async () => {
+    mockRunner.run.mockRejectedValue(new Error('Persistent error'));
+
+    const startedAt = Date.now();
+    await runAgentWithRetry(mockAgent, 'Test input', 2, { backoff: { strategy: 'fixed', baseDelayMs: 50 } });
+
+    expect(mockRunner.run).toHaveBeenCalledTimes(3);
+    expect(Date.now() - startedAt).toBeGreaterThanOrEqual(95);
+  });
+});
+
+describe('computeBackoffDelay', () => {
+  afterEach(() => {
+    vi.restoreAllMocks();
+  });
+
+  it('should grow exponentially up to the maximum delay', () => {
+    const delays = [0, 1, 2, 3].map(attempt => computeBackoffDelay(attempt, { baseDelayMs: 500, maxDelayMs: 3000 }));
+
+    expect(delays).toEqual([500, 1000, 2000, 3000]);
+  });
+
+  it('should keep a fixed delay', () => {
+    expect(computeBackoffDelay(3, { strategy: 'fixed', baseDelayMs: 200 })).toBe(200);
+  });
+
+  it('should randomize the delay between half and the full delay with jitter', () => {
+    vi.spyOn(Math, 'random').mockReturnValueOnce(0).mockReturnValueOnce(0.999);
+
+    expect(computeBackoffDelay(1, { jitter: true })).toBe(1000);
+    expect(computeBackoffDelay(1, { jitter: true })).toBe(1999);
+  });
 });
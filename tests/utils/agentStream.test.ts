@@ -0,0 +1,139 @@
+// tests/utils/agentStream.test.ts
+import { describe, it, expect, beforeAll, afterAll, afterEach, vi } from 'vitest';
+import { z } from 'zod';
+import { Agent, tool } from '@openai/agents';
+import { ScriptedModelProvider } from '../../src/utils/mockModelProvider.js';
+import type { ScriptedRule } from '../../src/utils/mockModelProvider.js';
+import { sharedRunner } from '../../src/utils/sharedRunner.js';
+import { runAgent, streamAgent } from '../../src/utils/agentRunner.js';
+import type { AgentRunResult, AgentStreamEvent } from '../../src/utils/agentRunner.js';
+import { createStreamRenderer } from '../../src/runners/streamRenderer.js';
+
+vi.mock('../../src/utils/logger.js', () => ({
+  logger: {
+    info: vi.fn(),
+    warn: vi.fn(),
+    error: vi.fn(),
+    debug: vi.fn()
+  }
+}));
+
+function useScript(rules: ScriptedRule[]): ScriptedModelProvider {
+  const provider = new ScriptedModelProvider(rules);
+  sharedRunner.initialize({ modelProvider: provider, tracingDisabled: true });
+  return provider;
+}
+
+async function collect(stream: AsyncGenerator<AgentStreamEvent, AgentRunResult>) {
+  const events: AgentStreamEvent[] = [];
+  for (;;) {
+    const next = await stream.next();
+    if (next.done) return { events, result: next.value };
+    events.push(next.value);
+  }
+}
+
+function lookupAgent(name = 'Lookup') {
+  return new Agent({
+    name,
+    instructions: 'Use the lookup tool.',
+    tools: [tool({
+      name: 'lookup',
+      description: 'Look up a setting',
+      parameters: z.object({ key: z.string() }),
+      execute: ({ key }) => `value:${key}`
+    })]
+  });
+}
+
+describe('Agent streaming', () => {
+  beforeAll(() => {
+    vi.spyOn(console, 'log').mockImplementation(() => undefined);
+    vi.spyOn(console, 'error').mockImplementation(() => undefined);
+  });
+
+  afterAll(() => {
+    vi.restoreAllMocks();
+  });
+
+  afterEach(() => {
+    sharedRunner.resetForTesting();
+  });
+
+  it('should yield tool calls and text deltas, then return the run result', async () => {
+    useScript([
+      { agent: 'Lookup', input: 'question', reply: { toolCall: { name: 'lookup', arguments: { key: 'port' } } } },
+      { agent: 'Lookup', input: /^value:/, reply: { text: 'The port is configured.' } }
+    ]);
+
+    const { events, result } = await collect(streamAgent(lookupAgent(), 'question about the port'));
+
+    expect(events).toEqual([
+      { type: 'tool_call_start', agent: 'Lookup', tool: 'lookup', callId: expect.any(String), arguments: '{"key":"port"}' },
+      { type: 'tool_call_end', agent: 'Lookup', tool: 'lookup', callId: expect.any(String), output: 'value:port' },
+      { type: 'text_delta', agent: 'Lookup', delta: 'The port is configured.' }
+    ]);
+    expect(result).toMatchObject({ success: true, data: 'The port is configured.' });
+  });
+
+  it('should report handoffs and attribute later text to the target agent', async () => {
+    useScript([
+      { agent: 'Router', reply: { handoff: 'Planner' } },
+      { agent: 'Planner', reply: { text: 'Plan ready.' } }
+    ]);
+    const planner = new Agent({ name: 'Planner', instructions: 'Plan the work.' });
+    const router = Agent.create({ name: 'Router', instructions: 'Route the request.', handoffs: [planner] });
+
+    const { events, result } = await collect(streamAgent(router as unknown as Agent, 'Plan a todo app'));
+
+    expect(events.filter(event => event.type !== 'tool_call_start' && event.type !== 'tool_call_end')).toEqual([
+      { type: 'handoff', agent: 'Router', from: 'Router', to: 'Planner' },
+      { type: 'text_delta', agent: 'Planner', delta: 'Plan ready.' }
+    ]);
+    expect(result.data).toBe('Plan ready.');
+  });
+
+  it('should notify onStreamEvent from runAgent and still return failures as results', async () => {
+    useScript([{ agent: 'Echo', input: 'hello', reply: { text: 'hi' } }]);
+    const onStreamEvent = vi.fn();
+    const agent = new Agent({ name: 'Echo', instructions: 'Reply.' });
+
+    const ok = await runAgent(agent, 'hello', { onStreamEvent });
+    const failed = await runAgent(agent, 'no matching rule', { onStreamEvent });
+
+    expect(ok).toMatchObject({ success: true, data: 'hi' });
+    expect(onStreamEvent).toHaveBeenCalledTimes(1);
+    expect(onStreamEvent).toHaveBeenCalledWith({ type: 'text_delta', agent: 'Echo', delta: 'hi' });
+    expect(failed.success).toBe(false);
+  });
+});
+
+describe('Stream renderer', () => {
+  function capture() {
+    let text = '';
+    const output = { write: (chunk: string) => { text += chunk; return true; } } as NodeJS.WritableStream;
+    return { output, text: () => text };
+  }
+
+  it('should write text inline and put tool calls and handoffs on their own lines', () => {
+    const { output, text } = capture();
+    const renderer = createStreamRenderer({ output, maxToolText: 10 });
+
+    renderer.render({ type: 'text_delta', agent: 'Lookup', delta: 'Checking' }, 'research');
+    renderer.render({ type: 'text_delta', agent: 'Lookup', delta: '...' }, 'research');
+    renderer.render({ type: 'tool_call_start', agent: 'Lookup', tool: 'lookup', arguments: '{"key":\n"port"}' }, 'research');
+    renderer.render({ type: 'tool_call_end', agent: 'Lookup', tool: 'lookup', output: 'a very long tool output' }, 'research');
+    renderer.render({ type: 'handoff', agent: 'Router', from: 'Router', to: 'Planner' });
+    renderer.render({ type: 'text_delta', agent: 'Planner', delta: 'Done' });
+    renderer.endLine();
+
+    expect(text()).toBe([
+      '[research] Checking...',
+      '[research] 🔧 Lookup: lookup({"key": "p…)',
+      '[research]    ↳ lookup: a very lon…',
+      '⇢ Router → Planner',
+      'Done',
+      ''
+    ].join('\n'));
+  });
+});
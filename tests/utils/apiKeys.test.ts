@@ -0,0 +1,61 @@
+// tests/utils/apiKeys.test.ts
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import fs from 'fs/promises';
+import os from 'node:os';
+import path from 'node:path';
+import { ApiKeyFileError, ApiKeyStore, TokenQuotaTracker, generateApiKey, hashApiKey } from '../../src/utils/apiKeys.js';
+
+describe('API keys', () => {
+  let dir: string;
+
+  beforeEach(async () => {
+    dir = await fs.mkdtemp(path.join(os.tmpdir(), 'api-keys-'));
+  });
+
+  afterEach(async () => {
+    await fs.rm(dir, { recursive: true, force: true });
+  });
+
+  it('should match keys by their SHA-256 hash and let the keys file override config keys', async () => {
+    const [configKey, fileKey] = [generateApiKey(), generateApiKey()];
+    expect(configKey).toMatch(/^sk_[A-Za-z0-9_-]{32}$/);
+    expect(hashApiKey(configKey)).toMatch(/^[a-f0-9]{64}$/);
+
+    const keysFile = path.join(dir, 'api-keys.json');
+    await fs.writeFile(keysFile, JSON.stringify({ keys: [{ id: 'ci', hash: hashApiKey(fileKey), dailyTokenQuota: 1000 }] }));
+    const store = ApiKeyStore.load({
+      keysFile,
+      keys: [
+        { id: 'ci', hash: hashApiKey('replaced'), disabled: false },
+        { id: 'admin', hash: hashApiKey(configKey), disabled: false }
+      ]
+    });
+
+    expect(store.size).toBe(2);
+    expect(store.find(fileKey)).toMatchObject({ id: 'ci', dailyTokenQuota: 1000, disabled: false });
+    expect(store.find(configKey)?.id).toBe('admin');
+    expect(store.find('replaced')).toBeUndefined();
+    expect(ApiKeyStore.load({ keysFile: path.join(dir, 'missing.json'), keys: [] }).size).toBe(0);
+
+    await fs.writeFile(keysFile, JSON.stringify({ keys: [{ id: 'ci', hash: 'plaintext-key' }] }));
+    expect(() => ApiKeyStore.load({ keysFile, keys: [] })).toThrow(ApiKeyFileError);
+  });
+
+  it('should track token usage per key and reset it at UTC midnight', () => {
+    let now = Date.parse('2026-10-18T23:59:00Z');
+    const quotas = new TokenQuotaTracker({ now: () => now });
+
+    quotas.record('ci', 600);
+    quotas.record('ci', 400);
+    quotas.record('other', 50);
+
+    expect(quotas.used('ci')).toBe(1000);
+    expect(quotas.isExceeded('ci', 1000)).toBe(true);
+    expect(quotas.isExceeded('ci', undefined)).toBe(false);
+    expect(quotas.isExceeded('other', 1000)).toBe(false);
+
+    now = Date.parse('2026-10-19T00:00:00Z');
+    expect(quotas.used('ci')).toBe(0);
+    expect(quotas.isExceeded('ci', 1000)).toBe(false);
+  });
+});
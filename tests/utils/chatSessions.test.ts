@@ -0,0 +1,68 @@
+// tests/utils/chatSessions.test.ts
+import { describe, it, expect, afterEach } from 'vitest';
+import fs from 'fs/promises';
+import os from 'node:os';
+import path from 'node:path';
+import { ChatSessions, InMemoryChatSessionStore, JsonFileChatSessionStore } from '../../src/utils/chatSessions.js';
+
+function turn(index: number) {
+  return {
+    input: `question ${index.toString()}`,
+    output: `answer ${index.toString()}`,
+    items: [
+      { role: 'user', content: `question ${index.toString()}` },
+      { role: 'assistant', status: 'completed', content: [{ type: 'output_text', text: `answer ${index.toString()}` }] }
+    ]
+  };
+}
+
+describe('Chat sessions', () => {
+  let dir: string | undefined;
+
+  afterEach(async () => {
+    if (dir) await fs.rm(dir, { recursive: true, force: true });
+    dir = undefined;
+  });
+
+  it('should replay the most recent turns and keep only maxHistoryTurns of them', async () => {
+    const sessions = new ChatSessions(new InMemoryChatSessionStore(), { maxHistoryTurns: 2 });
+
+    let session = sessions.create('ci');
+    expect(await sessions.get(session.id)).toBeNull();
+    for (const index of [1, 2, 3]) {
+      session = await sessions.appendTurn(session, turn(index));
+    }
+
+    const stored = await sessions.get(session.id);
+    expect(stored?.principalId).toBe('ci');
+    expect(stored?.turns.map(entry => entry.input)).toEqual(['question 2', 'question 3']);
+    expect(sessions.buildInput(session, 'question 4')).toEqual([
+      ...turn(2).items,
+      ...turn(3).items,
+      { role: 'user', content: 'question 4' }
+    ]);
+  });
+
+  it('should expire sessions ttlMs after the last turn and prune them from the file store', async () => {
+    dir = await fs.mkdtemp(path.join(os.tmpdir(), 'chat-sessions-'));
+    const store = new JsonFileChatSessionStore(dir);
+    let now = Date.parse('2026-10-18T00:00:00Z');
+    const sessions = new ChatSessions(store, { ttlMs: 1000, now: () => now });
+
+    const active = await sessions.appendTurn(sessions.create(), turn(1));
+    const stale = await sessions.appendTurn(sessions.create(), turn(1));
+
+    now += 900;
+    await sessions.appendTurn(active, turn(2));
+    expect((await sessions.get(active.id))?.expiresAt).toEqual(new Date(now + 1000));
+
+    now += 200;
+    expect(await sessions.pruneExpired()).toBe(1);
+    expect(await store.list()).toEqual([active.id]);
+    expect(await sessions.get(stale.id)).toBeNull();
+
+    now += 1000;
+    expect(await sessions.get(active.id)).toBeNull();
+    expect(await store.list()).toEqual([]);
+  });
+});
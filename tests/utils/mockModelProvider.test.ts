@@ -0,0 +1,186 @@
+// tests/utils/mockModelProvider.test.ts
+import { describe, it, expect, beforeAll, afterAll, afterEach, vi } from 'vitest';
+import { z } from 'zod';
+import { Agent, Runner, tool } from '@openai/agents';
+import { ScriptedModelProvider } from '../../src/utils/mockModelProvider.js';
+import type { ScriptedRule } from '../../src/utils/mockModelProvider.js';
+import { getSharedRunner, sharedRunner } from '../../src/utils/sharedRunner.js';
+import { runAgent } from '../../src/utils/agentRunner.js';
+import { noSecretsGuardrail } from '../../src/agent/guardrails.js';
+
+vi.mock('../../src/utils/logger.js', () => ({
+  logger: {
+    info: vi.fn(),
+    warn: vi.fn(),
+    error: vi.fn(),
+    debug: vi.fn()
+  }
+}));
+
+function useScript(rules: ScriptedRule[]): ScriptedModelProvider {
+  const provider = new ScriptedModelProvider(rules);
+  sharedRunner.initialize({ modelProvider: provider, tracingDisabled: true });
+  return provider;
+}
+
+describe('Scripted model provider', () => {
+  beforeAll(() => {
+    vi.spyOn(console, 'log').mockImplementation(() => undefined);
+  });
+
+  afterAll(() => {
+    vi.restoreAllMocks();
+  });
+
+  afterEach(() => {
+    sharedRunner.resetForTesting();
+  });
+
+  it('should parse scripted output through the agent outputType', async () => {
+    const provider = useScript([
+      { agent: 'Planner', input: /CLI/, reply: { output: { title: 'CLI plan', steps: ['parse args'] } } }
+    ]);
+    const agent = new Agent({
+      name: 'Planner',
+      instructions: 'Plan the work.',
+      outputType: z.object({ title: z.string(), steps: z.array(z.string()) })
+    });
+
+    const result = await runAgent(agent as unknown as Agent, 'Build a CLI');
+
+    expect(result.success).toBe(true);
+    expect(result.data).toEqual({ title: 'CLI plan', steps: ['parse args'] });
+    expect(provider.requests).toMatchObject([{ agent: 'Planner', input: 'Build a CLI', systemInstructions: 'Plan the work.' }]);
+  });
+
+  it('should reject scripted output that does not match the outputType', async () => {
+    useScript([{ reply: { output: { title: 42 } } }]);
+    const agent = new Agent({
+      name: 'Planner',
+      instructions: 'Plan the work.',
+      outputType: z.object({ title: z.string() })
+    });
+
+    const result = await runAgent(agent as unknown as Agent, 'Build a CLI');
+
+    expect(result.success).toBe(false);
+  });
+
+  it('should execute scripted tool calls and answer from the tool result', async () => {
+    const lookup = vi.fn(({ key }: { key: string }) => Promise.resolve(`value:${key}`));
+    const provider = useScript([
+      { agent: 'Lookup', input: 'question', reply: { toolCall: { name: 'lookup', arguments: { key: 'port' } } } },
+      { agent: 'Lookup', input: /^value:/, reply: { text: 'The port is configured.' } }
+    ]);
+    const agent = new Agent({
+      name: 'Lookup',
+      instructions: 'Use the lookup tool.',
+      tools: [tool({ name: 'lookup', description: 'Look up a setting', parameters: z.object({ key: z.string() }), execute: lookup })]
+    });
+
+    const result = await runAgent(agent, 'question about the port');
+
+    expect(result.data).toBe('The port is configured.');
+    expect(lookup).toHaveBeenCalledWith({ key: 'port' }, expect.anything());
+    expect(provider.requests.map(request => request.input)).toEqual(['question about the port', 'value:port']);
+    expect(provider.requests[0].tools).toEqual(['lookup']);
+  });
+
+  it('should follow scripted handoffs to the target agent', async () => {
+    const provider = useScript([
+      { agent: 'Router', reply: { handoff: 'Architect/Scaffold' } },
+      { agent: 'Architect/Scaffold', input: 'Design', reply: { output: { projectName: 'demo' } } }
+    ]);
+    const architect = new Agent({
+      name: 'Architect/Scaffold',
+      instructions: 'Design the project.',
+      outputType: z.object({ projectName: z.string() })
+    });
+    const router = Agent.create({ name: 'Router', instructions: 'Route the request.', handoffs: [architect] });
+
+    const result = await runAgent(router as unknown as Agent, 'Design a todo app');
+
+    expect(result.data).toEqual({ projectName: 'demo' });
+    expect(provider.requests.map(request => request.agent)).toEqual(['Router', 'Architect/Scaffold']);
+    expect(provider.requests[0].handoffs).toEqual(['transfer_to_Architect_Scaffold']);
+  });
+
+  it('should run input guardrails before calling the model', async () => {
+    const provider = useScript([{ reply: { text: 'ok' } }]);
+    const agent = new Agent({ name: 'Guarded', instructions: 'Reply.', inputGuardrails: [noSecretsGuardrail] });
+
+    const result = await runAgent(agent, 'my api_key is here');
+
+    expect(result.success).toBe(false);
+    expect(result.metadata?.errorCategory).toBe('guardrail');
+    expect(provider.requests).toHaveLength(0);
+  });
+
+  it('should keep agents apart across concurrent runs', async () => {
+    useScript([
+      { agent: 'First', reply: { text: 'from first' } },
+      { agent: 'Second', reply: { text: 'from second' } },
+      { agent: 'Router', reply: { handoff: 'Target' } },
+      { agent: 'Target', reply: { text: 'from target' } }
+    ]);
+    const target = new Agent({ name: 'Target', instructions: 'Reply.' });
+    const router = Agent.create({ name: 'Router', instructions: 'Route.', handoffs: [target] });
+
+    const results = await Promise.all([
+      runAgent(new Agent({ name: 'First', instructions: 'Reply.' }), 'Hello'),
+      runAgent(router as unknown as Agent, 'Hello'),
+      runAgent(new Agent({ name: 'Second', instructions: 'Reply.' }), 'Hello')
+    ]);
+
+    expect(results.map(result => result.data)).toEqual(['from first', 'from target', 'from second']);
+  });
+
+  it('should scope the agent name to each run of the Runner', async () => {
+    const provider = useScript([
+      { agent: 'First', reply: { text: 'from first' } },
+      { agent: 'Second', reply: { text: 'from second' } }
+    ]);
+    const runner = getSharedRunner();
+
+    // 同じ非同期コンテキストから開始した実行でも、それぞれのエージェント名で応答する
+    const first = runner.run(new Agent({ name: 'First', instructions: 'Reply.' }), 'Hello');
+    const second = runner.run(new Agent({ name: 'Second', instructions: 'Reply.' }), 'Hello');
+
+    expect([(await first).finalOutput, (await second).finalOutput]).toEqual(['from first', 'from second']);
+
+    // 実行の外（呼び出し元）にはエージェント名が残らない
+    const unobserved = new Runner({ modelProvider: provider, tracingDisabled: true });
+    await expect(unobserved.run(new Agent({ name: 'Third', instructions: 'Reply.' }), 'Hello')).rejects.toThrow('No scripted response for unknown agent');
+    expect(provider.requests.map(request => request.agent).sort()).toEqual(['First', 'Second']);
+  });
+
+  it('should fail when no rule matches or the scripted tool is unavailable', async () => {
+    useScript([
+      { agent: 'Echo', input: 'tool', reply: { toolCall: { name: 'missing' } } },
+      { agent: 'Echo', input: 'known', reply: { text: 'ok' } }
+    ]);
+    const agent = new Agent({ name: 'Echo', instructions: 'Reply.' });
+
+    const unmatched = await runAgent(agent, 'anything else');
+    const unavailable = await runAgent(agent, 'use a tool');
+
+    expect(unmatched.error).toContain('No scripted response for Echo: anything else');
+    expect(unavailable.error).toContain('Tool missing is not available to this agent');
+  });
+
+  it('should stream scripted responses', async () => {
+    useScript([{ agent: 'Echo', reply: { text: 'streamed reply' } }]);
+    const agent = new Agent({ name: 'Echo', instructions: 'Reply.' });
+
+    const stream = await getSharedRunner().run(agent, 'Hello', { stream: true });
+    const textStream = stream.toTextStream();
+    let text = '';
+    for await (const chunk of textStream) {
+      text += chunk;
+    }
+    await stream.completed;
+
+    expect(text).toBe('streamed reply');
+    expect(stream.finalOutput).toBe('streamed reply');
+  });
+});
@@ -0,0 +1,129 @@
+// tests/utils/modelProvider.test.ts
+import { describe, it, expect, beforeAll, afterAll, afterEach, vi } from 'vitest';
+import http from 'node:http';
+import type { AddressInfo } from 'node:net';
+import { Agent } from '@openai/agents';
+import { ModelProviderError, createModelProvider } from '../../src/utils/modelProvider.js';
+import { getSharedRunner, sharedRunner } from '../../src/utils/sharedRunner.js';
+import { runAgent } from '../../src/utils/agentRunner.js';
+import { defineAgent } from '../../src/agent/agentSettings.js';
+import type * as ConfigModule from '../../src/utils/config.js';
+
+// agentModels を省略した initialize は設定ファイルの agents からエージェントごとのモデル設定を作成する
+const configuredAgents = vi.hoisted(() => ({ current: {} as Record<string, unknown> }));
+vi.mock('../../src/utils/config.js', async importOriginal => {
+  const actual = await importOriginal<typeof ConfigModule>();
+  return { ...actual, getConfig: () => actual.ConfigSchema.parse({ agents: configuredAgents.current }) };
+});
+
+// OpenAI互換の Chat Completions API を返すスタブサーバー
+function startStubServer(reply: (body: Record<string, unknown>) => string) {
+  const requests: { url?: string; authorization?: string; body: Record<string, unknown> }[] = [];
+  const server = http.createServer((req, res) => {
+    let raw = '';
+    req.on('data', (chunk: Buffer) => { raw += chunk.toString(); });
+    req.on('end', () => {
+      const body = JSON.parse(raw) as Record<string, unknown>;
+      requests.push({ url: req.url, authorization: req.headers.authorization, body });
+      res.writeHead(200, { 'Content-Type': 'application/json' });
+      res.end(JSON.stringify({
+        id: 'chatcmpl-stub',
+        object: 'chat.completion',
+        created: 0,
+        model: body.model,
+        choices: [{ index: 0, message: { role: 'assistant', content: reply(body) }, finish_reason: 'stop' }],
+        usage: { prompt_tokens: 12, completion_tokens: 3, total_tokens: 15 }
+      }));
+    });
+  });
+  return { server, requests };
+}
+
+describe('Model providers', () => {
+  const stub = startStubServer(body => `reply from ${String(body.model)}`);
+  let baseURL = '';
+
+  beforeAll(async () => {
+    vi.spyOn(console, 'log').mockImplementation(() => undefined);
+    await new Promise<void>(resolve => { stub.server.listen(0, '127.0.0.1', resolve); });
+    baseURL = `http://127.0.0.1:${(stub.server.address() as AddressInfo).port.toString()}/v1`;
+  });
+
+  afterAll(() => {
+    stub.server.close();
+    vi.restoreAllMocks();
+  });
+
+  afterEach(() => {
+    sharedRunner.resetForTesting();
+    stub.requests.length = 0;
+    configuredAgents.current = {};
+  });
+
+  it('should run agents against a local OpenAI-compatible endpoint', async () => {
+    sharedRunner.initialize({
+      model: { provider: 'local', model: 'stub-large', temperature: 0.2, baseURL },
+      tracingDisabled: true
+    });
+    const agent = new Agent({ name: 'Echo', instructions: 'Reply briefly.' });
+
+    const result = await runAgent(agent, 'Hello');
+
+    expect(result.success).toBe(true);
+    expect(result.data).toBe('reply from stub-large');
+    expect(result.metadata?.model).toBe('stub-large');
+    expect(result.metadata?.usage).toMatchObject({ inputTokens: 12, outputTokens: 3, totalTokens: 15 });
+    expect(stub.requests[0].url).toBe('/v1/chat/completions');
+    expect(stub.requests[0].body).toMatchObject({ model: 'stub-large', temperature: 0.2 });
+  });
+
+  it('should bind agents to their own model configuration', async () => {
+    sharedRunner.initialize({
+      model: { provider: 'local', model: 'stub-large', baseURL },
+      agentModels: { Triage: { provider: 'local', model: 'stub-small', temperature: 0, baseURL } },
+      tracingDisabled: true
+    });
+
+    const triage = await runAgent(new Agent({ name: 'Triage', instructions: 'Triage.' }), 'Hello');
+    const architect = await runAgent(new Agent({ name: 'Architect', instructions: 'Design.' }), 'Hello');
+
+    expect(triage.data).toBe('reply from stub-small');
+    expect(architect.data).toBe('reply from stub-large');
+    expect(getSharedRunner('Unknown')).toBe(getSharedRunner());
+    expect(stub.requests.map(request => request.body.temperature)).toEqual([0, undefined]);
+  });
+
+  it('should bind agents configured in the agents settings to their provider', async () => {
+    configuredAgents.current = { Architect: { provider: 'local', model: 'stub-small', baseURL } };
+    sharedRunner.initialize({ model: { provider: 'openai', model: 'gpt-4o' }, tracingDisabled: true });
+
+    // 設定ファイルの agents のキー（Architect）で SDK のエージェント名（Architect/Scaffold）の Runner を解決する
+    const architect = defineAgent('Architect', new Agent({ name: 'Architect/Scaffold', instructions: 'Design.' }));
+    const result = await runAgent(architect, 'Hello');
+
+    expect(result.data).toBe('reply from stub-small');
+    expect(stub.requests[0].url).toBe('/v1/chat/completions');
+    expect(getSharedRunner('Architect')).not.toBe(getSharedRunner());
+    expect(getSharedRunner('Docs')).toBe(getSharedRunner());
+  });
+
+  it('should read the API key from the configured environment variable', async () => {
+    // キーはRunner作成時に読み込まれる
+    vi.stubEnv('STUB_API_KEY', 'secret-key');
+    sharedRunner.initialize({
+      model: { provider: 'local', model: 'stub-large', baseURL, apiKeyEnv: 'STUB_API_KEY' },
+      tracingDisabled: true
+    });
+    vi.unstubAllEnvs();
+
+    await runAgent(new Agent({ name: 'Echo', instructions: 'Reply briefly.' }), 'Hello');
+
+    expect(stub.requests[0].authorization).toBe('Bearer secret-key');
+  });
+
+  it('should fail at creation time when a required API key is missing', () => {
+    expect(() => createModelProvider({ provider: 'anthropic', model: 'claude-sonnet-4-5' }, {})).toThrow(ModelProviderError);
+    expect(() => createModelProvider({ provider: 'local', model: 'llama3', apiKeyEnv: 'MISSING_KEY' }, {})).toThrow('MISSING_KEY is required');
+    expect(() => createModelProvider({ provider: 'local', model: 'llama3' }, {})).not.toThrow();
+  });
+});
@@ -0,0 +1,146 @@
+// tests/workflow/approval-edit.test.ts
+import { describe, it, expect, afterEach, vi } from 'vitest';
+import { WorkflowOrchestrator, type ApprovalData, type ApprovalDecision } from '../../src/agent/workflow/WorkflowOrchestrator.js';
+import { WorkflowStage, WorkflowStatus, type ProjectContext } from '../../src/agent/workflow/ProjectContext.js';
+import { InMemoryContextStore } from '../../src/agent/workflow/ContextStore.js';
+import type { PipelineDefinition } from '../../src/agent/workflow/pipeline.js';
+
+vi.mock('../../src/agent/triage.js', () => ({ triageAgent: { name: 'Triage' } }));
+vi.mock('../../src/agent/researcher.js', () => ({ researcherAgent: { name: 'Researcher' } }));
+vi.mock('../../src/agent/architect.js', () => ({ architectAgent: { name: 'Architect' } }));
+vi.mock('../../src/agent/implementer.js', () => ({ implementerAgent: { name: 'Implementer' } }));
+vi.mock('../../src/agent/tester.js', () => ({ testAgent: { name: 'Test' } }));
+vi.mock('../../src/agent/reviewer.js', () => ({ reviewerAgent: { name: 'Reviewer' } }));
+vi.mock('../../src/agent/devops.js', () => ({ devopsAgent: { name: 'DevOps' } }));
+vi.mock('../../src/agent/docs.js', () => ({ docsAgent: { name: 'Docs' } }));
+
+vi.mock('../../src/utils/agentRunner.js', () => ({
+  runAgent: vi.fn(),
+  runAgentWithRetry: vi.fn()
+}));
+
+vi.mock('../../src/utils/logger.js', () => ({
+  logger: {
+    info: vi.fn(),
+    warn: vi.fn(),
+    error: vi.fn()
+  }
+}));
+
+import { runAgentWithRetry } from '../../src/utils/agentRunner.js';
+
+const pipeline: PipelineDefinition = {
+  name: 'architect-then-implement',
+  stages: [
+    { stage: WorkflowStage.ARCHITECTURE, agent: 'Architect', input: '{{originalRequest}}', requiresApproval: true },
+    { stage: WorkflowStage.IMPLEMENTATION, agent: 'Implementer', requiresApproval: false }
+  ]
+};
+
+const plan = {
+  projectName: 'todo-app',
+  stack: ['express'],
+  services: ['api'],
+  directories: ['src'],
+  envVars: [],
+  decisions: ['REST API'],
+  risks: [],
+  initialBacklog: []
+};
+
+function mockAgents() {
+  vi.mocked(runAgentWithRetry).mockImplementation(async (agent: unknown) => {
+    await Promise.resolve();
+    if ((agent as { name: string }).name === 'Architect') return { success: true, data: plan };
+    return { success: true, data: { summary: 'done', createdFiles: [], modifiedFiles: [], commandsToRun: [] } };
+  });
+}
+
+// 判断を順番に返す承認ハンドラー（受け取ったデータを記録する）
+function scriptedHandler(decisions: ApprovalDecision[]) {
+  const requests: { message: string; data: ApprovalData }[] = [];
+  const handler = vi.fn((_stepId: string, message: string, data: ApprovalData, _context: ProjectContext) => {
+    requests.push({ message, data });
+    return Promise.resolve(decisions[requests.length - 1] ?? { approved: false });
+  });
+  return { handler, requests };
+}
+
+describe('Edit before approve', () => {
+  afterEach(() => {
+    vi.resetAllMocks();
+  });
+
+  it('should store the edited plan with an audit note and use it downstream', async () => {
+    mockAgents();
+    const store = new InMemoryContextStore();
+    const edited = { ...plan, stack: ['fastify'], decisions: ['REST API', 'Use fastify'] };
+    const { handler } = scriptedHandler([{ approved: true, result: edited, comment: 'switch framework' }]);
+
+    const orchestrator = await WorkflowOrchestrator.createWorkflow('Build a todo app', { pipeline, requireApproval: true, contextStore: store }, handler);
+    const result = await orchestrator.executeWorkflow();
+
+    expect(result.status).toBe(WorkflowStatus.COMPLETED);
+    expect(result.architecturePlan).toEqual(edited);
+    expect(result.workflow[0].result).toEqual(edited);
+    expect(result.workflow[0].approval).toMatchObject({
+      approved: true,
+      edited: true,
+      comment: 'switch framework',
+      originalResult: plan
+    });
+    // 実行記録にはエージェントの出力がそのまま残る
+    expect(result.workflow[0].attempts?.[0].output).toEqual(plan);
+
+    const implementerInput = vi.mocked(runAgentWithRetry).mock.calls[1][1];
+    expect(implementerInput).toContain('fastify');
+    expect(implementerInput).not.toContain('express');
+
+    const saved = await store.load(result.id);
+    expect(saved?.workflow[0].approval?.edited).toBe(true);
+    expect(saved?.architecturePlan?.stack).toEqual(['fastify']);
+  });
+
+  it('should fill schema defaults in the edited result', async () => {
+    mockAgents();
+    const { risks: _risks, initialBacklog: _initialBacklog, ...withoutDefaults } = plan;
+    const { handler } = scriptedHandler([{ approved: true, result: { ...withoutDefaults, projectName: 'renamed' } }]);
+
+    const orchestrator = await WorkflowOrchestrator.createWorkflow('Build a todo app', { pipeline, requireApproval: true }, handler);
+    const result = await orchestrator.executeWorkflow();
+
+    expect(result.architecturePlan).toEqual({ ...plan, projectName: 'renamed' });
+  });
+
+  it('should ask again with the validation error when the edited result is invalid', async () => {
+    mockAgents();
+    const invalid = { ...plan, stack: 'fastify' };
+    const { handler, requests } = scriptedHandler([
+      { approved: true, result: invalid },
+      { approved: true, result: { ...plan, stack: ['fastify'] } }
+    ]);
+
+    const orchestrator = await WorkflowOrchestrator.createWorkflow('Build a todo app', { pipeline, requireApproval: true }, handler);
+    const result = await orchestrator.executeWorkflow();
+
+    expect(handler).toHaveBeenCalledTimes(2);
+    expect(requests[1].data.result).toEqual(invalid);
+    expect(requests[1].data.validationError).toContain('stack');
+    expect(requests[1].message).toContain('invalid');
+    expect(result.status).toBe(WorkflowStatus.COMPLETED);
+    expect(result.architecturePlan?.stack).toEqual(['fastify']);
+    expect(result.pendingApprovals).toEqual([]);
+  });
+
+  it('should record the rejection in the audit note', async () => {
+    mockAgents();
+    const { handler } = scriptedHandler([{ approved: false, comment: 'needs a database' }]);
+
+    const orchestrator = await WorkflowOrchestrator.createWorkflow('Build a todo app', { pipeline, requireApproval: true }, handler);
+    const result = await orchestrator.executeWorkflow();
+
+    expect(result.workflow[0].approval).toMatchObject({ approved: false, edited: false, comment: 'needs a database' });
+    expect(result.architecturePlan).toEqual(plan);
+    expect(runAgentWithRetry).toHaveBeenCalledTimes(1);
+  });
+});
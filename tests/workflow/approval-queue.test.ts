@@ -0,0 +1,269 @@
+// tests/workflow/approval-queue.test.ts
+import { describe, it, expect, afterEach, vi } from 'vitest';
+import { PassThrough } from 'node:stream';
+import type { AddressInfo } from 'node:net';
+import { WorkflowOrchestrator } from '../../src/agent/workflow/WorkflowOrchestrator.js';
+import { WorkflowStage, WorkflowStatus } from '../../src/agent/workflow/ProjectContext.js';
+import { InMemoryContextStore } from '../../src/agent/workflow/ContextStore.js';
+import { ApprovalNotFoundError, ApprovalQueue } from '../../src/agent/workflow/ApprovalQueue.js';
+import type { PipelineDefinition } from '../../src/agent/workflow/pipeline.js';
+import { createTerminalApprovalHandler } from '../../src/runners/approvalPrompt.js';
+import { createServer } from '../../src/runners/serverRunner.js';
+
+vi.mock('../../src/agent/triage.js', () => ({ triageAgent: { name: 'Triage' } }));
+vi.mock('../../src/agent/researcher.js', () => ({ researcherAgent: { name: 'Researcher' } }));
+vi.mock('../../src/agent/architect.js', () => ({ architectAgent: { name: 'Architect' } }));
+vi.mock('../../src/agent/implementer.js', () => ({ implementerAgent: { name: 'Implementer' } }));
+vi.mock('../../src/agent/tester.js', () => ({ testAgent: { name: 'Test' } }));
+vi.mock('../../src/agent/reviewer.js', () => ({ reviewerAgent: { name: 'Reviewer' } }));
+vi.mock('../../src/agent/devops.js', () => ({ devopsAgent: { name: 'DevOps' } }));
+vi.mock('../../src/agent/docs.js', () => ({ docsAgent: { name: 'Docs' } }));
+
+vi.mock('../../src/utils/agentRunner.js', () => ({
+  runAgent: vi.fn(),
+  runAgentWithRetry: vi.fn()
+}));
+
+vi.mock('../../src/utils/logger.js', () => ({
+  logger: {
+    info: vi.fn(),
+    warn: vi.fn(),
+    error: vi.fn()
+  }
+}));
+
+import { runAgentWithRetry } from '../../src/utils/agentRunner.js';
+
+const pipeline: PipelineDefinition = {
+  name: 'implement-with-approval',
+  stages: [
+    { stage: WorkflowStage.IMPLEMENTATION, agent: 'Implementer', input: '{{originalRequest}}', requiresApproval: true },
+    { stage: WorkflowStage.TESTING, agent: 'Tester', requiresApproval: false }
+  ]
+};
+
+const implementation = { summary: 'initial', createdFiles: ['src/app.ts'], modifiedFiles: [], commandsToRun: [] };
+
+function mockAgents() {
+  vi.mocked(runAgentWithRetry).mockImplementation(async (agent: unknown) => {
+    await Promise.resolve();
+    if ((agent as { name: string }).name === 'Implementer') return { success: true, data: implementation };
+    return { success: true, data: { passed: 1, failed: 0, newTests: [] } };
+  });
+}
+
+async function waitForPending(queue: ApprovalQueue) {
+  await vi.waitFor(() => { expect(queue.list()).toHaveLength(1); });
+  return queue.list()[0];
+}
+
+describe('Approval queue', () => {
+  afterEach(() => {
+    vi.resetAllMocks();
+    vi.unstubAllEnvs();
+  });
+
+  it('should block the workflow and record the pending approval until a decision arrives', async () => {
+    mockAgents();
+    const queue = new ApprovalQueue();
+    const store = new InMemoryContextStore();
+
+    const orchestrator = await WorkflowOrchestrator.createWorkflow('Build', { pipeline, requireApproval: true, contextStore: store }, queue.handler);
+    const running = orchestrator.executeWorkflow();
+
+    const pending = await waitForPending(queue);
+    const context = orchestrator.getContext();
+    expect(pending).toMatchObject({ projectId: context.id, message: 'Please approve implementation stage', data: { result: implementation } });
+    expect(context.status).toBe(WorkflowStatus.REQUIRES_APPROVAL);
+    expect(context.pendingApprovals.map(approval => approval.stepId)).toEqual([pending.stepId]);
+    expect(context.workflow[0].status).toBe(WorkflowStatus.REQUIRES_APPROVAL);
+    await vi.waitFor(async () => { expect((await store.load(context.id))?.pendingApprovals).toHaveLength(1); });
+    expect(runAgentWithRetry).toHaveBeenCalledTimes(1);
+
+    queue.decide(pending.stepId, { approved: true });
+    const result = await running;
+
+    expect(result.status).toBe(WorkflowStatus.COMPLETED);
+    expect(result.pendingApprovals).toEqual([]);
+    expect(result.workflow[0]).toMatchObject({ status: WorkflowStatus.COMPLETED, approved: true });
+    expect(queue.list()).toEqual([]);
+  });
+
+  it('should keep separate approvals for workflows started in the same millisecond', async () => {
+    mockAgents();
+    const queue = new ApprovalQueue();
+    vi.spyOn(Date, 'now').mockReturnValue(Date.parse('2026-10-18T00:00:00Z'));
+    const first = await WorkflowOrchestrator.createWorkflow('Build A', { pipeline, requireApproval: true }, queue.handler);
+    const second = await WorkflowOrchestrator.createWorkflow('Build B', { pipeline, requireApproval: true }, queue.handler);
+    vi.mocked(Date.now).mockRestore();
+
+    const runningFirst = first.executeWorkflow();
+    const runningSecond = second.executeWorkflow();
+    await vi.waitFor(() => { expect(queue.list()).toHaveLength(2); });
+
+    const firstApproval = queue.list().find(approval => approval.projectId === first.getContext().id);
+    queue.decide(firstApproval?.stepId ?? '', { approved: false, comment: 'not this one' });
+    expect((await runningFirst).workflow[0].status).toBe(WorkflowStatus.FAILED);
+    expect(queue.list().map(approval => approval.projectId)).toEqual([second.getContext().id]);
+
+    queue.decide(queue.list()[0].stepId, { approved: true });
+    expect((await runningSecond).status).toBe(WorkflowStatus.COMPLETED);
+  });
+
+  it('should fail the step and stop the workflow when rejected', async () => {
+    mockAgents();
+    const queue = new ApprovalQueue();
+
+    const orchestrator = await WorkflowOrchestrator.createWorkflow('Build', { pipeline, requireApproval: true }, queue.handler);
+    const running = orchestrator.executeWorkflow();
+    queue.decide((await waitForPending(queue)).stepId, { approved: false, comment: 'wrong approach' });
+    const result = await running;
+
+    expect(result.workflow[0]).toMatchObject({ status: WorkflowStatus.FAILED, approved: false, error: 'User approval declined: wrong approach' });
+    expect(result.workflow[1].status).toBe(WorkflowStatus.PENDING);
+    expect(result.pendingApprovals).toEqual([]);
+  });
+
+  it('should pass an edited result downstream', async () => {
+    mockAgents();
+    const queue = new ApprovalQueue();
+
+    const orchestrator = await WorkflowOrchestrator.createWorkflow('Build', { pipeline, requireApproval: true }, queue.handler);
+    const running = orchestrator.executeWorkflow();
+    queue.decide((await waitForPending(queue)).stepId, { approved: true, result: { ...implementation, summary: 'edited by reviewer' } });
+    const result = await running;
+
+    expect(result.implementationResult?.summary).toBe('edited by reviewer');
+    expect(vi.mocked(runAgentWithRetry).mock.calls[1][1]).toContain('edited by reviewer');
+  });
+
+  it('should drop the pending approval when the workflow is cancelled', async () => {
+    mockAgents();
+    const queue = new ApprovalQueue();
+
+    const orchestrator = await WorkflowOrchestrator.createWorkflow('Build', { pipeline, requireApproval: true }, queue.handler);
+    const running = orchestrator.executeWorkflow();
+    await waitForPending(queue);
+    orchestrator.cancel();
+    const result = await running;
+
+    expect(result.status).toBe(WorkflowStatus.CANCELLED);
+    expect(result.workflow[0].status).toBe(WorkflowStatus.CANCELLED);
+    expect(queue.list()).toEqual([]);
+    expect(() => { queue.decide(result.workflow[0].id, { approved: true }); }).toThrow(ApprovalNotFoundError);
+  });
+
+  it('should remove the abort listener once the approval is decided', async () => {
+    const queue = new ApprovalQueue();
+    const controller = new AbortController();
+    const addListener = vi.spyOn(controller.signal, 'addEventListener');
+    const removeListener = vi.spyOn(controller.signal, 'removeEventListener');
+    const context = (await WorkflowOrchestrator.createWorkflow('Build', { pipeline })).getContext();
+
+    const data = { agentName: 'Implementer', stepId: 'step_1', input: 'Build' };
+    const decision = queue.handler('step_1', 'Please approve', data, context, controller.signal);
+    queue.decide('step_1', { approved: true });
+
+    expect(await decision).toEqual({ approved: true });
+    expect(removeListener).toHaveBeenCalledWith('abort', addListener.mock.calls[0][1]);
+  });
+
+  it('should not keep abort listeners on the workflow signal after approvals are decided', async () => {
+    mockAgents();
+    const addListener = vi.spyOn(AbortSignal.prototype, 'addEventListener');
+    const removeListener = vi.spyOn(AbortSignal.prototype, 'removeEventListener');
+    const twoApprovals: PipelineDefinition = {
+      name: 'two-approvals',
+      stages: pipeline.stages.map(stage => ({ ...stage, requiresApproval: true }))
+    };
+
+    const orchestrator = await WorkflowOrchestrator.createWorkflow('Build', { pipeline: twoApprovals, requireApproval: true }, () => Promise.resolve(true));
+    const result = await orchestrator.executeWorkflow();
+
+    expect(result.status).toBe(WorkflowStatus.COMPLETED);
+    const listeners = (spy: typeof addListener | typeof removeListener) =>
+      spy.mock.calls.filter(([type]) => type === 'abort').map(([, listener]) => listener);
+    expect(listeners(addListener)).toHaveLength(2);
+    expect(listeners(removeListener)).toEqual(listeners(addListener));
+    addListener.mockRestore();
+    removeListener.mockRestore();
+  });
+
+  it('should list and decide approvals through the server', async () => {
+    mockAgents();
+    vi.stubEnv('LOG_LEVEL', 'error');
+    const queue = new ApprovalQueue();
+
+    const orchestrator = await WorkflowOrchestrator.createWorkflow('Build', { pipeline, requireApproval: true }, queue.handler);
+    const running = orchestrator.executeWorkflow();
+    const pending = await waitForPending(queue);
+
+    const server = createServer({ approvals: queue }).listen(0);
+    try {
+      const baseUrl = `http://127.0.0.1:${(server.address() as AddressInfo).port.toString()}`;
+      const post = (stepId: string, body: unknown) => fetch(`${baseUrl}/approvals/${stepId}`, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify(body)
+      });
+
+      const list = await fetch(`${baseUrl}/approvals`);
+      expect(await list.json()).toMatchObject({ approvals: [{ stepId: pending.stepId, projectId: orchestrator.getContext().id }] });
+
+      expect((await post(pending.stepId, { approved: 'yes' })).status).toBe(400);
+      expect((await post('step_unknown', { approved: true })).status).toBe(404);
+      expect((await post(pending.stepId, { approved: true })).status).toBe(200);
+
+      expect((await running).status).toBe(WorkflowStatus.COMPLETED);
+    } finally {
+      server.close();
+    }
+  });
+});
+
+describe('Terminal approval prompt', () => {
+  const data = { agentName: 'Architect', stepId: 'step_0', input: 'architecture stage processing', result: { projectName: 'demo' } };
+
+  async function answer(lines: string[], editResult?: (result: unknown) => Promise<unknown>) {
+    const input = new PassThrough();
+    const output = new PassThrough();
+    let printed = '';
+    const answers = [...lines];
+    // 質問が表示されるたびに1行ずつ回答する
+    output.on('data', (chunk: Buffer) => {
+      printed += chunk.toString();
+      if (chunk.toString().endsWith(': ') && answers.length > 0) {
+        input.write(`${answers.shift() ?? ''}\n`);
+      }
+    });
+
+    const handler = createTerminalApprovalHandler({ input, output, editResult });
+    const decision = await handler('step_0', 'Please approve architecture stage', data, {} as never);
+    return { decision, printed };
+  }
+
+  it('should approve, and ask again on unknown answers', async () => {
+    const { decision, printed } = await answer(['maybe', 'a']);
+
+    expect(decision).toEqual({ approved: true });
+    expect(printed).toContain('"projectName": "demo"');
+    expect(printed).toContain('Please answer a, r or e');
+  });
+
+  it('should reject with a reason', async () => {
+    const { decision } = await answer(['r', 'too complex']);
+
+    expect(decision).toEqual({ approved: false, comment: 'too complex' });
+  });
+
+  it('should approve with the edited result', async () => {
+    const editResult = vi.fn(async (result: unknown) => {
+      await Promise.resolve();
+      return { ...(result as object), projectName: 'renamed' };
+    });
+    const { decision } = await answer(['e'], editResult);
+
+    expect(editResult).toHaveBeenCalledWith({ projectName: 'demo' });
+    expect(decision).toMatchObject({ approved: true, result: { projectName: 'renamed' } });
+  });
+});
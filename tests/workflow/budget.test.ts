@@ -0,0 +1,150 @@
+// tests/workflow/budget.test.ts
+import { describe, it, expect, afterEach, vi } from 'vitest';
+import { WorkflowOrchestrator } from '../../src/agent/workflow/WorkflowOrchestrator.js';
+import { WorkflowStage, WorkflowStatus, emptyUsage } from '../../src/agent/workflow/ProjectContext.js';
+import { calculateCost, getBudgetViolation, WorkflowBudgetSchema } from '../../src/agent/workflow/budget.js';
+import type { PipelineDefinition } from '../../src/agent/workflow/pipeline.js';
+import type { AgentRunResult } from '../../src/utils/agentRunner.js';
+
+vi.mock('../../src/agent/triage.js', () => ({ triageAgent: { name: 'Triage' } }));
+vi.mock('../../src/agent/researcher.js', () => ({
+  researcherAgent: {
+    name: 'Researcher',
+    clone: vi.fn((config: { model: string }) => ({ name: 'Researcher', model: config.model }))
+  }
+}));
+vi.mock('../../src/agent/architect.js', () => ({ architectAgent: { name: 'Architect' } }));
+vi.mock('../../src/agent/implementer.js', () => ({ implementerAgent: { name: 'Implementer' } }));
+vi.mock('../../src/agent/tester.js', () => ({ testAgent: { name: 'Test' } }));
+vi.mock('../../src/agent/reviewer.js', () => ({ reviewerAgent: { name: 'Reviewer' } }));
+vi.mock('../../src/agent/devops.js', () => ({ devopsAgent: { name: 'DevOps' } }));
+vi.mock('../../src/agent/docs.js', () => ({ docsAgent: { name: 'Docs' } }));
+
+vi.mock('../../src/utils/agentRunner.js', () => ({
+  runAgent: vi.fn(),
+  runAgentWithRetry: vi.fn()
+}));
+
+const warn = vi.hoisted(() => vi.fn());
+
+vi.mock('../../src/utils/logger.js', () => ({
+  logger: {
+    info: vi.fn(),
+    warn,
+    error: vi.fn()
+  }
+}));
+
+import { runAgentWithRetry } from '../../src/utils/agentRunner.js';
+
+// ResearchResult スキーマに適合する最小の調査結果
+const researchResult = (summary: string) => ({
+  summary,
+  findings: [],
+  recommendations: [],
+  technicalConsiderations: [],
+  potentialChallenges: [],
+  bestPractices: []
+});
+
+const pipeline: PipelineDefinition = {
+  name: 'budgeted',
+  stages: [
+    { stage: WorkflowStage.TRIAGE, agent: 'Triage', requiresApproval: false },
+    { stage: WorkflowStage.RESEARCH, agent: 'Researcher', requiresApproval: false }
+  ]
+};
+
+function resultWithUsage(data: unknown, inputTokens: number, outputTokens: number): AgentRunResult {
+  return {
+    success: true,
+    data,
+    metadata: {
+      model: 'gpt-4.1',
+      tokens: inputTokens + outputTokens,
+      usage: { inputTokens, outputTokens, totalTokens: inputTokens + outputTokens, requests: 1 }
+    }
+  };
+}
+
+describe('Workflow Budgets', () => {
+  afterEach(() => {
+    vi.clearAllMocks();
+  });
+
+  it('should calculate cost from the price table', () => {
+    const usage = { inputTokens: 1_000_000, outputTokens: 500_000, totalTokens: 1_500_000, requests: 3 };
+
+    expect(calculateCost(usage, 'gpt-4.1')).toBeCloseTo(6);
+    expect(calculateCost(usage, 'custom', { custom: { inputPerMillion: 1, outputPerMillion: 2 } })).toBeCloseTo(2);
+    expect(calculateCost(usage, 'unknown-model')).toBe(0);
+  });
+
+  it('should warn once per model that is not in the price table', () => {
+    const usage = { inputTokens: 1000, outputTokens: 500, totalTokens: 1500, requests: 1 };
+
+    expect(calculateCost(usage, 'llama3.1:8b')).toBe(0);
+    expect(calculateCost(usage, 'llama3.1:8b')).toBe(0);
+    expect(calculateCost(usage, 'gpt-4.1')).toBeGreaterThan(0);
+
+    expect(warn).toHaveBeenCalledTimes(1);
+    expect(warn.mock.calls[0][0]).toContain('No pricing for llama3.1:8b');
+  });
+
+  it('should report token and cost budget violations', () => {
+    const budget = WorkflowBudgetSchema.parse({ maxTokens: 1000, maxCostUsd: 0.5 });
+
+    expect(getBudgetViolation({ ...emptyUsage(), totalTokens: 999 }, budget)).toBeNull();
+    expect(getBudgetViolation({ ...emptyUsage(), totalTokens: 1000 }, budget)).toContain('Token budget exceeded');
+    expect(getBudgetViolation({ ...emptyUsage(), costUsd: 0.6 }, budget)).toContain('Cost budget exceeded');
+    expect(getBudgetViolation({ ...emptyUsage(), totalTokens: 5000 }, undefined)).toBeNull();
+  });
+
+  it('should aggregate usage per step and per workflow', async () => {
+    vi.mocked(runAgentWithRetry)
+      .mockResolvedValueOnce(resultWithUsage({ memo: 'triaged' }, 1000, 200))
+      .mockResolvedValueOnce(resultWithUsage(researchResult('researched'), 3000, 800));
+
+    const orchestrator = await WorkflowOrchestrator.createWorkflow('Count tokens', { pipeline });
+    const result = await orchestrator.executeWorkflow();
+
+    expect(result.workflow[0].usage).toMatchObject({ inputTokens: 1000, outputTokens: 200, totalTokens: 1200, requests: 1 });
+    expect(result.workflow[1].usage?.totalTokens).toBe(3800);
+    expect(result.usage).toMatchObject({ inputTokens: 4000, outputTokens: 1000, totalTokens: 5000, requests: 2 });
+    expect(result.usage.costUsd).toBeCloseTo((4000 * 2 + 1000 * 8) / 1_000_000);
+  });
+
+  it('should stop the workflow when the budget is exceeded', async () => {
+    vi.mocked(runAgentWithRetry).mockResolvedValue(resultWithUsage({ memo: 'expensive' }, 4000, 1000));
+    const onExceeded = vi.fn();
+
+    const orchestrator = await WorkflowOrchestrator.createWorkflow('Stop me', {
+      pipeline,
+      budget: WorkflowBudgetSchema.parse({ maxTokens: 5000 })
+    });
+    orchestrator.events.on('budget:exceeded', onExceeded);
+    const result = await orchestrator.executeWorkflow();
+
+    expect(runAgentWithRetry).toHaveBeenCalledTimes(1);
+    expect(onExceeded).toHaveBeenCalledWith(expect.objectContaining({ action: 'stop' }));
+    expect(result.workflow[1].status).toBe(WorkflowStatus.PENDING);
+    expect(result.status).not.toBe(WorkflowStatus.COMPLETED);
+    expect(result.errors[0].error).toContain('Token budget exceeded');
+  });
+
+  it('should continue with the downgrade model when configured', async () => {
+    vi.mocked(runAgentWithRetry)
+      .mockResolvedValueOnce(resultWithUsage({ memo: 'expensive' }, 4000, 1000))
+      .mockResolvedValueOnce(resultWithUsage(researchResult('cheap'), 100, 10));
+
+    const orchestrator = await WorkflowOrchestrator.createWorkflow('Downgrade me', {
+      pipeline,
+      budget: WorkflowBudgetSchema.parse({ maxTokens: 5000, onExceeded: 'downgrade', downgradeModel: 'gpt-4.1-nano' })
+    });
+    const result = await orchestrator.executeWorkflow();
+
+    expect(runAgentWithRetry).toHaveBeenCalledTimes(2);
+    expect(vi.mocked(runAgentWithRetry).mock.calls[1][0]).toEqual({ name: 'Researcher', model: 'gpt-4.1-nano' });
+    expect(result.status).toBe(WorkflowStatus.COMPLETED);
+  });
+});
@@ -0,0 +1,122 @@
+// tests/workflow/error-policies.test.ts
+import { describe, it, expect, afterEach, vi } from 'vitest';
+import { WorkflowOrchestrator } from '../../src/agent/workflow/WorkflowOrchestrator.js';
+import { WorkflowStage, WorkflowStatus } from '../../src/agent/workflow/ProjectContext.js';
+import type { PipelineDefinition } from '../../src/agent/workflow/pipeline.js';
+import type { AgentErrorCategory } from '../../src/utils/agentErrors.js';
+
+vi.mock('../../src/agent/triage.js', () => ({ triageAgent: { name: 'Triage' } }));
+vi.mock('../../src/agent/researcher.js', () => ({ researcherAgent: { name: 'Researcher' } }));
+vi.mock('../../src/agent/architect.js', () => ({ architectAgent: { name: 'Architect' } }));
+vi.mock('../../src/agent/implementer.js', () => ({ implementerAgent: { name: 'Implementer' } }));
+vi.mock('../../src/agent/tester.js', () => ({ testAgent: { name: 'Test' } }));
+vi.mock('../../src/agent/reviewer.js', () => ({ reviewerAgent: { name: 'Reviewer' } }));
+vi.mock('../../src/agent/devops.js', () => ({ devopsAgent: { name: 'DevOps' } }));
+vi.mock('../../src/agent/docs.js', () => ({ docsAgent: { name: 'Docs' } }));
+
+vi.mock('../../src/utils/agentRunner.js', () => ({
+  runAgent: vi.fn(),
+  runAgentWithRetry: vi.fn()
+}));
+
+vi.mock('../../src/utils/logger.js', () => ({
+  logger: {
+    info: vi.fn(),
+    warn: vi.fn(),
+    error: vi.fn()
+  }
+}));
+
+import { runAgentWithRetry } from '../../src/utils/agentRunner.js';
+
+const pipeline: PipelineDefinition = {
+  name: 'research-design',
+  stages: [
+    { stage: WorkflowStage.RESEARCH, agent: 'Researcher', input: '{{originalRequest}}', requiresApproval: false },
+    { stage: WorkflowStage.ARCHITECTURE, agent: 'Architect', requiresApproval: false }
+  ]
+};
+
+// Researcher は指定した分類のエラーで失敗し、Architect は成功する
+function mockResearcherFailure(category: AgentErrorCategory) {
+  vi.mocked(runAgentWithRetry).mockImplementation(async (agent: unknown) => {
+    await Promise.resolve();
+    if ((agent as { name: string }).name === 'Researcher') {
+      return { success: false, error: `${category} failure`, metadata: { errorType: 'TestError', errorCategory: category }, recoverable: false };
+    }
+    return {
+      success: true,
+      data: { projectName: 'app', stack: [], services: [], directories: [], envVars: [], decisions: [], risks: [], initialBacklog: [] }
+    };
+  });
+}
+
+describe('Error policies', () => {
+  afterEach(() => {
+    vi.resetAllMocks();
+  });
+
+  it('should stop the workflow for categories with the abort policy', async () => {
+    mockResearcherFailure('permission');
+
+    const orchestrator = await WorkflowOrchestrator.createWorkflow('Design', { pipeline });
+    const result = await orchestrator.executeWorkflow();
+
+    expect(result.workflow.map(step => step.status)).toEqual([WorkflowStatus.FAILED, WorkflowStatus.PENDING]);
+    expect(result.workflow[0].error).toBe('permission failure');
+    expect(result.errors).toEqual([expect.objectContaining({ stage: WorkflowStage.RESEARCH, category: 'permission' })]);
+  });
+
+  it('should continue with the remaining stages for retry and skip policies', async () => {
+    mockResearcherFailure('model');
+
+    const orchestrator = await WorkflowOrchestrator.createWorkflow('Design', { pipeline });
+    const result = await orchestrator.executeWorkflow();
+
+    expect(result.workflow.map(step => step.status)).toEqual([WorkflowStatus.FAILED, WorkflowStatus.COMPLETED]);
+    expect(result.errors[0].category).toBe('model');
+  });
+
+  it('should apply policy overrides from the workflow config', async () => {
+    mockResearcherFailure('permission');
+
+    const orchestrator = await WorkflowOrchestrator.createWorkflow('Design', { pipeline, errorPolicies: { permission: 'skip', model: 'abort' } });
+    const result = await orchestrator.executeWorkflow();
+
+    // skip の方針のステップは失敗ではなくスキップとして記録する
+    expect(result.workflow.map(step => step.status)).toEqual([WorkflowStatus.SKIPPED, WorkflowStatus.COMPLETED]);
+    expect(result.workflow[0].error).toBe('Skipped by permission error policy: permission failure');
+    expect(result.workflow[0].attempts?.map(attempt => attempt.status)).toEqual([WorkflowStatus.SKIPPED]);
+    expect(vi.mocked(runAgentWithRetry).mock.calls[0][3]).toMatchObject({ errorPolicies: { permission: 'skip', model: 'abort' } });
+  });
+
+  it('should treat results without a category as unknown errors', async () => {
+    vi.mocked(runAgentWithRetry).mockResolvedValue({ success: false, error: 'authentication failed', recoverable: false });
+
+    const orchestrator = await WorkflowOrchestrator.createWorkflow('Design', { pipeline, errorPolicies: { unknown: 'abort' } });
+    const result = await orchestrator.executeWorkflow();
+
+    expect(result.errors).toEqual([expect.objectContaining({ category: 'unknown', error: 'authentication failed' })]);
+    expect(result.workflow[1].status).toBe(WorkflowStatus.PENDING);
+  });
+
+  it('should classify invalid stage results as validation errors', async () => {
+    vi.mocked(runAgentWithRetry).mockResolvedValueOnce({ success: true, data: { summary: 'incomplete' } });
+
+    const orchestrator = await WorkflowOrchestrator.createWorkflow('Design', {
+      pipeline: {
+        name: 'design-implement',
+        stages: [
+          { stage: WorkflowStage.ARCHITECTURE, agent: 'Architect', input: '{{originalRequest}}', requiresApproval: false },
+          { stage: WorkflowStage.IMPLEMENTATION, agent: 'Implementer', requiresApproval: false }
+        ]
+      },
+      errorPolicies: { validation: 'abort' }
+    });
+    const result = await orchestrator.executeWorkflow();
+
+    expect(result.errors).toEqual([expect.objectContaining({ stage: WorkflowStage.ARCHITECTURE, category: 'validation' })]);
+    expect(result.workflow[0].status).toBe(WorkflowStatus.FAILED);
+    expect(result.workflow[1].status).toBe(WorkflowStatus.PENDING);
+  });
+});
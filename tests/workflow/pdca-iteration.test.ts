@@ -0,0 +1,151 @@
+// tests/workflow/pdca-iteration.test.ts
+import { describe, it, expect, afterEach, vi } from 'vitest';
+import { WorkflowOrchestrator } from '../../src/agent/workflow/WorkflowOrchestrator.js';
+import { WorkflowStage, WorkflowStatus } from '../../src/agent/workflow/ProjectContext.js';
+import type { PipelineDefinition } from '../../src/agent/workflow/pipeline.js';
+
+vi.mock('../../src/agent/triage.js', () => ({ triageAgent: { name: 'Triage' } }));
+vi.mock('../../src/agent/researcher.js', () => ({ researcherAgent: { name: 'Researcher' } }));
+vi.mock('../../src/agent/architect.js', () => ({ architectAgent: { name: 'Architect' } }));
+vi.mock('../../src/agent/implementer.js', () => ({ implementerAgent: { name: 'Implementer' } }));
+vi.mock('../../src/agent/tester.js', () => ({ testAgent: { name: 'Test' } }));
+vi.mock('../../src/agent/reviewer.js', () => ({ reviewerAgent: { name: 'Reviewer' } }));
+vi.mock('../../src/agent/devops.js', () => ({ devopsAgent: { name: 'DevOps' } }));
+vi.mock('../../src/agent/docs.js', () => ({ docsAgent: { name: 'Docs' } }));
+
+vi.mock('../../src/utils/agentRunner.js', () => ({
+  runAgent: vi.fn(),
+  runAgentWithRetry: vi.fn()
+}));
+
+vi.mock('../../src/utils/logger.js', () => ({
+  logger: {
+    info: vi.fn(),
+    warn: vi.fn(),
+    error: vi.fn()
+  }
+}));
+
+import { runAgentWithRetry } from '../../src/utils/agentRunner.js';
+
+const pipeline: PipelineDefinition = {
+  name: 'implement-test-review',
+  stages: [
+    { stage: WorkflowStage.IMPLEMENTATION, agent: 'Implementer', input: '{{originalRequest}}', requiresApproval: false },
+    { stage: WorkflowStage.TESTING, agent: 'Tester', requiresApproval: false },
+    { stage: WorkflowStage.REVIEW, agent: 'Reviewer', requiresApproval: false }
+  ]
+};
+
+function implementation(round: number) {
+  return { summary: `attempt ${round.toString()}`, createdFiles: [], modifiedFiles: [`src/round${round.toString()}.ts`], commandsToRun: [] };
+}
+
+function review(messages: string[]) {
+  return {
+    summary: 'review',
+    issues: messages.map(message => ({ kind: 'bug', path: 'src/app.ts', message, severity: 'error' as const })),
+    score: messages.length > 0 ? 40 : 95,
+    actionItems: []
+  };
+}
+
+// 反復ごとのテスト結果とレビュー指摘を指定してエージェントをモックする
+function mockRounds(rounds: { failed: number; issues: string[]; newTests?: string[] }[]) {
+  let implementerRuns = 0;
+  vi.mocked(runAgentWithRetry).mockImplementation(async (agent: unknown) => {
+    const name = (agent as { name: string }).name;
+    const round = rounds[Math.max(0, Math.min(implementerRuns, rounds.length) - 1)];
+    if (name === 'Implementer') {
+      implementerRuns++;
+      return { success: true, data: implementation(implementerRuns) };
+    }
+    if (name === 'Test') return { success: true, data: { passed: 3, failed: round.failed, newTests: round.newTests ?? [] } };
+    return { success: true, data: review(round.issues) };
+  });
+}
+
+function implementerPrompts(): string[] {
+  return vi.mocked(runAgentWithRetry).mock.calls
+    .filter(call => (call[0] as { name: string }).name === 'Implementer')
+    .map(call => call[1]);
+}
+
+describe('PDCA iteration loop', () => {
+  afterEach(() => {
+    vi.resetAllMocks();
+  });
+
+  it('should feed failing tests, error review issues and the previous implementation back to the Implementer', async () => {
+    mockRounds([
+      { failed: 0, issues: ['null check missing'] },
+      { failed: 0, issues: [] }
+    ]);
+
+    const orchestrator = await WorkflowOrchestrator.createWorkflow('Fix bugs', { pipeline, maxIterations: 3 });
+    const result = await orchestrator.executeWorkflow();
+
+    const prompts = implementerPrompts();
+    expect(prompts).toHaveLength(2);
+    expect(prompts[0]).not.toContain('前回の反復で検出された問題');
+    expect(prompts[1]).toContain('前回の反復で検出された問題');
+    expect(prompts[1]).toContain('null check missing');
+    expect(prompts[1]).toContain('src/round1.ts');
+
+    expect(result.iterations).toHaveLength(1);
+    expect(result.iterations[0]).toMatchObject({
+      iteration: 1,
+      reviewIssues: [{ message: 'null check missing', severity: 'error' }],
+      previousImplementation: { summary: 'attempt 1' }
+    });
+    expect(result.status).toBe(WorkflowStatus.COMPLETED);
+  });
+
+  it('should record failing test reports and keep iterating while failures change', async () => {
+    mockRounds([
+      { failed: 2, issues: [] },
+      { failed: 1, issues: [] },
+      { failed: 0, issues: [] }
+    ]);
+
+    const orchestrator = await WorkflowOrchestrator.createWorkflow('Make tests pass', { pipeline, maxIterations: 3 });
+    const result = await orchestrator.executeWorkflow();
+
+    expect(result.iterationCount).toBe(2);
+    expect(result.iterations.map(record => record.failingTests?.failed)).toEqual([2, 1]);
+    expect(implementerPrompts()[2]).toContain('"failed": 1');
+  });
+
+  it('should stop early when two iterations produce the same failures', async () => {
+    mockRounds([
+      { failed: 1, issues: [] },
+      { failed: 1, issues: [] },
+      { failed: 0, issues: [] }
+    ]);
+
+    const orchestrator = await WorkflowOrchestrator.createWorkflow('Stuck', { pipeline, maxIterations: 3 });
+    const result = await orchestrator.executeWorkflow();
+
+    expect(implementerPrompts()).toHaveLength(2);
+    expect(result.iterationCount).toBe(1);
+    expect(result.iterations).toHaveLength(1);
+  });
+
+  it('should keep iterating when the failure count is the same but the failures differ', async () => {
+    mockRounds([
+      { failed: 1, issues: [], newTests: ['parses empty input'] },
+      { failed: 1, issues: [], newTests: ['rejects invalid dates'] },
+      { failed: 0, issues: [] }
+    ]);
+
+    const orchestrator = await WorkflowOrchestrator.createWorkflow('Different failures', { pipeline, maxIterations: 3 });
+    const result = await orchestrator.executeWorkflow();
+
+    expect(implementerPrompts()).toHaveLength(3);
+    expect(result.iterations.map(record => record.failingTests?.newTests)).toEqual([
+      ['parses empty input'],
+      ['rejects invalid dates']
+    ]);
+    expect(result.status).toBe(WorkflowStatus.COMPLETED);
+  });
+});
@@ -0,0 +1,130 @@
+// tests/workflow/run-policies.test.ts
+import { describe, it, expect, afterEach, vi } from 'vitest';
+import { WorkflowOrchestrator } from '../../src/agent/workflow/WorkflowOrchestrator.js';
+import { WorkflowStage } from '../../src/agent/workflow/ProjectContext.js';
+import type { PipelineDefinition } from '../../src/agent/workflow/pipeline.js';
+import { DEFAULT_RUN_POLICY, RunPoliciesSchema, resolveRunPolicy } from '../../src/agent/workflow/runPolicy.js';
+import { ConfigSchema } from '../../src/utils/config.js';
+import { AgentResponseCache } from '../../src/utils/agentCache.js';
+
+vi.mock('../../src/agent/triage.js', () => ({ triageAgent: { name: 'Triage' } }));
+vi.mock('../../src/agent/researcher.js', () => ({ researcherAgent: { name: 'Researcher' } }));
+vi.mock('../../src/agent/architect.js', () => ({ architectAgent: { name: 'Architect' } }));
+vi.mock('../../src/agent/implementer.js', () => ({ implementerAgent: { name: 'Implementer' } }));
+vi.mock('../../src/agent/tester.js', () => ({ testAgent: { name: 'Test' } }));
+vi.mock('../../src/agent/reviewer.js', () => ({ reviewerAgent: { name: 'Reviewer' } }));
+vi.mock('../../src/agent/devops.js', () => ({ devopsAgent: { name: 'DevOps' } }));
+vi.mock('../../src/agent/docs.js', () => ({ docsAgent: { name: 'Docs' } }));
+
+vi.mock('../../src/utils/agentRunner.js', () => ({
+  runAgent: vi.fn(),
+  runAgentWithRetry: vi.fn()
+}));
+
+vi.mock('../../src/utils/logger.js', () => ({
+  logger: {
+    info: vi.fn(),
+    warn: vi.fn(),
+    error: vi.fn()
+  }
+}));
+
+import { runAgentWithRetry } from '../../src/utils/agentRunner.js';
+
+const pipeline: PipelineDefinition = {
+  name: 'research-docs',
+  stages: [
+    { stage: WorkflowStage.RESEARCH, agent: 'Researcher', input: '{{originalRequest}}', requiresApproval: false },
+    { stage: WorkflowStage.DOCUMENTATION, agent: 'Docs', requiresApproval: false }
+  ]
+};
+
+describe('Run policies', () => {
+  afterEach(() => {
+    vi.resetAllMocks();
+  });
+
+  it('should resolve each setting from stages, agents and default in that order', () => {
+    const policies = RunPoliciesSchema.parse({
+      default: { retries: 1, backoff: { jitter: true } },
+      agents: { Researcher: { timeoutMs: 300000, retries: 4, backoff: { strategy: 'fixed' } } },
+      stages: { research: { retries: 0, maxTurns: 30 } }
+    });
+
+    expect(resolveRunPolicy(policies, WorkflowStage.RESEARCH, 'Researcher')).toEqual({
+      timeoutMs: 300000,
+      retries: 0,
+      maxTurns: 30,
+      cache: true,
+      backoff: { ...DEFAULT_RUN_POLICY.backoff, strategy: 'fixed', jitter: true }
+    });
+    expect(resolveRunPolicy(policies, WorkflowStage.DOCUMENTATION, 'Docs')).toEqual({
+      ...DEFAULT_RUN_POLICY,
+      retries: 1,
+      backoff: { ...DEFAULT_RUN_POLICY.backoff, jitter: true }
+    });
+    expect(resolveRunPolicy(undefined, WorkflowStage.DOCUMENTATION, 'Docs')).toEqual(DEFAULT_RUN_POLICY);
+  });
+
+  it('should reject unknown stages in the configuration', () => {
+    const result = ConfigSchema.safeParse({ workflow: { runPolicies: { stages: { deploy: { retries: 1 } } } } });
+
+    expect(result.success).toBe(false);
+  });
+
+  it('should run each stage with its own timeout, retries, backoff and max turns', async () => {
+    vi.mocked(runAgentWithRetry).mockImplementation(async (agent: unknown) => {
+      await Promise.resolve();
+      if ((agent as { name: string }).name === 'Researcher') {
+        return {
+          success: true,
+          data: { summary: 'api', findings: [], recommendations: [], technicalConsiderations: [], potentialChallenges: [], bestPractices: [] }
+        };
+      }
+      return { success: true, data: { files: ['README.md'], changelogEntry: 'Document the API' } };
+    });
+
+    const orchestrator = await WorkflowOrchestrator.createWorkflow('Document the API', {
+      pipeline,
+      maxTurns: 15,
+      runPolicies: {
+        stages: {
+          research: { timeoutMs: 600000, retries: 4, backoff: { strategy: 'exponential', jitter: true } },
+          documentation: { timeoutMs: 60000, retries: 0 }
+        },
+        agents: { Docs: { maxTurns: 5, backoff: { strategy: 'fixed', baseDelayMs: 200 } } }
+      }
+    });
+    await orchestrator.executeWorkflow();
+
+    const calls = vi.mocked(runAgentWithRetry).mock.calls;
+    expect(calls[0][2]).toBe(4);
+    expect(calls[0][3]).toMatchObject({
+      timeout: 600000,
+      maxTurns: 15,
+      backoff: { strategy: 'exponential', baseDelayMs: 1000, maxDelayMs: 5000, jitter: true }
+    });
+    expect(calls[1][2]).toBe(0);
+    expect(calls[1][3]).toMatchObject({
+      timeout: 60000,
+      maxTurns: 5,
+      backoff: { strategy: 'fixed', baseDelayMs: 200 }
+    });
+  });
+
+  it('should bypass the response cache for stages with cache disabled', async () => {
+    vi.mocked(runAgentWithRetry).mockResolvedValue({ success: true, data: { summary: 'ok' } });
+    const cache = new AgentResponseCache({ dir: 'unused' });
+
+    const orchestrator = await WorkflowOrchestrator.createWorkflow('Document the API', {
+      pipeline,
+      cache,
+      runPolicies: { stages: { documentation: { cache: false } } }
+    });
+    await orchestrator.executeWorkflow();
+
+    const calls = vi.mocked(runAgentWithRetry).mock.calls;
+    expect(calls[0][3]?.cache).toBe(cache);
+    expect(calls[1][3]?.cache).toBeUndefined();
+  });
+});
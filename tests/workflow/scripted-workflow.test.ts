@@ -0,0 +1,117 @@
+// tests/workflow/scripted-workflow.test.ts
+import { describe, it, expect, beforeAll, afterAll, afterEach, vi } from 'vitest';
+import { WorkflowOrchestrator } from '../../src/agent/workflow/WorkflowOrchestrator.js';
+import { WorkflowStage, WorkflowStatus } from '../../src/agent/workflow/ProjectContext.js';
+import type { PipelineDefinition } from '../../src/agent/workflow/pipeline.js';
+import { ScriptedModelProvider } from '../../src/utils/mockModelProvider.js';
+import { sharedRunner } from '../../src/utils/sharedRunner.js';
+
+vi.mock('../../src/agent/triage.js', () => ({ triageAgent: { name: 'Triage' } }));
+
+// 実際のエージェントの outputType は Structured Outputs で使えない .optional() を含むため、
+// 同じ名前で必須項目のみのスキーマを持つ実物の Agent に差し替える
+vi.mock('../../src/agent/architect.js', async () => {
+  const { Agent } = await import('@openai/agents');
+  const { z } = await import('zod');
+  return {
+    architectAgent: new Agent({
+      name: 'Architect/Scaffold',
+      instructions: 'あなたはアプリケーションのアーキテクトです。',
+      outputType: z.object({
+        projectName: z.string(),
+        stack: z.array(z.string()),
+        services: z.array(z.string()),
+        directories: z.array(z.string()),
+        envVars: z.array(z.string()),
+        decisions: z.array(z.string())
+      })
+    })
+  };
+});
+
+vi.mock('../../src/agent/implementer.js', async () => {
+  const { Agent } = await import('@openai/agents');
+  const { z } = await import('zod');
+  return {
+    implementerAgent: new Agent({
+      name: 'Implementer',
+      instructions: 'あなたは実装担当です。',
+      outputType: z.object({ summary: z.string(), createdFiles: z.array(z.string()) })
+    })
+  };
+});
+
+vi.mock('../../src/utils/logger.js', () => ({
+  logger: {
+    info: vi.fn(),
+    warn: vi.fn(),
+    error: vi.fn(),
+    debug: vi.fn()
+  }
+}));
+
+const pipeline: PipelineDefinition = {
+  name: 'design-and-build',
+  stages: [
+    { stage: WorkflowStage.ARCHITECTURE, agent: 'Architect', input: 'Design: {{originalRequest}}', requiresApproval: false },
+    { stage: WorkflowStage.IMPLEMENTATION, agent: 'Implementer', input: 'Implement: {{architecturePlan}}', requiresApproval: false }
+  ]
+};
+
+const plan = {
+  projectName: 'todo-cli',
+  stack: ['TypeScript'],
+  services: ['cli'],
+  directories: ['src'],
+  envVars: [],
+  decisions: ['Use commander']
+};
+
+describe('Workflow with scripted model responses', () => {
+  beforeAll(() => {
+    vi.spyOn(console, 'log').mockImplementation(() => undefined);
+  });
+
+  afterAll(() => {
+    vi.restoreAllMocks();
+  });
+
+  afterEach(() => {
+    sharedRunner.resetForTesting();
+  });
+
+  it('should run the agents and parse their outputs into the project context', async () => {
+    const provider = new ScriptedModelProvider([
+      { agent: 'Architect/Scaffold', input: /^Design: Build a todo CLI/, reply: { output: plan } },
+      { agent: 'Implementer', input: /todo-cli/, reply: { output: { summary: 'Scaffolded the CLI', createdFiles: ['src/index.ts'] } } }
+    ]);
+    sharedRunner.initialize({ modelProvider: provider, tracingDisabled: true });
+
+    const orchestrator = await WorkflowOrchestrator.createWorkflow('Build a todo CLI', { pipeline, autoApprove: true });
+    const result = await orchestrator.executeWorkflow();
+
+    expect(result.status).toBe(WorkflowStatus.COMPLETED);
+    // コンテキストのスキーマの既定値が補われる
+    expect(result.architecturePlan).toEqual({ ...plan, risks: [], initialBacklog: [] });
+    expect(result.implementationResult).toMatchObject({ summary: 'Scaffolded the CLI', createdFiles: ['src/index.ts'] });
+    expect(provider.requests.map(request => request.agent)).toEqual(['Architect/Scaffold', 'Implementer']);
+    expect(provider.requests[0].systemInstructions).toContain('アーキテクト');
+  });
+
+  it('should fail the step when the scripted output does not match the stage schema', async () => {
+    sharedRunner.initialize({
+      modelProvider: new ScriptedModelProvider([{ agent: 'Architect/Scaffold', reply: { output: { projectName: 'todo-cli' } } }]),
+      tracingDisabled: true
+    });
+
+    const orchestrator = await WorkflowOrchestrator.createWorkflow('Build a todo CLI', {
+      pipeline,
+      autoApprove: true,
+      runPolicies: { default: { retries: 0 } }
+    });
+    const result = await orchestrator.executeWorkflow();
+
+    expect(result.workflow[0].status).toBe(WorkflowStatus.FAILED);
+    expect(result.architecturePlan).toBeUndefined();
+  });
+});
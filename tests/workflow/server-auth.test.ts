@@ -0,0 +1,169 @@
+// tests/workflow/server-auth.test.ts
+import { describe, it, expect, beforeAll, afterAll, afterEach, vi } from 'vitest';
+import type { AddressInfo } from 'node:net';
+import type { Server } from 'node:http';
+import { InMemoryContextStore } from '../../src/agent/workflow/ContextStore.js';
+import { WorkflowJobQueue } from '../../src/agent/workflow/WorkflowJobQueue.js';
+import { ApprovalQueue } from '../../src/agent/workflow/ApprovalQueue.js';
+import { WorkflowStage } from '../../src/agent/workflow/ProjectContext.js';
+import type { PipelineDefinition } from '../../src/agent/workflow/pipeline.js';
+import { ApiKeyStore, TokenQuotaTracker, hashApiKey } from '../../src/utils/apiKeys.js';
+import { createServer } from '../../src/runners/serverRunner.js';
+
+vi.mock('../../src/agent/triage.js', () => ({ triageAgent: { name: 'Triage' } }));
+vi.mock('../../src/agent/researcher.js', () => ({ researcherAgent: { name: 'Researcher' } }));
+vi.mock('../../src/agent/architect.js', () => ({ architectAgent: { name: 'Architect' } }));
+vi.mock('../../src/agent/implementer.js', () => ({ implementerAgent: { name: 'Implementer' } }));
+vi.mock('../../src/agent/tester.js', () => ({ testAgent: { name: 'Test' } }));
+vi.mock('../../src/agent/reviewer.js', () => ({ reviewerAgent: { name: 'Reviewer' } }));
+vi.mock('../../src/agent/devops.js', () => ({ devopsAgent: { name: 'DevOps' } }));
+vi.mock('../../src/agent/docs.js', () => ({ docsAgent: { name: 'Docs' } }));
+
+vi.mock('../../src/utils/agentRunner.js', () => ({
+  runAgent: vi.fn(),
+  runAgentWithRetry: vi.fn(),
+  streamAgent: vi.fn(),
+  extractUsage: vi.fn()
+}));
+
+vi.mock('../../src/utils/logger.js', () => ({
+  logger: {
+    info: vi.fn(),
+    warn: vi.fn(),
+    error: vi.fn()
+  }
+}));
+
+import { runAgentWithRetry } from '../../src/utils/agentRunner.js';
+
+const KEYS = { ci: 'sk_ci_key', limited: 'sk_limited_key', disabled: 'sk_disabled_key', other: 'sk_other_key' };
+
+const approvalPipeline: PipelineDefinition = {
+  name: 'implement-with-approval',
+  stages: [{ stage: WorkflowStage.IMPLEMENTATION, agent: 'Implementer', input: '{{originalRequest}}', requiresApproval: true }]
+};
+
+describe('Server API key authentication', () => {
+  let server: Server;
+  let baseUrl: string;
+  let jobs: WorkflowJobQueue;
+  let approvals: ApprovalQueue;
+  const quotas = new TokenQuotaTracker();
+
+  beforeAll(() => {
+    vi.stubEnv('LOG_LEVEL', 'error');
+    vi.stubEnv('SERVER_AUTH_ENABLED', 'true');
+    vi.stubEnv('SERVER_KEY_RATE_LIMIT_PER_MINUTE', '100');
+    approvals = new ApprovalQueue();
+    jobs = new WorkflowJobQueue({ approvalHandler: approvals.handler });
+    const apiKeys = new ApiKeyStore([
+      { id: 'ci', hash: hashApiKey(KEYS.ci), disabled: false, dailyTokenQuota: 100 },
+      { id: 'limited', hash: hashApiKey(KEYS.limited), disabled: false, rateLimitPerMinute: 2 },
+      { id: 'disabled', hash: hashApiKey(KEYS.disabled), disabled: true },
+      { id: 'other', hash: hashApiKey(KEYS.other), disabled: false }
+    ]);
+    server = createServer({ contextStore: new InMemoryContextStore(), jobs, approvals, apiKeys, quotas }).listen(0);
+    baseUrl = `http://127.0.0.1:${(server.address() as AddressInfo).port.toString()}`;
+  });
+
+  afterAll(() => {
+    server.close();
+    vi.unstubAllEnvs();
+  });
+
+  afterEach(() => {
+    vi.mocked(runAgentWithRetry).mockReset();
+  });
+
+  it('should reject missing, unknown and disabled keys with the error envelope', async () => {
+    expect((await fetch(`${baseUrl}/health`)).status).toBe(200);
+
+    const missing = await fetch(`${baseUrl}/approvals`);
+    expect(missing.status).toBe(401);
+    expect(missing.headers.get('www-authenticate')).toBe('Bearer');
+    expect(await missing.json()).toEqual({ error: 'unauthorized', message: 'Missing API key' });
+
+    const unknown = await fetch(`${baseUrl}/approvals`, { headers: { Authorization: 'Bearer sk_unknown' } });
+    expect(await unknown.json()).toEqual({ error: 'unauthorized', message: 'Invalid API key' });
+    expect((await fetch(`${baseUrl}/approvals`, { headers: { Authorization: `Basic ${KEYS.ci}` } })).status).toBe(401);
+
+    const disabled = await fetch(`${baseUrl}/approvals`, { headers: { 'X-API-Key': KEYS.disabled } });
+    expect(disabled.status).toBe(403);
+    expect(await disabled.json()).toMatchObject({ error: 'forbidden' });
+
+    expect((await fetch(`${baseUrl}/approvals`, { headers: { Authorization: `Bearer ${KEYS.ci}` } })).status).toBe(200);
+    expect((await fetch(`${baseUrl}/approvals`, { headers: { 'X-API-Key': KEYS.ci } })).status).toBe(200);
+  });
+
+  it('should apply the rate limit of each key separately', async () => {
+    const statuses = [];
+    for (let i = 0; i < 3; i++) {
+      statuses.push((await fetch(`${baseUrl}/approvals`, { headers: { 'X-API-Key': KEYS.limited } })).status);
+    }
+
+    expect(statuses).toEqual([200, 200, 429]);
+    expect((await fetch(`${baseUrl}/approvals`, { headers: { 'X-API-Key': KEYS.ci } })).status).toBe(200);
+  });
+
+  it('should hide the workflows and approvals of other keys', async () => {
+    vi.mocked(runAgentWithRetry).mockResolvedValue({ success: false, error: 'model unavailable', recoverable: false });
+    const as = (key: string, path: string, init: RequestInit = {}) => fetch(`${baseUrl}${path}`, {
+      ...init,
+      headers: { 'Content-Type': 'application/json', 'X-API-Key': key }
+    });
+
+    const submitted = await as(KEYS.other, '/workflows', { method: 'POST', body: JSON.stringify({ request: 'Build a todo CLI' }) });
+    const job = await jobs.wait((await submitted.json() as { id: string }).id);
+    expect(job.principalId).toBe('other');
+
+    const listed = async (key: string) => (await (await as(key, '/workflows')).json() as { workflows: { id: string }[] }).workflows;
+    expect(await listed(KEYS.other)).toMatchObject([{ id: job.id, principalId: 'other' }]);
+    expect(await listed(KEYS.ci)).toEqual([]);
+    for (const path of [`/workflows/${job.id}`, `/workflows/${job.id}/history`, `/workflows/${job.id}/events`, `/workflows/${job.id}/steps/triage/diff?from=0&to=1`]) {
+      expect((await as(KEYS.ci, path)).status, path).toBe(404);
+    }
+    expect((await as(KEYS.ci, `/workflows/${job.id}`, { method: 'DELETE' })).status).toBe(404);
+    expect((await as(KEYS.other, `/workflows/${job.id}`)).status).toBe(200);
+    expect((await as(KEYS.other, `/workflows/${job.id}`, { method: 'DELETE' })).status).toBe(409);
+
+    vi.mocked(runAgentWithRetry).mockResolvedValue({
+      success: true,
+      data: { summary: 'initial', createdFiles: ['src/app.ts'], modifiedFiles: [], commandsToRun: [] }
+    });
+    const gated = jobs.submit('Build an API', { pipeline: approvalPipeline, requireApproval: true }, 'other');
+    await vi.waitFor(() => { expect(approvals.list()).toHaveLength(1); });
+    const { stepId } = approvals.list()[0];
+
+    expect(await (await as(KEYS.ci, '/approvals')).json()).toEqual({ approvals: [] });
+    const decide = (key: string) => as(key, `/approvals/${stepId}`, { method: 'POST', body: JSON.stringify({ approved: true }) });
+    expect((await decide(KEYS.ci)).status).toBe(404);
+    expect(await (await as(KEYS.other, '/approvals')).json()).toMatchObject({ approvals: [{ stepId, projectId: gated.id }] });
+    expect((await decide(KEYS.other)).status).toBe(200);
+    expect((await jobs.wait(gated.id)).status).toBe('completed');
+  });
+
+  it('should add workflow token usage to the key and refuse new runs over the daily quota', async () => {
+    vi.mocked(runAgentWithRetry).mockResolvedValue({
+      success: true,
+      data: { memo: 'triaged' },
+      metadata: { usage: { inputTokens: 80, outputTokens: 40, totalTokens: 120, requests: 1 } }
+    });
+    const submit = () => fetch(`${baseUrl}/workflows`, {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json', Authorization: `Bearer ${KEYS.ci}` },
+      body: JSON.stringify({ request: 'Build a todo CLI' })
+    });
+
+    const accepted = await submit();
+    expect(accepted.status).toBe(202);
+    const job = await jobs.wait((await accepted.json() as { id: string }).id);
+    const calls = vi.mocked(runAgentWithRetry).mock.calls.length;
+    expect(job.usage?.totalTokens).toBe(120 * calls);
+    await vi.waitFor(() => { expect(quotas.used('ci')).toBe(120 * calls); });
+
+    const refused = await submit();
+    expect(refused.status).toBe(429);
+    expect(await refused.json()).toMatchObject({ error: 'quota_exceeded', used: 120 * calls, quota: 100 });
+    expect(runAgentWithRetry).toHaveBeenCalledTimes(calls);
+  });
+});
@@ -0,0 +1,117 @@
+// tests/workflow/server-chat.test.ts
+import { describe, it, expect, beforeAll, afterAll, vi } from 'vitest';
+import type { AddressInfo } from 'node:net';
+import type { Server } from 'node:http';
+import { InMemoryContextStore } from '../../src/agent/workflow/ContextStore.js';
+import { ScriptedModelProvider } from '../../src/utils/mockModelProvider.js';
+import { sharedRunner } from '../../src/utils/sharedRunner.js';
+import { ChatSessions, InMemoryChatSessionStore } from '../../src/utils/chatSessions.js';
+import { createServer, startServer } from '../../src/runners/serverRunner.js';
+
+// /chat は実際の Runner で実行するため、Triage は Structured Outputs を使わない実物の Agent に差し替える
+vi.mock('../../src/agent/triage.js', async () => {
+  const { Agent } = await import('@openai/agents');
+  return { triageAgent: new Agent({ name: 'Triage', instructions: 'Triage the request.' }) };
+});
+vi.mock('../../src/agent/researcher.js', () => ({ researcherAgent: { name: 'Researcher' } }));
+vi.mock('../../src/agent/architect.js', () => ({ architectAgent: { name: 'Architect' } }));
+vi.mock('../../src/agent/implementer.js', () => ({ implementerAgent: { name: 'Implementer' } }));
+vi.mock('../../src/agent/tester.js', () => ({ testAgent: { name: 'Test' } }));
+vi.mock('../../src/agent/reviewer.js', () => ({ reviewerAgent: { name: 'Reviewer' } }));
+vi.mock('../../src/agent/devops.js', () => ({ devopsAgent: { name: 'DevOps' } }));
+vi.mock('../../src/agent/docs.js', () => ({ docsAgent: { name: 'Docs' } }));
+
+vi.mock('../../src/utils/logger.js', () => ({
+  logger: {
+    info: vi.fn(),
+    warn: vi.fn(),
+    error: vi.fn(),
+    debug: vi.fn()
+  }
+}));
+
+describe('Chat sessions over HTTP', () => {
+  let server: Server;
+  let baseUrl: string;
+  let provider: ScriptedModelProvider;
+
+  const post = (path: string, body: unknown) => fetch(`${baseUrl}${path}`, {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/json' },
+    body: JSON.stringify(body)
+  });
+
+  beforeAll(() => {
+    vi.stubEnv('LOG_LEVEL', 'error');
+    vi.spyOn(console, 'log').mockImplementation(() => undefined);
+    provider = new ScriptedModelProvider([
+      { agent: 'Triage', input: 'todo CLI', reply: { text: 'Use a CLI framework.' } },
+      { agent: 'Triage', input: 'Which one', reply: { text: 'Commander.' } }
+    ]);
+    const chatSessions = new ChatSessions(new InMemoryChatSessionStore());
+    server = createServer({ contextStore: new InMemoryContextStore(), chatSessions }).listen(0);
+    sharedRunner.initialize({ modelProvider: provider, tracingDisabled: true });
+    baseUrl = `http://127.0.0.1:${(server.address() as AddressInfo).port.toString()}`;
+  });
+
+  afterAll(() => {
+    server.close();
+    sharedRunner.resetForTesting();
+    vi.unstubAllEnvs();
+    vi.restoreAllMocks();
+  });
+
+  it('should continue a conversation with the stored history of the session', async () => {
+    const getResponse = vi.spyOn(provider.getModel(), 'getResponse');
+
+    const first = await post('/chat', { input: 'Build a todo CLI' });
+    expect(first.status).toBe(200);
+    const { sessionId, finalOutput } = await first.json() as { sessionId: string; finalOutput: string };
+    expect(sessionId).toMatch(/^chat_/);
+    expect(finalOutput).toBe('Use a CLI framework.');
+
+    const second = await post('/chat', { input: 'Which one should I use?', sessionId });
+    expect(await second.json()).toEqual({ sessionId, finalOutput: 'Commander.' });
+
+    // 2回目のモデル呼び出しには1回目の発言と応答が含まれる
+    const replayed = getResponse.mock.calls[1][0].input;
+    expect(replayed).toMatchObject([
+      { role: 'user', content: 'Build a todo CLI' },
+      { role: 'assistant', content: [{ text: 'Use a CLI framework.' }] },
+      { role: 'user', content: 'Which one should I use?' }
+    ]);
+
+    const session = await (await fetch(`${baseUrl}/sessions/${sessionId}`)).json() as { turns: { input: string; output: unknown }[] };
+    expect(session.turns.map(({ input, output }) => ({ input, output }))).toEqual([
+      { input: 'Build a todo CLI', output: 'Use a CLI framework.' },
+      { input: 'Which one should I use?', output: 'Commander.' }
+    ]);
+
+    expect((await fetch(`${baseUrl}/sessions/${sessionId}`, { method: 'DELETE' })).status).toBe(204);
+    expect((await fetch(`${baseUrl}/sessions/${sessionId}`)).status).toBe(404);
+  });
+
+  it('should reject unknown sessions and sessions on the streaming endpoint', async () => {
+    const unknown = await post('/chat', { input: 'Build a todo CLI', sessionId: 'chat_missing' });
+    expect(unknown.status).toBe(404);
+    expect(await unknown.json()).toMatchObject({ error: 'not_found' });
+
+    const stream = await post('/chat/stream', { input: 'Build a todo CLI', sessionId: 'chat_missing' });
+    expect(stream.status).toBe(400);
+    expect(await stream.json()).toMatchObject({ error: 'invalid_request' });
+  });
+
+  it('should prune sessions only while the started server is listening', async () => {
+    const startPruning = vi.spyOn(ChatSessions.prototype, 'startPruning');
+    const close = vi.spyOn(ChatSessions.prototype, 'close');
+
+    // createServer だけでは定期削除を開始しない（待ち受けを開始する側で行う）
+    createServer({ contextStore: new InMemoryContextStore() });
+    expect(startPruning).not.toHaveBeenCalled();
+
+    const started = startServer(0);
+    expect(startPruning).toHaveBeenCalledTimes(1);
+    await new Promise(resolve => started.close(resolve));
+    expect(close).toHaveBeenCalledTimes(1);
+  });
+});
@@ -0,0 +1,165 @@
+// tests/workflow/server-events.test.ts
+import { describe, it, expect, beforeAll, afterAll, afterEach, vi } from 'vitest';
+import type { AddressInfo } from 'node:net';
+import type { Server } from 'node:http';
+import { WorkflowStage, WorkflowStatus } from '../../src/agent/workflow/ProjectContext.js';
+import { WorkflowJobQueue } from '../../src/agent/workflow/WorkflowJobQueue.js';
+import type { PipelineDefinition } from '../../src/agent/workflow/pipeline.js';
+import type { AgentRunResult } from '../../src/utils/agentRunner.js';
+import { ScriptedModelProvider } from '../../src/utils/mockModelProvider.js';
+import { sharedRunner } from '../../src/utils/sharedRunner.js';
+import { createServer } from '../../src/runners/serverRunner.js';
+import type * as AgentRunnerModule from '../../src/utils/agentRunner.js';
+
+// /chat/stream は実際の Runner で実行するため、Triage は Structured Outputs を使わない実物の Agent に差し替える
+vi.mock('../../src/agent/triage.js', async () => {
+  const { Agent } = await import('@openai/agents');
+  const { noSecretsGuardrail } = await import('../../src/agent/guardrails.js');
+  return {
+    triageAgent: new Agent({ name: 'Triage', instructions: 'Triage the request.', inputGuardrails: [noSecretsGuardrail] })
+  };
+});
+vi.mock('../../src/agent/researcher.js', () => ({ researcherAgent: { name: 'Researcher' } }));
+vi.mock('../../src/agent/architect.js', () => ({ architectAgent: { name: 'Architect' } }));
+vi.mock('../../src/agent/implementer.js', () => ({ implementerAgent: { name: 'Implementer' } }));
+vi.mock('../../src/agent/tester.js', () => ({ testAgent: { name: 'Test' } }));
+vi.mock('../../src/agent/reviewer.js', () => ({ reviewerAgent: { name: 'Reviewer' } }));
+vi.mock('../../src/agent/devops.js', () => ({ devopsAgent: { name: 'DevOps' } }));
+vi.mock('../../src/agent/docs.js', () => ({ docsAgent: { name: 'Docs' } }));
+
+vi.mock('../../src/utils/agentRunner.js', async importOriginal => ({
+  ...await importOriginal<typeof AgentRunnerModule>(),
+  runAgentWithRetry: vi.fn(),
+  streamAgent: vi.fn((await importOriginal<typeof AgentRunnerModule>()).streamAgent)
+}));
+
+vi.mock('../../src/utils/logger.js', () => ({
+  logger: {
+    info: vi.fn(),
+    warn: vi.fn(),
+    error: vi.fn(),
+    debug: vi.fn()
+  }
+}));
+
+import { runAgentWithRetry, streamAgent } from '../../src/utils/agentRunner.js';
+
+const pipeline: PipelineDefinition = {
+  name: 'triage-only',
+  stages: [{ stage: WorkflowStage.TRIAGE, agent: 'Triage', requiresApproval: false }]
+};
+
+interface SseEvent {
+  id?: number;
+  event: string;
+  data: Record<string, unknown>;
+}
+
+// text/event-stream の本文をイベントの配列に変換（コメント行は無視する）
+function parseSse(body: string): SseEvent[] {
+  return body.split('\n\n').filter(block => block.trim() && !block.startsWith(':')).map(block => {
+    const fields = Object.fromEntries(block.split('\n').map(line => {
+      const index = line.indexOf(': ');
+      return [line.slice(0, index), line.slice(index + 2)];
+    })) as Record<string, string>;
+    return {
+      id: fields.id ? Number(fields.id) : undefined,
+      event: fields.event,
+      data: JSON.parse(fields.data) as Record<string, unknown>
+    };
+  });
+}
+
+describe('Server-Sent Events', () => {
+  let server: Server;
+  let baseUrl: string;
+  let jobs: WorkflowJobQueue;
+
+  beforeAll(() => {
+    vi.stubEnv('LOG_LEVEL', 'error');
+    vi.spyOn(console, 'log').mockImplementation(() => undefined);
+    jobs = new WorkflowJobQueue({ config: { pipeline } });
+    server = createServer({ jobs }).listen(0);
+    baseUrl = `http://127.0.0.1:${(server.address() as AddressInfo).port.toString()}`;
+  });
+
+  afterAll(() => {
+    server.close();
+    vi.unstubAllEnvs();
+    vi.restoreAllMocks();
+  });
+
+  afterEach(() => {
+    vi.mocked(runAgentWithRetry).mockReset();
+    sharedRunner.resetForTesting();
+  });
+
+  it('should stream workflow progress until completion and resume after Last-Event-ID', async () => {
+    let finish: (result: AgentRunResult) => void = () => undefined;
+    vi.mocked(runAgentWithRetry).mockImplementation((_agent, _input, _retries, options) => new Promise(resolve => {
+      options?.onStreamEvent?.({ type: 'text_delta', agent: 'Triage', delta: 'Thinking' });
+      finish = resolve;
+    }));
+
+    const job = jobs.submit('Build a todo CLI');
+    await vi.waitFor(() => { expect(runAgentWithRetry).toHaveBeenCalledTimes(1); });
+
+    const response = await fetch(`${baseUrl}/workflows/${job.id}/events`);
+    expect(response.headers.get('content-type')).toContain('text/event-stream');
+    finish({ success: true, data: { memo: 'triaged' } });
+    const events = parseSse(await response.text());
+
+    expect(events.map(event => event.event)).toEqual([
+      'workflow:start', 'step:start', 'agent:stream', 'step:complete', 'workflow:complete'
+    ]);
+    expect(events.map(event => event.id)).toEqual([1, 2, 3, 4, 5]);
+    expect(events[2].data).toMatchObject({ stage: WorkflowStage.TRIAGE, type: 'text_delta', agent: 'Triage', delta: 'Thinking' });
+    expect(events[4].data).toMatchObject({ status: WorkflowStatus.COMPLETED });
+
+    const resumed = await fetch(`${baseUrl}/workflows/${job.id}/events`, { headers: { 'Last-Event-ID': '3' } });
+    expect(parseSse(await resumed.text()).map(event => event.id)).toEqual([4, 5]);
+
+    expect((await fetch(`${baseUrl}/workflows/${job.id}/events`, { headers: { 'Last-Event-ID': 'abc' } })).status).toBe(400);
+    expect((await fetch(`${baseUrl}/workflows/project_missing/events`)).status).toBe(404);
+  });
+
+  it('should stream the triage agent output from POST /chat/stream', async () => {
+    sharedRunner.initialize({
+      modelProvider: new ScriptedModelProvider([{ agent: 'Triage', reply: { text: 'Use a CLI framework.' } }]),
+      tracingDisabled: true
+    });
+    const chat = (input: string) => fetch(`${baseUrl}/chat/stream`, {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify({ input })
+    });
+
+    const events = parseSse(await (await chat('Build a todo CLI')).text());
+    expect(events).toEqual([
+      { event: 'text_delta', data: { type: 'text_delta', agent: 'Triage', delta: 'Use a CLI framework.' } },
+      { event: 'done', data: { finalOutput: 'Use a CLI framework.' } }
+    ]);
+
+    const blocked = parseSse(await (await chat('my api_key is here')).text());
+    expect(blocked).toMatchObject([{ event: 'error', data: { error: 'input_guardrail' } }]);
+
+    expect((await chat('')).status).toBe(400);
+  });
+
+  it('should end the stream with an error event when the run rejects after the headers are sent', async () => {
+    // eslint-disable-next-line require-yield
+    vi.mocked(streamAgent).mockImplementationOnce(async function* () {
+      throw new Error('runner crashed');
+    });
+
+    const response = await fetch(`${baseUrl}/chat/stream`, {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify({ input: 'Build a todo CLI' })
+    });
+    expect(response.status).toBe(200);
+    expect(parseSse(await response.text())).toEqual([
+      { event: 'error', data: { error: 'internal_error', message: 'runner crashed' } }
+    ]);
+  });
+});
@@ -0,0 +1,181 @@
+// tests/workflow/server-openapi.test.ts
+import { describe, it, expect, beforeAll, afterAll, vi } from 'vitest';
+import type { AddressInfo } from 'node:net';
+import type { Server } from 'node:http';
+import { Ajv2020 } from 'ajv/dist/2020.js';
+import ajvFormats from 'ajv-formats';
+import { InMemoryContextStore } from '../../src/agent/workflow/ContextStore.js';
+import { WorkflowJobQueue } from '../../src/agent/workflow/WorkflowJobQueue.js';
+import { ScriptedModelProvider } from '../../src/utils/mockModelProvider.js';
+import { sharedRunner } from '../../src/utils/sharedRunner.js';
+import type { OpenApiDocument } from '../../src/runners/openapi.js';
+import { buildOpenApiDocument } from '../../src/runners/openapi.js';
+import { createServer } from '../../src/runners/serverRunner.js';
+import type * as AgentRunnerModule from '../../src/utils/agentRunner.js';
+
+// /chat は実際の Runner で実行するため、Triage は Structured Outputs を使わない実物の Agent に差し替える
+vi.mock('../../src/agent/triage.js', async () => {
+  const { Agent } = await import('@openai/agents');
+  const { noSecretsGuardrail } = await import('../../src/agent/guardrails.js');
+  return {
+    triageAgent: new Agent({ name: 'Triage', instructions: 'Triage the request.', inputGuardrails: [noSecretsGuardrail] })
+  };
+});
+vi.mock('../../src/agent/researcher.js', () => ({ researcherAgent: { name: 'Researcher' } }));
+vi.mock('../../src/agent/architect.js', () => ({ architectAgent: { name: 'Architect' } }));
+vi.mock('../../src/agent/implementer.js', () => ({ implementerAgent: { name: 'Implementer' } }));
+vi.mock('../../src/agent/tester.js', () => ({ testAgent: { name: 'Test' } }));
+vi.mock('../../src/agent/reviewer.js', () => ({ reviewerAgent: { name: 'Reviewer' } }));
+vi.mock('../../src/agent/devops.js', () => ({ devopsAgent: { name: 'DevOps' } }));
+vi.mock('../../src/agent/docs.js', () => ({ docsAgent: { name: 'Docs' } }));
+
+vi.mock('../../src/utils/agentRunner.js', async importOriginal => ({
+  ...await importOriginal<typeof AgentRunnerModule>(),
+  runAgentWithRetry: vi.fn()
+}));
+
+vi.mock('../../src/utils/logger.js', () => ({
+  logger: {
+    info: vi.fn(),
+    warn: vi.fn(),
+    error: vi.fn(),
+    debug: vi.fn()
+  }
+}));
+
+import { runAgentWithRetry } from '../../src/utils/agentRunner.js';
+
+interface ResponseSpec {
+  $ref?: string;
+  content?: Record<string, { schema: { $ref?: string } }>;
+}
+
+// ドキュメントに記載された method・path・status のレスポンスとして本文を検証し、本文を返す
+// OpenAPI 3.1 のスキーマは JSON Schema 2020-12 として検証する（openapi・paths などのキーワードは無視する）
+function createResponseValidator(document: OpenApiDocument) {
+  const ajv = new Ajv2020({ allErrors: true, strictSchema: false });
+  ajvFormats.default(ajv);
+  ajv.addSchema(document, 'openapi.json');
+
+  return async (method: string, path: string, response: Response): Promise<unknown> => {
+    const responses = document.paths[path][method].responses as Record<string, ResponseSpec>;
+    let spec = responses[response.status.toString()];
+    expect(spec, `${method.toUpperCase()} ${path} ${response.status.toString()} is not documented`).toBeDefined();
+    if (spec.$ref) {
+      spec = document.components.responses[spec.$ref.split('/').pop() ?? ''] as ResponseSpec;
+    }
+
+    const schemaRef = spec.content?.['application/json']?.schema.$ref;
+    if (!schemaRef) return undefined;
+    const body: unknown = await response.json();
+    const valid = ajv.validate({ $ref: `openapi.json${schemaRef}` }, body);
+    expect(valid, `${method.toUpperCase()} ${path}: ${ajv.errorsText()}`).toBe(true);
+    return body;
+  };
+}
+
+describe('OpenAPI document', () => {
+  let server: Server;
+  let baseUrl: string;
+  let jobs: WorkflowJobQueue;
+  let document: OpenApiDocument;
+  let validate: ReturnType<typeof createResponseValidator>;
+
+  const send = (method: string, path: string, body?: unknown) => fetch(`${baseUrl}${path}`, {
+    method,
+    headers: { 'Content-Type': 'application/json' },
+    body: body === undefined ? undefined : JSON.stringify(body)
+  });
+
+  beforeAll(async () => {
+    vi.stubEnv('LOG_LEVEL', 'error');
+    vi.spyOn(console, 'log').mockImplementation(() => undefined);
+    const store = new InMemoryContextStore();
+    jobs = new WorkflowJobQueue({ config: { contextStore: store } });
+    server = createServer({ contextStore: store, jobs }).listen(0);
+    baseUrl = `http://127.0.0.1:${(server.address() as AddressInfo).port.toString()}`;
+    sharedRunner.initialize({
+      modelProvider: new ScriptedModelProvider([{ agent: 'Triage', reply: { text: 'Use a CLI framework.' } }]),
+      tracingDisabled: true
+    });
+
+    document = await (await fetch(`${baseUrl}/openapi.json`)).json() as OpenApiDocument;
+    validate = createResponseValidator(document);
+  });
+
+  afterAll(() => {
+    server.close();
+    sharedRunner.resetForTesting();
+    vi.unstubAllEnvs();
+    vi.restoreAllMocks();
+  });
+
+  it('should document every route of the server', () => {
+    const app = createServer({ jobs });
+    const routes = (app.router as unknown as { stack: { route?: { path: string; methods: Record<string, boolean> } }[] }).stack
+      .flatMap(({ route }) => route
+        ? Object.keys(route.methods).map(method => `${method} ${route.path.replace(/:(\w+)/g, '{$1}')}`)
+        : []);
+    const documented = Object.entries(document.paths)
+      .flatMap(([path, operations]) => Object.keys(operations).map(method => `${method} ${path}`));
+
+    expect(document.openapi).toBe('3.1.0');
+    expect(routes.sort()).toEqual(documented.sort());
+    expect(buildOpenApiDocument({ authEnabled: true }).paths['/chat'].post.responses).toHaveProperty('401');
+  });
+
+  it('should describe the request bodies the routes accept', () => {
+    const ajv = new Ajv2020({ strictSchema: false });
+    ajv.addSchema(document, 'openapi.json');
+    const requestSchema = (path: string) => {
+      const body = document.paths[path].post.requestBody as { content: Record<string, { schema: { $ref: string } }> };
+      return { $ref: `openapi.json${body.content['application/json'].schema.$ref}` };
+    };
+
+    expect(ajv.validate(requestSchema('/chat'), { input: 'Hi', sessionId: 'chat_1' })).toBe(true);
+    expect(ajv.validate(requestSchema('/chat/stream'), { input: 'Hi', maxTurns: 3 })).toBe(true);
+    expect(ajv.validate(requestSchema('/chat/stream'), { input: 'Hi', sessionId: 'chat_1' })).toBe(false);
+  });
+
+  it('should describe chat, session and error responses', async () => {
+    expect(await validate('get', '/health', await fetch(`${baseUrl}/health`))).toEqual({ status: 'ok' });
+
+    const chat = await validate('post', '/chat', await send('POST', '/chat', { input: 'Build a todo CLI' })) as { sessionId: string };
+    await validate('get', '/sessions/{id}', await fetch(`${baseUrl}/sessions/${chat.sessionId}`));
+    await validate('delete', '/sessions/{id}', await send('DELETE', `/sessions/${chat.sessionId}`));
+    await validate('get', '/sessions/{id}', await fetch(`${baseUrl}/sessions/${chat.sessionId}`));
+
+    expect(await validate('post', '/chat', await send('POST', '/chat', { input: '' }))).toMatchObject({ error: 'invalid_request' });
+    expect(await validate('post', '/chat', await send('POST', '/chat', { input: 'my api_key is here' }))).toMatchObject({ error: 'input_guardrail' });
+    expect(await validate('post', '/chat/stream', await send('POST', '/chat/stream', { input: 'Hi', sessionId: 'chat_1' }))).toMatchObject({ error: 'invalid_request' });
+
+    const malformed = await fetch(`${baseUrl}/chat`, { method: 'POST', headers: { 'Content-Type': 'application/json' }, body: '{' });
+    expect(await validate('post', '/chat', malformed)).toMatchObject({ error: 'invalid_request' });
+    const unknownRoute = await fetch(`${baseUrl}/no-such-route`);
+    expect(unknownRoute.status).toBe(404);
+    expect(await unknownRoute.json()).toMatchObject({ error: 'not_found' });
+  });
+
+  it('should describe workflow and approval responses', async () => {
+    vi.mocked(runAgentWithRetry).mockResolvedValue({ success: false, error: 'model unavailable', recoverable: false });
+
+    const submitted = await send('POST', '/workflows', { request: 'Build a todo CLI' });
+    const job = await validate('post', '/workflows', submitted) as { id: string };
+    await jobs.wait(job.id);
+
+    await validate('get', '/workflows', await fetch(`${baseUrl}/workflows?status=failed`));
+    await validate('get', '/workflows', await fetch(`${baseUrl}/workflows?status=unknown`));
+    await validate('get', '/workflows/{id}', await fetch(`${baseUrl}/workflows/${job.id}`));
+    await validate('get', '/workflows/{id}', await fetch(`${baseUrl}/workflows/project_missing`));
+    expect(await validate('delete', '/workflows/{id}', await send('DELETE', `/workflows/${job.id}`))).toMatchObject({ error: 'conflict' });
+    expect(await validate('delete', '/workflows/{id}', await send('DELETE', '/workflows/bad.id'))).toMatchObject({ error: 'invalid_request' });
+    await validate('get', '/workflows/{id}/history', await fetch(`${baseUrl}/workflows/${job.id}/history`));
+    await validate('get', '/workflows/{id}/steps/{step}/diff', await fetch(`${baseUrl}/workflows/${job.id}/steps/triage/diff?from=0&to=1`));
+    await validate('get', '/workflows/{id}/steps/{step}/diff', await fetch(`${baseUrl}/workflows/${job.id}/steps/triage/diff`));
+    await validate('get', '/workflows/{id}/events', await fetch(`${baseUrl}/workflows/${job.id}/events`, { headers: { 'Last-Event-ID': 'abc' } }));
+
+    await validate('get', '/approvals', await fetch(`${baseUrl}/approvals`));
+    await validate('post', '/approvals/{stepId}', await send('POST', '/approvals/step_missing', { approved: true }));
+    await validate('post', '/approvals/{stepId}', await send('POST', '/approvals/step_missing', { approved: 'yes' }));
+  });
+});
@@ -0,0 +1,150 @@
+// tests/workflow/stage-inputs.test.ts
+import { describe, it, expect, afterEach, vi } from 'vitest';
+import { WorkflowOrchestrator } from '../../src/agent/workflow/WorkflowOrchestrator.js';
+import { ProjectContextManager, WorkflowStage, WorkflowStatus } from '../../src/agent/workflow/ProjectContext.js';
+import { StageInputValidationError, buildStageInput, truncateStageInput } from '../../src/agent/workflow/stageInputs.js';
+import type { PipelineDefinition } from '../../src/agent/workflow/pipeline.js';
+import { InMemoryContextStore } from '../../src/agent/workflow/ContextStore.js';
+
+vi.mock('../../src/agent/triage.js', () => ({ triageAgent: { name: 'Triage' } }));
+vi.mock('../../src/agent/researcher.js', () => ({ researcherAgent: { name: 'Researcher' } }));
+vi.mock('../../src/agent/architect.js', () => ({ architectAgent: { name: 'Architect' } }));
+vi.mock('../../src/agent/implementer.js', () => ({ implementerAgent: { name: 'Implementer' } }));
+vi.mock('../../src/agent/tester.js', () => ({ testAgent: { name: 'Test' } }));
+vi.mock('../../src/agent/reviewer.js', () => ({ reviewerAgent: { name: 'Reviewer' } }));
+vi.mock('../../src/agent/devops.js', () => ({ devopsAgent: { name: 'DevOps' } }));
+vi.mock('../../src/agent/docs.js', () => ({ docsAgent: { name: 'Docs' } }));
+
+vi.mock('../../src/utils/agentRunner.js', () => ({
+  runAgent: vi.fn(),
+  runAgentWithRetry: vi.fn()
+}));
+
+vi.mock('../../src/utils/logger.js', () => ({
+  logger: {
+    info: vi.fn(),
+    warn: vi.fn(),
+    error: vi.fn()
+  }
+}));
+
+import { runAgentWithRetry } from '../../src/utils/agentRunner.js';
+
+const architecturePlan = {
+  projectName: 'Inputs',
+  stack: ['TypeScript'],
+  services: ['api'],
+  directories: ['src'],
+  envVars: [],
+  decisions: ['Use express'],
+  risks: [],
+  initialBacklog: []
+};
+
+describe('Stage inputs', () => {
+  afterEach(() => {
+    vi.resetAllMocks();
+  });
+
+  it('should pick only the fields declared by the stage schema', () => {
+    const context = ProjectContextManager.create('Build an API');
+    context.architecturePlan = architecturePlan;
+    context.testReport = { passed: 1, failed: 0, newTests: [] };
+
+    const input = buildStageInput(WorkflowStage.IMPLEMENTATION, context, ['architecturePlan']);
+
+    expect(input).toEqual({ originalRequest: 'Build an API', architecturePlan });
+  });
+
+  it('should normalize plain-text triage output into a memo', () => {
+    const context = ProjectContextManager.create('Build an API');
+    (context as Record<string, unknown>).triageResult = 'needs research';
+
+    const input = buildStageInput(WorkflowStage.RESEARCH, context, ['triageResult']);
+
+    expect(input.triageResult).toEqual({ memo: 'needs research' });
+  });
+
+  it('should reject malformed or missing upstream results', () => {
+    const context = ProjectContextManager.create('Build an API');
+    (context as Record<string, unknown>).architecturePlan = { projectName: 'Broken' };
+
+    expect(() => buildStageInput(WorkflowStage.IMPLEMENTATION, context)).toThrow(StageInputValidationError);
+    expect(() => buildStageInput(WorkflowStage.IMPLEMENTATION, context)).toThrow('architecturePlan.stack');
+
+    const empty = ProjectContextManager.create('Build an API');
+    expect(() => buildStageInput(WorkflowStage.TESTING, empty, ['implementationResult']))
+      .toThrow('Invalid input for testing stage: implementationResult: Required');
+  });
+
+  it('should truncate oversized upstream fields but keep the original request', () => {
+    const longRequest = 'r'.repeat(500);
+    const truncated = truncateStageInput(
+      {
+        originalRequest: longRequest,
+        implementationResult: { summary: 'x'.repeat(1000), createdFiles: Array.from({ length: 5 }, (_, i) => `f${i.toString()}.ts`) }
+      },
+      { maxStringLength: 100, maxArrayItems: 3, maxTotalChars: 10000 }
+    );
+
+    const implementation = truncated.implementationResult as { summary: string; createdFiles: string[] };
+    expect(truncated.originalRequest).toBe(longRequest);
+    expect(implementation.summary).toBe(`${'x'.repeat(100)}…（以下 900 文字省略）`);
+    expect(implementation.createdFiles).toEqual(['f0.ts', 'f1.ts', 'f2.ts', '…（他 2 件省略）']);
+  });
+
+  it('should shrink string fields until the total size fits', () => {
+    const truncated = truncateStageInput(
+      { originalRequest: 'req', researchResult: { summary: 'y'.repeat(5000), recommendations: ['z'.repeat(5000)] } },
+      { maxStringLength: 4000, maxArrayItems: 50, maxTotalChars: 2000 }
+    );
+
+    expect(JSON.stringify(truncated).length).toBeLessThanOrEqual(2000);
+  });
+
+  it('should skip the step that returned an invalid result without storing it', async () => {
+    const pipeline: PipelineDefinition = {
+      name: 'design-implement',
+      stages: [
+        { stage: WorkflowStage.ARCHITECTURE, agent: 'Architect', requiresApproval: false },
+        { stage: WorkflowStage.IMPLEMENTATION, agent: 'Implementer', requiresApproval: false }
+      ]
+    };
+    vi.mocked(runAgentWithRetry).mockResolvedValueOnce({ success: true, data: { projectName: 'Only a name' } });
+
+    const store = new InMemoryContextStore();
+    const orchestrator = await WorkflowOrchestrator.createWorkflow('Invalid handoff', { pipeline, contextStore: store });
+    const result = await orchestrator.executeWorkflow();
+
+    // validation エラーの既定の方針（skip）により、スキップとして記録される
+    expect(result.workflow[0].status).toBe(WorkflowStatus.SKIPPED);
+    expect(result.workflow[0].error).toContain('Invalid architecturePlan from Architect');
+    expect(result.architecturePlan).toBeUndefined();
+    // 保存したコンテキストは厳密なスキーマで読み込める
+    expect((await store.load(result.id))?.workflow[0].status).toBe(WorkflowStatus.SKIPPED);
+  });
+
+  it('should embed truncated upstream results into the prompt', async () => {
+    const pipeline: PipelineDefinition = {
+      name: 'design-implement',
+      stages: [
+        { stage: WorkflowStage.ARCHITECTURE, agent: 'Architect', requiresApproval: false },
+        { stage: WorkflowStage.IMPLEMENTATION, agent: 'Implementer', requiresApproval: false }
+      ]
+    };
+    vi.mocked(runAgentWithRetry)
+      .mockResolvedValueOnce({ success: true, data: { ...architecturePlan, decisions: ['d'.repeat(300)] } })
+      .mockResolvedValueOnce({ success: true, data: { summary: 'done', createdFiles: [], modifiedFiles: [], commandsToRun: [] } });
+
+    const orchestrator = await WorkflowOrchestrator.createWorkflow('Truncate', {
+      pipeline,
+      inputLimits: { maxStringLength: 50 }
+    });
+    const result = await orchestrator.executeWorkflow();
+
+    const prompt = vi.mocked(runAgentWithRetry).mock.calls[1][1];
+    expect(prompt).toContain(`${'d'.repeat(50)}…（以下 250 文字省略）`);
+    expect(result.architecturePlan?.decisions[0]).toHaveLength(300);
+    expect(result.status).toBe(WorkflowStatus.COMPLETED);
+  });
+});
@@ -0,0 +1,191 @@
+// tests/workflow/step-control.test.ts
+import { describe, it, expect, afterEach, vi } from 'vitest';
+import { WorkflowControlError, WorkflowOrchestrator } from '../../src/agent/workflow/WorkflowOrchestrator.js';
+import { WorkflowStage, WorkflowStatus } from '../../src/agent/workflow/ProjectContext.js';
+import { InMemoryContextStore } from '../../src/agent/workflow/ContextStore.js';
+import type { PipelineDefinition } from '../../src/agent/workflow/pipeline.js';
+import { WorkflowRunner } from '../../src/runners/workflowRunner.js';
+import { configManager } from '../../src/utils/config.js';
+
+vi.mock('../../src/agent/triage.js', () => ({ triageAgent: { name: 'Triage' } }));
+vi.mock('../../src/agent/researcher.js', () => ({ researcherAgent: { name: 'Researcher' } }));
+vi.mock('../../src/agent/architect.js', () => ({ architectAgent: { name: 'Architect' } }));
+vi.mock('../../src/agent/implementer.js', () => ({ implementerAgent: { name: 'Implementer' } }));
+vi.mock('../../src/agent/tester.js', () => ({ testAgent: { name: 'Test' } }));
+vi.mock('../../src/agent/reviewer.js', () => ({ reviewerAgent: { name: 'Reviewer' } }));
+vi.mock('../../src/agent/devops.js', () => ({ devopsAgent: { name: 'DevOps' } }));
+vi.mock('../../src/agent/docs.js', () => ({ docsAgent: { name: 'Docs' } }));
+
+vi.mock('../../src/utils/agentRunner.js', () => ({
+  runAgent: vi.fn(),
+  runAgentWithRetry: vi.fn()
+}));
+
+vi.mock('../../src/utils/logger.js', () => ({
+  logger: {
+    info: vi.fn(),
+    warn: vi.fn(),
+    error: vi.fn()
+  }
+}));
+
+import { runAgentWithRetry } from '../../src/utils/agentRunner.js';
+
+const pipeline: PipelineDefinition = {
+  name: 'implement-test-review',
+  stages: [
+    { stage: WorkflowStage.IMPLEMENTATION, agent: 'Implementer', input: '{{originalRequest}}', requiresApproval: false },
+    { stage: WorkflowStage.TESTING, agent: 'Tester', requiresApproval: false },
+    { stage: WorkflowStage.REVIEW, agent: 'Reviewer', requiresApproval: false }
+  ]
+};
+
+// failImplementer が true の間、Implementer は重大なエラーで失敗する
+function mockAgents(state: { failImplementer: boolean }) {
+  vi.mocked(runAgentWithRetry).mockImplementation(async (agent: unknown) => {
+    await Promise.resolve();
+    const name = (agent as { name: string }).name;
+    if (name === 'Implementer') {
+      return state.failImplementer
+        ? { success: false, error: 'authentication failed', metadata: { errorCategory: 'permission' as const }, recoverable: false }
+        : { success: true, data: { summary: 'implemented', createdFiles: ['src/app.ts'], modifiedFiles: [], commandsToRun: [] } };
+    }
+    if (name === 'Test') return { success: true, data: { passed: 3, failed: 0, newTests: [] } };
+    return { success: true, data: { summary: 'ok', issues: [], score: 90, actionItems: [] } };
+  });
+}
+
+function agentCalls() {
+  return vi.mocked(runAgentWithRetry).mock.calls.map(call => (call[0] as { name: string }).name);
+}
+
+async function runToFailure(store: InMemoryContextStore) {
+  const orchestrator = await WorkflowOrchestrator.createWorkflow('Build the app', { pipeline, contextStore: store });
+  const failed = await orchestrator.executeWorkflow();
+  expect(failed.workflow.map(step => step.status)).toEqual([WorkflowStatus.FAILED, WorkflowStatus.PENDING, WorkflowStatus.PENDING]);
+  return failed.id;
+}
+
+describe('Step controls on a saved workflow', () => {
+  afterEach(() => {
+    vi.resetAllMocks();
+  });
+
+  it('should rerun a failed step and continue with the remaining steps', async () => {
+    const state = { failImplementer: true };
+    mockAgents(state);
+    const store = new InMemoryContextStore();
+    const projectId = await runToFailure(store);
+
+    state.failImplementer = false;
+    const orchestrator = await WorkflowOrchestrator.load(projectId, { contextStore: store });
+    const result = await orchestrator.rerunStep('implementation');
+
+    expect(result.status).toBe(WorkflowStatus.COMPLETED);
+    expect(result.workflow[0].error).toBeUndefined();
+    expect(result.workflow[0].attempts?.map(attempt => attempt.status)).toEqual([WorkflowStatus.FAILED, WorkflowStatus.COMPLETED]);
+    expect(agentCalls()).toEqual(['Implementer', 'Implementer', 'Test', 'Reviewer']);
+    expect((await store.load(projectId))?.status).toBe(WorkflowStatus.COMPLETED);
+  });
+
+  it('should use an amended input only for the rerun', async () => {
+    const state = { failImplementer: true };
+    mockAgents(state);
+    const store = new InMemoryContextStore();
+    const projectId = await runToFailure(store);
+
+    state.failImplementer = false;
+    const orchestrator = await WorkflowOrchestrator.load(projectId, { contextStore: store });
+    const result = await orchestrator.rerunStep(
+      (await store.load(projectId))?.workflow[0].id ?? '',
+      { input: 'Build the app with a service account' }
+    );
+
+    expect(vi.mocked(runAgentWithRetry).mock.calls[1][1]).toBe('Build the app with a service account');
+    expect(result.workflow[0].attempts?.[1].input).toBe('Build the app with a service account');
+    expect(result.workflow[0].inputOverride).toBeUndefined();
+    expect((await store.load(projectId))?.workflow[0].inputOverride).toBeUndefined();
+  });
+
+  it('should skip a failed step and run its dependents without its result', async () => {
+    mockAgents({ failImplementer: true });
+    const store = new InMemoryContextStore();
+    const projectId = await runToFailure(store);
+
+    const orchestrator = await WorkflowOrchestrator.load(projectId, { contextStore: store });
+    const result = await orchestrator.skipStep('implementation', 'implemented by hand');
+
+    expect(result.status).toBe(WorkflowStatus.COMPLETED);
+    expect(result.workflow.map(step => step.status)).toEqual([WorkflowStatus.SKIPPED, WorkflowStatus.COMPLETED, WorkflowStatus.COMPLETED]);
+    expect(result.workflow[0].attempts?.at(-1)).toMatchObject({ status: WorkflowStatus.SKIPPED, error: 'implemented by hand', durationMs: 0 });
+    expect(agentCalls()).toEqual(['Implementer', 'Test', 'Reviewer']);
+  });
+
+  it('should rerun a step and all of its dependents', async () => {
+    mockAgents({ failImplementer: false });
+    const store = new InMemoryContextStore();
+    const orchestrator = await WorkflowOrchestrator.createWorkflow('Build the app', { pipeline, contextStore: store });
+    const completed = await orchestrator.executeWorkflow();
+
+    const reloaded = await WorkflowOrchestrator.load(completed.id, { contextStore: store });
+    const result = await reloaded.rerunFrom('testing');
+
+    expect(result.status).toBe(WorkflowStatus.COMPLETED);
+    expect(result.workflow.map(step => step.attempts?.length)).toEqual([1, 2, 2]);
+    expect(agentCalls()).toEqual(['Implementer', 'Test', 'Reviewer', 'Test', 'Reviewer']);
+  });
+
+  it('should rerun only the selected step when its dependents are already completed', async () => {
+    mockAgents({ failImplementer: false });
+    const store = new InMemoryContextStore();
+    const orchestrator = await WorkflowOrchestrator.createWorkflow('Build the app', { pipeline, contextStore: store });
+    const completed = await orchestrator.executeWorkflow();
+
+    const reloaded = await WorkflowOrchestrator.load(completed.id, { contextStore: store });
+    const result = await reloaded.rerunStep('testing');
+
+    expect(result.workflow.map(step => step.attempts?.length)).toEqual([1, 2, 1]);
+  });
+
+  it('should reject invalid step controls', async () => {
+    mockAgents({ failImplementer: false });
+    const store = new InMemoryContextStore();
+    const fresh = await WorkflowOrchestrator.createWorkflow('Build the app', { pipeline, contextStore: store });
+    await expect(fresh.rerunStep('implementation')).rejects.toThrow(WorkflowControlError);
+
+    const completed = await fresh.executeWorkflow();
+    const reloaded = await WorkflowOrchestrator.load(completed.id, { contextStore: store });
+    await expect(reloaded.skipStep('testing')).rejects.toThrow('Cannot skip completed step');
+    await expect(reloaded.rerunStep('deployment')).rejects.toThrow('Step not found: deployment');
+  });
+
+  it('should apply the configured budget when a saved workflow is controlled through WorkflowRunner', async () => {
+    mockAgents({ failImplementer: true });
+    const store = new InMemoryContextStore();
+    const projectId = await runToFailure(store);
+
+    vi.stubEnv('WORKFLOW_MAX_TOKENS', '1000');
+    configManager.reset();
+    const load = WorkflowOrchestrator.load.bind(WorkflowOrchestrator);
+    const loadSpy = vi.spyOn(WorkflowOrchestrator, 'load')
+      .mockImplementation((id, config, handler) => load(id, { ...config, contextStore: store }, handler));
+    vi.mocked(runAgentWithRetry).mockResolvedValue({
+      success: true,
+      data: { summary: 'implemented', createdFiles: ['src/app.ts'], modifiedFiles: [], commandsToRun: [] },
+      metadata: { model: 'gpt-4.1', tokens: 5000, usage: { inputTokens: 4000, outputTokens: 1000, totalTokens: 5000, requests: 1 } }
+    });
+
+    try {
+      const result = await new WorkflowRunner().controlWorkflow(projectId, { action: 'rerun', step: 'implementation' });
+
+      expect(loadSpy.mock.calls[0][1]?.budget?.maxTokens).toBe(1000);
+      // 予算を超えたため、下流のステップは実行されない
+      expect(agentCalls()).toEqual(['Implementer', 'Implementer']);
+      expect(result.workflow.map(step => step.status)).toEqual([WorkflowStatus.COMPLETED, WorkflowStatus.PENDING, WorkflowStatus.PENDING]);
+    } finally {
+      loadSpy.mockRestore();
+      vi.unstubAllEnvs();
+      configManager.reset();
+    }
+  });
+});
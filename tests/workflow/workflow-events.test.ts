@@ -0,0 +1,177 @@
+// tests/workflow/workflow-events.test.ts
+import { describe, it, expect, afterEach, vi } from 'vitest';
+import { WorkflowEventBus } from '../../src/agent/workflow/WorkflowEvents.js';
+import { WorkflowOrchestrator } from '../../src/agent/workflow/WorkflowOrchestrator.js';
+import { WorkflowStage } from '../../src/agent/workflow/ProjectContext.js';
+import type { PipelineDefinition } from '../../src/agent/workflow/pipeline.js';
+import { WorkflowRunner } from '../../src/runners/workflowRunner.js';
+
+vi.mock('../../src/agent/triage.js', () => ({ triageAgent: { name: 'Triage' } }));
+vi.mock('../../src/agent/researcher.js', () => ({ researcherAgent: { name: 'Researcher' } }));
+vi.mock('../../src/agent/architect.js', () => ({ architectAgent: { name: 'Architect' } }));
+vi.mock('../../src/agent/implementer.js', () => ({ implementerAgent: { name: 'Implementer' } }));
+vi.mock('../../src/agent/tester.js', () => ({ testAgent: { name: 'Test' } }));
+vi.mock('../../src/agent/reviewer.js', () => ({ reviewerAgent: { name: 'Reviewer' } }));
+vi.mock('../../src/agent/devops.js', () => ({ devopsAgent: { name: 'DevOps' } }));
+vi.mock('../../src/agent/docs.js', () => ({ docsAgent: { name: 'Docs' } }));
+
+vi.mock('../../src/utils/agentRunner.js', () => ({
+  runAgent: vi.fn(),
+  runAgentWithRetry: vi.fn()
+}));
+
+vi.mock('../../src/utils/logger.js', () => ({
+  logger: {
+    info: vi.fn(),
+    warn: vi.fn(),
+    error: vi.fn()
+  }
+}));
+
+import { runAgentWithRetry } from '../../src/utils/agentRunner.js';
+
+const pdcaPipeline: PipelineDefinition = {
+  name: 'events',
+  stages: [
+    { stage: WorkflowStage.IMPLEMENTATION, agent: 'Implementer', requiresApproval: false },
+    { stage: WorkflowStage.TESTING, agent: 'Tester', requiresApproval: true }
+  ]
+};
+
+const implementation = { summary: 'impl', createdFiles: [], modifiedFiles: [], commandsToRun: [] };
+
+describe('WorkflowEventBus', () => {
+  it('should deliver typed payloads and support unsubscribe and once', async () => {
+    const bus = new WorkflowEventBus();
+    const listener = vi.fn();
+    const onceListener = vi.fn();
+
+    const unsubscribe = bus.on('iteration:start', listener);
+    bus.once('iteration:start', onceListener);
+
+    await bus.emit('iteration:start', { iteration: 1, context: {} as any });
+    unsubscribe();
+    await bus.emit('iteration:start', { iteration: 2, context: {} as any });
+
+    expect(listener).toHaveBeenCalledTimes(1);
+    expect(listener.mock.calls[0][0].iteration).toBe(1);
+    expect(onceListener).toHaveBeenCalledTimes(1);
+  });
+
+  it('should isolate listener failures', async () => {
+    const bus = new WorkflowEventBus();
+    const healthy = vi.fn();
+    bus.on('workflow:complete', () => { throw new Error('listener broke'); });
+    bus.on('workflow:complete', healthy);
+
+    await expect(bus.emit('workflow:complete', { context: {} as any })).resolves.toBeUndefined();
+    expect(healthy).toHaveBeenCalledTimes(1);
+  });
+});
+
+describe('Workflow lifecycle events', () => {
+  afterEach(() => {
+    vi.resetAllMocks();
+  });
+
+  it('should emit lifecycle events in order', async () => {
+    let testRuns = 0;
+    vi.mocked(runAgentWithRetry).mockImplementation(async (agent: any) => {
+      if (agent.name === 'Implementer') return { success: true, data: implementation };
+      testRuns++;
+      return { success: true, data: { passed: 1, failed: testRuns === 1 ? 1 : 0, newTests: [] } };
+    });
+
+    const orchestrator = await WorkflowOrchestrator.createWorkflow('Events', {
+      pipeline: pdcaPipeline,
+      requireApproval: true,
+      autoApprove: true
+    });
+    const events: string[] = [];
+    const names = [
+      'workflow:start', 'step:start', 'step:complete', 'step:failed',
+      'approval:requested', 'iteration:start', 'workflow:complete'
+    ] as const;
+    names.forEach(name => orchestrator.events.on(name, () => { events.push(name); }));
+
+    await orchestrator.executeWorkflow();
+
+    expect(events).toEqual([
+      'workflow:start',
+      'step:start', 'step:complete',
+      'step:start', 'approval:requested', 'step:complete',
+      'iteration:start',
+      'step:start', 'step:complete',
+      'step:start', 'step:complete',
+      'workflow:complete'
+    ]);
+  });
+
+  it('should emit step:failed for failed steps', async () => {
+    vi.mocked(runAgentWithRetry).mockResolvedValue({ success: false, error: 'model exploded', recoverable: true });
+
+    const orchestrator = await WorkflowOrchestrator.createWorkflow('Failure', {
+      pipeline: { name: 'single', stages: [{ stage: WorkflowStage.TRIAGE, agent: 'Triage', requiresApproval: false }] }
+    });
+    const failed = vi.fn();
+    orchestrator.events.on('step:failed', failed);
+
+    await orchestrator.executeWorkflow();
+
+    expect(failed).toHaveBeenCalledTimes(1);
+    expect(failed.mock.calls[0][0].error).toBe('model exploded');
+  });
+
+  it('should stream agent output only while agent:stream has listeners', async () => {
+    vi.mocked(runAgentWithRetry).mockImplementation(async (_agent, _input, _retries, options) => {
+      options?.onStreamEvent?.({ type: 'text_delta', agent: 'Implementer', delta: 'Writing files' });
+      return { success: true, data: implementation };
+    });
+    const pipeline: PipelineDefinition = { name: 'single', stages: [pdcaPipeline.stages[0]] };
+
+    const silent = await WorkflowOrchestrator.createWorkflow('Quiet', { pipeline });
+    await silent.executeWorkflow();
+    expect(vi.mocked(runAgentWithRetry).mock.calls[0][3]?.onStreamEvent).toBeUndefined();
+
+    const streaming = await WorkflowOrchestrator.createWorkflow('Streaming', { pipeline });
+    const received = vi.fn();
+    streaming.events.on('agent:stream', received);
+    await streaming.executeWorkflow();
+
+    expect(received).toHaveBeenCalledTimes(1);
+    expect(received.mock.calls[0][0]).toMatchObject({
+      step: { stage: WorkflowStage.IMPLEMENTATION, agentName: 'Implementer' },
+      event: { type: 'text_delta', delta: 'Writing files' }
+    });
+  });
+
+  it('should implement WorkflowRunner callbacks on top of the event bus', async () => {
+    // 下流の入力検証を通過するよう、各エージェントのスキーマに沿った出力を返す
+    const outputs: Record<string, unknown> = {
+      Triage: { memo: 'ok' },
+      Researcher: {
+        summary: 'ok', findings: [], recommendations: [], technicalConsiderations: [],
+        potentialChallenges: [], bestPractices: [], references: []
+      },
+      Architect: {
+        projectName: 'Runner', stack: [], services: [], directories: [], envVars: [],
+        decisions: [], risks: [], initialBacklog: []
+      },
+      Implementer: implementation,
+      Test: { passed: 1, failed: 0, newTests: [] },
+      Reviewer: { summary: 'ok', issues: [], score: 100, actionItems: [] },
+      DevOps: { dockerized: false, artifacts: [], rollback: [] },
+      Docs: { readmeUpdated: true, files: [], changelogEntry: 'ok' }
+    };
+    vi.mocked(runAgentWithRetry).mockImplementation(async (agent: any) => ({ success: true, data: outputs[agent.name] }));
+    const onStageComplete = vi.fn().mockResolvedValue(undefined);
+    const onWorkflowComplete = vi.fn().mockResolvedValue(undefined);
+
+    const runner = new WorkflowRunner({ onStageComplete, onWorkflowComplete, autoApprove: true });
+    const result = await runner.executeWorkflow('Runner events');
+
+    expect(onStageComplete).toHaveBeenCalledTimes(result.workflow.length);
+    expect(onStageComplete).toHaveBeenCalledWith(WorkflowStage.TRIAGE, { memo: 'ok' });
+    expect(onWorkflowComplete).toHaveBeenCalledWith(result);
+  });
+});
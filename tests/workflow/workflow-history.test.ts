@@ -0,0 +1,169 @@
+// tests/workflow/workflow-history.test.ts
+import { describe, it, expect, afterEach, vi } from 'vitest';
+import type { AddressInfo } from 'node:net';
+import { WorkflowOrchestrator } from '../../src/agent/workflow/WorkflowOrchestrator.js';
+import { WorkflowStage, WorkflowStatus } from '../../src/agent/workflow/ProjectContext.js';
+import { InMemoryContextStore } from '../../src/agent/workflow/ContextStore.js';
+import { StepHistoryError, diffResults, diffStepAttempts, findStep } from '../../src/agent/workflow/history.js';
+import type { PipelineDefinition } from '../../src/agent/workflow/pipeline.js';
+import { createServer } from '../../src/runners/serverRunner.js';
+
+vi.mock('../../src/agent/triage.js', () => ({ triageAgent: { name: 'Triage' } }));
+vi.mock('../../src/agent/researcher.js', () => ({ researcherAgent: { name: 'Researcher' } }));
+vi.mock('../../src/agent/architect.js', () => ({ architectAgent: { name: 'Architect' } }));
+vi.mock('../../src/agent/implementer.js', () => ({ implementerAgent: { name: 'Implementer' } }));
+vi.mock('../../src/agent/tester.js', () => ({ testAgent: { name: 'Test' } }));
+vi.mock('../../src/agent/reviewer.js', () => ({ reviewerAgent: { name: 'Reviewer' } }));
+vi.mock('../../src/agent/devops.js', () => ({ devopsAgent: { name: 'DevOps' } }));
+vi.mock('../../src/agent/docs.js', () => ({ docsAgent: { name: 'Docs' } }));
+
+vi.mock('../../src/utils/agentRunner.js', () => ({
+  runAgent: vi.fn(),
+  runAgentWithRetry: vi.fn()
+}));
+
+vi.mock('../../src/utils/logger.js', () => ({
+  logger: {
+    info: vi.fn(),
+    warn: vi.fn(),
+    error: vi.fn()
+  }
+}));
+
+import { runAgentWithRetry } from '../../src/utils/agentRunner.js';
+
+const pipeline: PipelineDefinition = {
+  name: 'implement-test',
+  stages: [
+    { stage: WorkflowStage.IMPLEMENTATION, agent: 'Implementer', input: '{{originalRequest}}', requiresApproval: false },
+    { stage: WorkflowStage.TESTING, agent: 'Tester', requiresApproval: false }
+  ]
+};
+
+// 反復ごとに失敗テスト数が減り、実装ファイルが変わるエージェント
+function mockImprovingRounds(failedByRound: number[]) {
+  let implementerRuns = 0;
+  vi.mocked(runAgentWithRetry).mockImplementation(async (agent: unknown) => {
+    if ((agent as { name: string }).name === 'Implementer') {
+      implementerRuns++;
+      const round = implementerRuns.toString();
+      return {
+        success: true,
+        data: { summary: `attempt ${round}`, createdFiles: [], modifiedFiles: [`src/round${round}.ts`], commandsToRun: [] }
+      };
+    }
+    const failed = failedByRound[implementerRuns - 1];
+    return { success: true, data: { passed: 5 - failed, failed, newTests: [`round${implementerRuns.toString()}.test.ts`] } };
+  });
+}
+
+describe('Workflow run history', () => {
+  afterEach(() => {
+    vi.resetAllMocks();
+    vi.unstubAllEnvs();
+  });
+
+  it('should append one attempt per execution instead of overwriting earlier iterations', async () => {
+    mockImprovingRounds([2, 1, 0]);
+
+    const orchestrator = await WorkflowOrchestrator.createWorkflow('Make tests pass', { pipeline, maxIterations: 3 });
+    const result = await orchestrator.executeWorkflow();
+
+    const [implementation, testing] = result.workflow;
+    expect(implementation.attempts?.map(attempt => attempt.iteration)).toEqual([0, 1, 2]);
+    expect(implementation.attempts?.map(attempt => attempt.attempt)).toEqual([1, 2, 3]);
+    expect(implementation.attempts?.[0]).toMatchObject({
+      status: WorkflowStatus.COMPLETED,
+      input: 'Make tests pass',
+      output: { summary: 'attempt 1' }
+    });
+    expect(implementation.attempts?.[1].input).toContain('前回の反復で検出された問題');
+    expect(testing.attempts?.map(attempt => (attempt.output as { failed: number }).failed)).toEqual([2, 1, 0]);
+    expect(testing.attempts?.every(attempt => attempt.durationMs >= 0)).toBe(true);
+  });
+
+  it('should record failed attempts with their error', async () => {
+    vi.mocked(runAgentWithRetry).mockResolvedValue({ success: false, error: 'model overloaded', recoverable: true });
+
+    const orchestrator = await WorkflowOrchestrator.createWorkflow('Fail', { pipeline });
+    const result = await orchestrator.executeWorkflow();
+
+    expect(result.workflow[0].attempts).toEqual([
+      expect.objectContaining({ attempt: 1, status: WorkflowStatus.FAILED, error: 'model overloaded', output: undefined })
+    ]);
+  });
+
+  it('should diff test reports and implementation results between iterations', async () => {
+    mockImprovingRounds([2, 1, 0]);
+
+    const orchestrator = await WorkflowOrchestrator.createWorkflow('Make tests pass', { pipeline, maxIterations: 3 });
+    const result = await orchestrator.executeWorkflow();
+
+    const testDiff = diffStepAttempts(findStep(result, 'testing'), { iteration: 0 }, { iteration: 2 });
+    expect(testDiff.from).toEqual({ attempt: 1, iteration: 0 });
+    expect(testDiff.to).toEqual({ attempt: 3, iteration: 2 });
+    expect(testDiff.changes).toEqual([
+      { field: 'passed', kind: 'number', from: 3, to: 5, delta: 2 },
+      { field: 'failed', kind: 'number', from: 2, to: 0, delta: -2 },
+      { field: 'newTests', kind: 'list', added: ['round3.test.ts'], removed: ['round1.test.ts'] }
+    ]);
+
+    const implementationDiff = diffStepAttempts(findStep(result, 'implementation'), { attempt: 1 }, { attempt: 2 });
+    expect(implementationDiff.changes).toEqual([
+      { field: 'summary', kind: 'value', from: 'attempt 1', to: 'attempt 2' },
+      { field: 'modifiedFiles', kind: 'list', added: ['src/round2.ts'], removed: ['src/round1.ts'] }
+    ]);
+  });
+
+  it('should compare review issues by content', () => {
+    const issue = (message: string) => ({ kind: 'bug', path: 'src/app.ts', message, severity: 'error' });
+    const changes = diffResults(
+      { summary: 'r', score: 40, issues: [issue('a'), issue('b')] },
+      { summary: 'r', score: 70, issues: [issue('b')] }
+    );
+
+    expect(changes).toEqual([
+      { field: 'score', kind: 'number', from: 40, to: 70, delta: 30 },
+      { field: 'issues', kind: 'list', added: [], removed: [issue('a')] }
+    ]);
+  });
+
+  it('should reject missing attempts and stages without a diffable result', async () => {
+    mockImprovingRounds([0]);
+
+    const orchestrator = await WorkflowOrchestrator.createWorkflow('Pass', { pipeline });
+    const result = await orchestrator.executeWorkflow();
+
+    expect(() => diffStepAttempts(findStep(result, 'testing'), { iteration: 0 }, { iteration: 3 })).toThrow(StepHistoryError);
+    expect(() => findStep(result, 'review')).toThrow(StepHistoryError);
+  });
+
+  it('should serve history and diffs from the server', async () => {
+    mockImprovingRounds([2, 0]);
+    vi.stubEnv('LOG_LEVEL', 'error');
+    const contextStore = new InMemoryContextStore();
+
+    const orchestrator = await WorkflowOrchestrator.createWorkflow('Make tests pass', { pipeline, contextStore });
+    const result = await orchestrator.executeWorkflow();
+
+    const server = createServer({ contextStore }).listen(0);
+    try {
+      const baseUrl = `http://127.0.0.1:${(server.address() as AddressInfo).port.toString()}`;
+
+      const history = await fetch(`${baseUrl}/workflows/${result.id}/history`);
+      expect(history.status).toBe(200);
+      const body = await history.json() as { steps: { stage: string; attempts: unknown[] }[] };
+      expect(body.steps.map(step => [step.stage, step.attempts.length])).toEqual([['implementation', 2], ['testing', 2]]);
+
+      const diff = await fetch(`${baseUrl}/workflows/${result.id}/steps/testing/diff?from=0&to=1`);
+      expect(diff.status).toBe(200);
+      expect(await diff.json()).toMatchObject({ stage: 'testing', changes: expect.arrayContaining([expect.objectContaining({ field: 'failed', delta: -2 })]) });
+
+      expect((await fetch(`${baseUrl}/workflows/${result.id}/steps/testing/diff?from=0`)).status).toBe(400);
+      expect((await fetch(`${baseUrl}/workflows/${result.id}/steps/testing/diff?from=0&to=5`)).status).toBe(404);
+      expect((await fetch(`${baseUrl}/workflows/project_missing/history`)).status).toBe(404);
+    } finally {
+      server.close();
+    }
+  });
+});
@@ -0,0 +1,172 @@
+// tests/workflow/workflow-jobs.test.ts
+import { describe, it, expect, afterEach, vi } from 'vitest';
+import type { AddressInfo } from 'node:net';
+import { WorkflowStage, WorkflowStatus } from '../../src/agent/workflow/ProjectContext.js';
+import { InMemoryContextStore } from '../../src/agent/workflow/ContextStore.js';
+import { WorkflowJobNotFoundError, WorkflowJobQueue, WorkflowJobStateError } from '../../src/agent/workflow/WorkflowJobQueue.js';
+import type { PipelineDefinition } from '../../src/agent/workflow/pipeline.js';
+import type { AgentRunResult } from '../../src/utils/agentRunner.js';
+import { createServer } from '../../src/runners/serverRunner.js';
+
+vi.mock('../../src/agent/triage.js', () => ({ triageAgent: { name: 'Triage' } }));
+vi.mock('../../src/agent/researcher.js', () => ({ researcherAgent: { name: 'Researcher' } }));
+vi.mock('../../src/agent/architect.js', () => ({ architectAgent: { name: 'Architect' } }));
+vi.mock('../../src/agent/implementer.js', () => ({ implementerAgent: { name: 'Implementer' } }));
+vi.mock('../../src/agent/tester.js', () => ({ testAgent: { name: 'Test' } }));
+vi.mock('../../src/agent/reviewer.js', () => ({ reviewerAgent: { name: 'Reviewer' } }));
+vi.mock('../../src/agent/devops.js', () => ({ devopsAgent: { name: 'DevOps' } }));
+vi.mock('../../src/agent/docs.js', () => ({ docsAgent: { name: 'Docs' } }));
+
+vi.mock('../../src/utils/agentRunner.js', () => ({
+  runAgent: vi.fn(),
+  runAgentWithRetry: vi.fn()
+}));
+
+vi.mock('../../src/utils/logger.js', () => ({
+  logger: {
+    info: vi.fn(),
+    warn: vi.fn(),
+    error: vi.fn()
+  }
+}));
+
+import { runAgentWithRetry } from '../../src/utils/agentRunner.js';
+
+const pipeline: PipelineDefinition = {
+  name: 'triage-only',
+  stages: [{ stage: WorkflowStage.TRIAGE, agent: 'Triage', input: '{{originalRequest}}', requiresApproval: false }]
+};
+
+// 入力ごとに、テストから完了させるまで応答しないエージェント実行（中断された場合は失敗を返す）
+function controllableAgents() {
+  const pending = new Map<string, (result: AgentRunResult) => void>();
+  vi.mocked(runAgentWithRetry).mockImplementation((_agent, input, _retries, options) =>
+    new Promise<AgentRunResult>(resolve => {
+      pending.set(input, resolve);
+      options?.signal?.addEventListener('abort', () => {
+        resolve({ success: false, error: 'Agent execution aborted', metadata: { errorType: 'AbortError' }, recoverable: false });
+      });
+    }));
+  return {
+    started: () => [...pending.keys()],
+    finish: (input: string) => { pending.get(input)?.({ success: true, data: { memo: input } }); }
+  };
+}
+
+describe('Workflow job queue', () => {
+  afterEach(() => {
+    vi.resetAllMocks();
+    vi.unstubAllEnvs();
+  });
+
+  it('should run at most `concurrency` workflows and start queued ones as slots free up', async () => {
+    const agents = controllableAgents();
+    const queue = new WorkflowJobQueue({ concurrency: 2, config: { pipeline } });
+
+    const jobs = ['first', 'second', 'third'].map(request => queue.submit(request));
+
+    expect(jobs.map(job => job.status)).toEqual(['running', 'running', 'queued']);
+    expect(new Set(jobs.map(job => job.id)).size).toBe(3);
+    await vi.waitFor(() => { expect(agents.started()).toEqual(['first', 'second']); });
+    expect(queue.list({ status: ['queued'] }).map(job => job.request)).toEqual(['third']);
+    expect(queue.getContext(jobs[2].id)?.status).toBe(WorkflowStatus.PENDING);
+
+    agents.finish('first');
+    expect(await queue.wait(jobs[0].id)).toMatchObject({ status: 'completed', finishedAt: expect.any(Date) });
+    await vi.waitFor(() => { expect(agents.started()).toContain('third'); });
+
+    agents.finish('second');
+    agents.finish('third');
+    await queue.wait(jobs[2].id);
+    expect(queue.list().map(job => job.status)).toEqual(['completed', 'completed', 'completed']);
+    expect(queue.getContext(jobs[2].id)?.triageResult).toEqual({ memo: 'third' });
+  });
+
+  it('should cancel queued and running jobs', async () => {
+    const agents = controllableAgents();
+    const store = new InMemoryContextStore();
+    const queue = new WorkflowJobQueue({ concurrency: 1, config: { pipeline, contextStore: store } });
+
+    const running = queue.submit('running');
+    const queued = queue.submit('queued');
+    await vi.waitFor(() => { expect(agents.started()).toEqual(['running']); });
+
+    // 実行待ちのジョブは実行を開始せずに終了する
+    const cancelledQueued = queue.cancel(queued.id);
+    expect(cancelledQueued.status).toBe('cancelled');
+    expect(cancelledQueued.startedAt).toBeUndefined();
+    expect(queue.list({ status: ['running'] }).map(job => job.id)).toEqual([running.id]);
+    queue.cancel(running.id);
+
+    expect(await queue.wait(queued.id)).toMatchObject({ status: 'cancelled' });
+    expect(await queue.wait(running.id)).toMatchObject({ status: 'cancelled' });
+    expect(agents.started()).toEqual(['running']);
+    expect((await store.load(queued.id))?.status).toBe(WorkflowStatus.CANCELLED);
+    expect(() => queue.cancel(running.id)).toThrow(WorkflowJobStateError);
+    expect(() => queue.cancel('project_missing')).toThrow(WorkflowJobNotFoundError);
+  });
+
+  it('should mark jobs whose steps failed as failed and drop the oldest finished jobs', async () => {
+    vi.mocked(runAgentWithRetry).mockResolvedValue({ success: false, error: 'model exploded', recoverable: false });
+    const queue = new WorkflowJobQueue({ concurrency: 1, maxFinishedJobs: 1, config: { pipeline } });
+
+    const first = queue.submit('first');
+    const second = queue.submit('second');
+    await queue.wait(second.id);
+
+    expect(queue.get(first.id)).toBeUndefined();
+    expect(queue.list()).toMatchObject([{ id: second.id, status: 'failed' }]);
+  });
+
+  it('should launch, list, inspect and cancel workflows through the server', async () => {
+    const agents = controllableAgents();
+    vi.stubEnv('LOG_LEVEL', 'error');
+    const store = new InMemoryContextStore();
+    const jobs = new WorkflowJobQueue({ concurrency: 1, config: { contextStore: store } });
+
+    const server = createServer({ contextStore: store, jobs }).listen(0);
+    try {
+      const baseUrl = `http://127.0.0.1:${(server.address() as AddressInfo).port.toString()}`;
+      const submit = (body: unknown) => fetch(`${baseUrl}/workflows`, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify(body)
+      });
+
+      expect((await submit({ request: '' })).status).toBe(400);
+      expect((await submit({ request: 'Build', pipeline: 'no-such-pipeline' })).status).toBe(400);
+
+      const accepted = await submit({ request: 'Build a todo CLI' });
+      expect(accepted.status).toBe(202);
+      const job = await accepted.json() as { id: string; status: string };
+      expect(accepted.headers.get('location')).toBe(`/workflows/${job.id}`);
+      expect(job.status).toBe('running');
+      const queued = await (await submit({ request: 'Build an API', requireApproval: true })).json() as { id: string };
+
+      const list = await fetch(`${baseUrl}/workflows?status=queued,cancelled`);
+      expect(await list.json()).toMatchObject({ workflows: [{ id: queued.id, status: 'queued', workflowStatus: WorkflowStatus.PENDING }] });
+      expect((await fetch(`${baseUrl}/workflows?status=unknown`)).status).toBe(400);
+
+      await vi.waitFor(() => { expect(agents.started()).toEqual(['Build a todo CLI']); });
+      const detail = await fetch(`${baseUrl}/workflows/${job.id}`);
+      expect(await detail.json()).toMatchObject({ id: job.id, originalRequest: 'Build a todo CLI', status: WorkflowStatus.IN_PROGRESS });
+      expect((await fetch(`${baseUrl}/workflows/project_missing`)).status).toBe(404);
+
+      expect((await fetch(`${baseUrl}/workflows/${queued.id}`, { method: 'DELETE' })).status).toBe(202);
+      expect((await fetch(`${baseUrl}/workflows/${job.id}`, { method: 'DELETE' })).status).toBe(202);
+      expect((await fetch(`${baseUrl}/workflows/project_missing`, { method: 'DELETE' })).status).toBe(404);
+      const invalid = await fetch(`${baseUrl}/workflows/bad.id`, { method: 'DELETE' });
+      expect(invalid.status).toBe(400);
+      expect(await invalid.json()).toMatchObject({ error: 'invalid_request', details: { fieldErrors: { id: expect.any(Array) } } });
+      expect(await jobs.wait(job.id)).toMatchObject({ status: 'cancelled' });
+      await jobs.wait(queued.id);
+      expect((await fetch(`${baseUrl}/workflows/${queued.id}`, { method: 'DELETE' })).status).toBe(409);
+
+      const cancelled = await (await fetch(`${baseUrl}/workflows/${job.id}`)).json() as { status: string };
+      expect(cancelled.status).toBe(WorkflowStatus.CANCELLED);
+      expect(agents.started()).toEqual(['Build a todo CLI']);
+    } finally {
+      server.close();
+    }
+  });
+});
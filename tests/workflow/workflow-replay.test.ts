@@ -0,0 +1,129 @@
+// tests/workflow/workflow-replay.test.ts
+import { describe, it, expect, afterEach, vi } from 'vitest';
+import fs from 'fs/promises';
+import os from 'node:os';
+import path from 'node:path';
+import { fileURLToPath } from 'node:url';
+import { WorkflowOrchestrator } from '../../src/agent/workflow/WorkflowOrchestrator.js';
+import { WorkflowStage, WorkflowStatus } from '../../src/agent/workflow/ProjectContext.js';
+import type { PipelineDefinition } from '../../src/agent/workflow/pipeline.js';
+import { AgentCassette } from '../../src/utils/agentCassette.js';
+
+vi.mock('../../src/agent/triage.js', () => ({ triageAgent: { name: 'Triage' } }));
+vi.mock('../../src/agent/researcher.js', () => ({ researcherAgent: { name: 'Researcher' } }));
+vi.mock('../../src/agent/architect.js', () => ({ architectAgent: { name: 'Architect' } }));
+vi.mock('../../src/agent/implementer.js', () => ({ implementerAgent: { name: 'Implementer' } }));
+vi.mock('../../src/agent/tester.js', () => ({ testAgent: { name: 'Test' } }));
+vi.mock('../../src/agent/reviewer.js', () => ({ reviewerAgent: { name: 'Reviewer' } }));
+vi.mock('../../src/agent/devops.js', () => ({ devopsAgent: { name: 'DevOps' } }));
+vi.mock('../../src/agent/docs.js', () => ({ docsAgent: { name: 'Docs' } }));
+
+// runAgent は実物を使用し、SDKの Runner のみモックする
+vi.mock('../../src/utils/sharedRunner.js', () => ({
+  getSharedRunner: vi.fn()
+}));
+
+vi.mock('../../src/utils/logger.js', () => ({
+  logger: {
+    info: vi.fn(),
+    warn: vi.fn(),
+    error: vi.fn()
+  }
+}));
+
+import { getSharedRunner } from '../../src/utils/sharedRunner.js';
+
+const FIXTURE = path.join(path.dirname(fileURLToPath(import.meta.url)), 'fixtures', 'implement-test-review.cassette.json');
+
+const pipeline: PipelineDefinition = {
+  name: 'implement-test-review',
+  stages: [
+    { stage: WorkflowStage.IMPLEMENTATION, agent: 'Implementer', input: '{{originalRequest}}', requiresApproval: false },
+    { stage: WorkflowStage.TESTING, agent: 'Tester', requiresApproval: false },
+    { stage: WorkflowStage.REVIEW, agent: 'Reviewer', requiresApproval: false }
+  ]
+};
+
+// 1回目のテストで1件失敗し、2回目の反復で修正されるモデル応答
+function mockLiveRunner() {
+  let implementerRuns = 0;
+  const run = vi.fn(async (agent: { name: string }) => {
+    await Promise.resolve();
+    if (agent.name === 'Implementer') {
+      implementerRuns++;
+      return { finalOutput: { summary: `attempt ${implementerRuns.toString()}`, createdFiles: ['src/app.ts'], modifiedFiles: [], commandsToRun: [] } };
+    }
+    if (agent.name === 'Test') {
+      return { finalOutput: { passed: 4, failed: implementerRuns === 1 ? 1 : 0, newTests: ['app.test.ts'] } };
+    }
+    return { finalOutput: { summary: 'looks good', issues: [], score: 90, actionItems: [] } };
+  });
+  vi.mocked(getSharedRunner).mockReturnValue({ run } as unknown as ReturnType<typeof getSharedRunner>);
+  return run;
+}
+
+function disallowModelCalls() {
+  vi.mocked(getSharedRunner).mockImplementation(() => {
+    throw new Error('Model must not be called during replay');
+  });
+}
+
+function stageResults(context: Awaited<ReturnType<WorkflowOrchestrator['executeWorkflow']>>) {
+  return {
+    status: context.status,
+    iterationCount: context.iterationCount,
+    implementationResult: context.implementationResult,
+    testReport: context.testReport,
+    reviewReport: context.reviewReport
+  };
+}
+
+describe('Workflow record / replay', () => {
+  afterEach(() => {
+    vi.resetAllMocks();
+  });
+
+  it('should record every agent run and reproduce the workflow offline', async () => {
+    const dir = await fs.mkdtemp(path.join(os.tmpdir(), 'cassette-'));
+    const cassettePath = path.join(dir, 'run.cassette.json');
+    const run = mockLiveRunner();
+
+    const recording = await WorkflowOrchestrator.createWorkflow('Build the app', { pipeline, cassette: AgentCassette.record(cassettePath) });
+    const recorded = await recording.executeWorkflow();
+    expect(run).toHaveBeenCalledTimes(5);
+
+    disallowModelCalls();
+    const replaying = await WorkflowOrchestrator.createWorkflow('Build the app', { pipeline, cassette: await AgentCassette.replay(cassettePath) });
+    const replayed = await replaying.executeWorkflow();
+
+    expect(stageResults(replayed)).toEqual(stageResults(recorded));
+    expect(replayed.iterationCount).toBe(1);
+    expect(replayed.status).toBe(WorkflowStatus.COMPLETED);
+
+    await fs.rm(dir, { recursive: true, force: true });
+  });
+
+  it('should replay the recorded regression fixture', async () => {
+    disallowModelCalls();
+
+    const orchestrator = await WorkflowOrchestrator.createWorkflow('Build the app', { pipeline, cassette: await AgentCassette.replay(FIXTURE) });
+    const result = await orchestrator.executeWorkflow();
+
+    expect(result.status).toBe(WorkflowStatus.COMPLETED);
+    expect(result.iterationCount).toBe(1);
+    expect(result.iterations[0].failingTests?.failed).toBe(1);
+    expect(result.implementationResult?.summary).toBe('attempt 2');
+    expect(result.workflow.map(step => step.attempts?.length)).toEqual([2, 2, 1]);
+  });
+
+  it('should skip the step without calling the model when the input was not recorded', async () => {
+    disallowModelCalls();
+
+    const orchestrator = await WorkflowOrchestrator.createWorkflow('A different request', { pipeline, cassette: await AgentCassette.replay(FIXTURE) });
+    const result = await orchestrator.executeWorkflow();
+
+    expect(result.workflow[0].status).toBe(WorkflowStatus.SKIPPED);
+    expect(result.workflow[0].error).toContain('No recorded run of Implementer');
+    expect(getSharedRunner).not.toHaveBeenCalled();
+  });
+});